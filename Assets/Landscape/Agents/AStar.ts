@@ -0,0 +1,110 @@
+import {GridCell, NavGrid} from "./NavGrid"
+
+const DIAGONAL_COST = Math.SQRT2
+
+const NEIGHBOR_OFFSETS: [number, number][] = [
+  [1, 0],
+  [-1, 0],
+  [0, 1],
+  [0, -1],
+  [1, 1],
+  [1, -1],
+  [-1, 1],
+  [-1, -1],
+]
+
+/**
+ * Finds the shortest 8-connected path between two cells with A*. Diagonal
+ * steps may not cut the corners of blocked cells. Ties are broken by
+ * discovery order, so the same grid always yields the same path.
+ *
+ * @returns the cells from start to goal, both included, or null if the goal cannot be reached.
+ */
+export function findPath(
+  grid: NavGrid,
+  start: GridCell,
+  goal: GridCell,
+): GridCell[] | null {
+  if (!grid.isWalkable(start) || !grid.isWalkable(goal)) {
+    return null
+  }
+
+  const startIndex = grid.toIndex(start)
+  const goalIndex = grid.toIndex(goal)
+  const costs = new Map<number, number>([[startIndex, 0]])
+  const cameFrom = new Map<number, number>()
+  const closed = new Set<number>()
+  const open: {index: number; estimate: number}[] = [
+    {index: startIndex, estimate: octileDistance(start, goal)},
+  ]
+
+  while (open.length > 0) {
+    // Grids are small, so a linear scan of the open list is fast enough
+    let best = 0
+    for (let i = 1; i < open.length; i++) {
+      if (open[i].estimate < open[best].estimate) {
+        best = i
+      }
+    }
+    const current = open.splice(best, 1)[0].index
+    if (current === goalIndex) {
+      return reconstructPath(grid, cameFrom, current)
+    }
+    if (closed.has(current)) {
+      continue
+    }
+    closed.add(current)
+
+    const cell = grid.fromIndex(current)
+    for (const [dx, dy] of NEIGHBOR_OFFSETS) {
+      const neighbor = {column: cell.column + dx, row: cell.row + dy}
+      if (!grid.isWalkable(neighbor)) {
+        continue
+      }
+      const diagonal = dx !== 0 && dy !== 0
+      if (
+        diagonal &&
+        (!grid.isWalkable({column: cell.column + dx, row: cell.row}) ||
+          !grid.isWalkable({column: cell.column, row: cell.row + dy}))
+      ) {
+        continue
+      }
+
+      const neighborIndex = grid.toIndex(neighbor)
+      const cost = costs.get(current)! + (diagonal ? DIAGONAL_COST : 1)
+      if (
+        closed.has(neighborIndex) ||
+        cost >= (costs.get(neighborIndex) ?? Infinity)
+      ) {
+        continue
+      }
+      costs.set(neighborIndex, cost)
+      cameFrom.set(neighborIndex, current)
+      open.push({
+        index: neighborIndex,
+        estimate: cost + octileDistance(neighbor, goal),
+      })
+    }
+  }
+  return null
+}
+
+function octileDistance(a: GridCell, b: GridCell): number {
+  const dx = Math.abs(a.column - b.column)
+  const dy = Math.abs(a.row - b.row)
+  return Math.max(dx, dy) + (DIAGONAL_COST - 1) * Math.min(dx, dy)
+}
+
+function reconstructPath(
+  grid: NavGrid,
+  cameFrom: Map<number, number>,
+  goalIndex: number,
+): GridCell[] {
+  const path = [grid.fromIndex(goalIndex)]
+  let current = goalIndex
+  while (cameFrom.has(current)) {
+    current = cameFrom.get(current)!
+    path.unshift(grid.fromIndex(current))
+  }
+  return path
+}
@@ -0,0 +1,142 @@
+import {expect, SelfCheck} from "../Checks/SelfCheck"
+import {AmbientAgents} from "./AmbientAgents"
+import {findPath} from "./AStar"
+import {GridCell, NavGrid} from "./NavGrid"
+
+// Steps recorded per run of the replay check, one second of simulation
+const REPLAY_STEPS = 30
+
+const REPLAY_STEP = 1 / 30
+
+// 5 by 5 grid of 1 cm cells with a wall along column 2, open only in the last row
+function createWalledGrid(): NavGrid {
+  const grid = new NavGrid(vec2.zero(), new vec2(5, 5), 1)
+  grid.blockRect(new vec2(2, 0), new vec2(3, 4))
+  return grid
+}
+
+function getPathCost(path: GridCell[]): number {
+  let cost = 0
+  for (let i = 1; i < path.length; i++) {
+    const diagonal =
+      path[i].column !== path[i - 1].column && path[i].row !== path[i - 1].row
+    cost += diagonal ? Math.SQRT2 : 1
+  }
+  return cost
+}
+
+function expectWalkablePath(
+  grid: NavGrid,
+  path: GridCell[],
+  start: GridCell,
+  goal: GridCell,
+): void {
+  expect(
+    path[0].column === start.column && path[0].row === start.row,
+    "path should begin at the start",
+  )
+  const last = path[path.length - 1]
+  expect(
+    last.column === goal.column && last.row === goal.row,
+    "path should end at the goal",
+  )
+  for (let i = 1; i < path.length; i++) {
+    const from = path[i - 1]
+    const to = path[i]
+    const dx = to.column - from.column
+    const dy = to.row - from.row
+    expect(
+      Math.max(Math.abs(dx), Math.abs(dy)) === 1,
+      `step ${i} should move to a neighbor`,
+    )
+    expect(grid.isWalkable(to), `step ${i} should be walkable`)
+    expect(
+      grid.isWalkable({column: from.column + dx, row: from.row}) &&
+        grid.isWalkable({column: from.column, row: from.row + dy}),
+      `step ${i} should not cut a corner`,
+    )
+  }
+}
+
+/**
+ * Checks of the agents' path finding, which runs on plain data.
+ */
+export const NAVIGATION_CHECKS: SelfCheck[] = [
+  {
+    name: "A* finds the shortest path around obstacles",
+    run: () => {
+      const grid = createWalledGrid()
+      const start = {column: 0, row: 0}
+      const goal = {column: 4, row: 0}
+      const path = findPath(grid, start, goal)
+      expect(path !== null, "goal should be reachable through the gap")
+      expectWalkablePath(grid, path!, start, goal)
+      // Three steps and a diagonal up to the gap, two steps through it and the same way down
+      const shortest = 8 + 2 * Math.SQRT2
+      expect(
+        Math.abs(getPathCost(path!) - shortest) < 1e-6,
+        `path should cost ${shortest}, got ${getPathCost(path!)}`,
+      )
+    },
+  },
+  {
+    name: "A* reports unreachable goals",
+    run: () => {
+      const grid = createWalledGrid()
+      grid.blockRect(new vec2(2, 4), new vec2(3, 5))
+      expect(
+        findPath(grid, {column: 0, row: 0}, {column: 4, row: 0}) === null,
+        "a goal behind a closed wall should be unreachable",
+      )
+      expect(
+        findPath(grid, {column: 0, row: 0}, {column: 2, row: 1}) === null,
+        "a blocked goal should be unreachable",
+      )
+    },
+  },
+  {
+    name: "A* paths are deterministic",
+    run: () => {
+      const grid = new NavGrid(vec2.zero(), new vec2(6, 6), 1)
+      const first = findPath(grid, {column: 0, row: 0}, {column: 5, row: 3})
+      const second = findPath(grid, {column: 0, row: 0}, {column: 5, row: 3})
+      expect(
+        JSON.stringify(first) === JSON.stringify(second),
+        "the same query should give the same path",
+      )
+    },
+  },
+]
+
+/**
+ * Returns a check that the agents play out the same way twice from the same
+ * seed. The check respawns the agents.
+ */
+export function createAgentReplayCheck(agents: AmbientAgents): SelfCheck {
+  const record = (seed: number) => {
+    agents.resetSeed(seed)
+    agents.spawn()
+    const frames: string[] = []
+    for (let i = 0; i < REPLAY_STEPS; i++) {
+      agents.step(REPLAY_STEP)
+      frames.push(
+        agents
+          .getAgentPositions()
+          .map((position) => `${position.x},${position.y}`)
+          .join(" "),
+      )
+    }
+    return frames
+  }
+
+  return {
+    name: "Agents replay the same way from the same seed",
+    run: () => {
+      const seed = agents.seed
+      const first = record(seed)
+      const second = record(seed)
+      const diverged = first.findIndex((frame, i) => frame !== second[i])
+      expect(diverged === -1, `agents diverged at step ${diverged}`)
+    },
+  }
+}
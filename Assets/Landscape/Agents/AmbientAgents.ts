@@ -0,0 +1,329 @@
+import {unsubscribe} from "SpectaclesInteractionKit/Utils/Event"
+import {LensConfig} from "SpectaclesInteractionKit/Utils/LensConfig"
+import {SeededRandomNumberGenerator} from "SpectaclesInteractionKit/Utils/SeededRandomNumberGenerator"
+import {DispatchedUpdateEvent} from "SpectaclesInteractionKit/Utils/UpdateDispatcher"
+import {aabb} from "SpectaclesInteractionKit/Utils/aabb"
+import {LandscapeObjectRegistry} from "../Core/LandscapeObjectRegistry"
+import {ManipulationTracker} from "../Core/ManipulationTracker"
+import {PrefabPool} from "../Core/PrefabPool"
+import {PlacementValidator} from "../Placement/PlacementValidator"
+import {TerrainSurface} from "../Terrain/TerrainSurface"
+import {createSeededRandom} from "../Utils/SeededRandom"
+import {findPath} from "./AStar"
+import {GridCell, NavGrid} from "./NavGrid"
+import {
+  arrive,
+  integrate,
+  separate,
+  SteeringBody,
+  SteeringSettings,
+} from "./Steering"
+
+// Agents move in fixed steps, so a seed always replays the same way whatever the frame rate
+const FIXED_STEP = 1 / 30
+
+// Upper bound of steps per frame, so a long frame does not stall the lens
+const MAX_STEPS_PER_FRAME = 4
+
+// Attempts at finding a reachable destination before waiting for the next step
+const MAX_GOAL_ATTEMPTS = 3
+
+type Agent = {
+  prefab: ObjectPrefab
+  sceneObject: SceneObject
+  body: SteeringBody
+  /**
+   * Waypoints left to the destination, as (x, z) cell centers.
+   */
+  waypoints: vec2[]
+}
+
+/**
+ * Fills a square area of the landscape with small agents, e.g. cars or
+ * characters, that wander between random destinations. Agents find their way
+ * around placed objects with A* over a {@link NavGrid} built from the
+ * objects' collider boxes, follow the path with steering and keep apart from
+ * each other. The simulation runs in fixed steps on the UpdateDispatcher and
+ * draws every random choice from a seeded generator, so the same seed and
+ * landscape always play out the same way.
+ *
+ * Agents are decoration: they are neither placed objects nor saved.
+ */
+@component
+export class AmbientAgents extends BaseScriptComponent {
+  @input
+  prefabs: ObjectPrefab[] = []
+  @input("int")
+  @hint("Number of agents spawned on start")
+  count: number = 5
+  @input("int")
+  @hint("Seed of the random number generator")
+  seed: number = 1
+  @input
+  @allowUndefined
+  @hint(
+    "Terrain the agents walk on. Leave empty to walk at this object's height.",
+  )
+  terrain: TerrainSurface | undefined
+  @ui.group_start("Navigation")
+  @input
+  @hint("Width of the square area centered on this object, in cm")
+  areaSize: number = 200
+  @input
+  @hint("Width of a navigation grid cell, in cm")
+  cellSize: number = 10
+  @input
+  @hint("Distance agents keep from placed objects and each other, in cm")
+  agentRadius: number = 3
+  @ui.group_end
+  @ui.group_start("Steering")
+  @input
+  @hint("Top speed, in cm per second")
+  maxSpeed: number = 20
+  @input
+  @hint("Largest change of velocity per second, in cm per second²")
+  maxForce: number = 60
+  @input
+  @hint("Distance at which a waypoint counts as reached, in cm")
+  waypointRadius: number = 5
+  @ui.group_end
+  private registry = LandscapeObjectRegistry.getInstance()
+  private tracker = ManipulationTracker.getInstance()
+  private pool = PrefabPool.getInstance()
+  private validator = new PlacementValidator()
+  private updateDispatcher = LensConfig.getInstance().updateDispatcher
+
+  private rng!: SeededRandomNumberGenerator
+  private random!: () => number
+  private updateEvent!: DispatchedUpdateEvent
+  private grid: NavGrid | null = null
+  private walkableCells: GridCell[] = []
+  private agents: Agent[] = []
+  private accumulatedTime = 0
+
+  // Keep track of "Unsubscribe" functions when adding callbacks to registry and tracker events, to ensure proper cleanup on destroy
+  private unsubscribeBag: unsubscribe[] = []
+
+  onAwake(): void {
+    this.resetSeed(this.seed)
+
+    this.updateEvent = this.updateDispatcher.createUpdateEvent(
+      "AmbientAgentsUpdate",
+    )
+    this.updateEvent.bind(() => this.onUpdate())
+
+    // Placed objects changing invalidates the grid; it is rebuilt on the next step
+    const invalidate = () => (this.grid = null)
+    this.unsubscribeBag.push(
+      this.registry.onObjectAdded.add(invalidate),
+      this.registry.onObjectRemoved.add(invalidate),
+      this.registry.onObjectReplaced.add(invalidate),
+      this.tracker.onManipulationEnded.add(invalidate),
+    )
+
+    this.createEvent("OnStartEvent").bind(() => this.spawn())
+    this.createEvent("OnEnableEvent").bind(() => {
+      this.updateEvent.enabled = true
+    })
+    this.createEvent("OnDisableEvent").bind(() => {
+      this.updateEvent.enabled = false
+    })
+    this.createEvent("OnDestroyEvent").bind(() => {
+      this.updateDispatcher.removeUpdateEvent(this.updateEvent)
+      this.unsubscribeBag.forEach((unsubscribe) => unsubscribe())
+      this.unsubscribeBag = []
+      this.despawnAll()
+    })
+  }
+
+  /**
+   * Restarts the random sequence, e.g. to replay a previous run. Call
+   * {@link spawn} afterwards to start over from the first agent.
+   */
+  resetSeed(seed: number): void {
+    this.seed = seed
+    this.rng = createSeededRandom(seed)
+    this.random = this.rng.randomRange(0, 1)
+  }
+
+  /**
+   * Replaces the current agents with new ones on random free cells. Can be
+   * bound to a PinchButton.
+   *
+   * @param count - number of agents, {@link count} by default.
+   */
+  spawn(count: number = this.count): void {
+    this.despawnAll()
+    // Leftover time from the previous run would shift every step of this one
+    this.accumulatedTime = 0
+    if (this.prefabs.length === 0) {
+      return
+    }
+
+    const grid = this.getGrid()
+    for (let i = 0; i < count && this.walkableCells.length > 0; i++) {
+      const prefab = this.prefabs[this.randomIndex(this.prefabs.length)]
+      const cell =
+        this.walkableCells[this.randomIndex(this.walkableCells.length)]
+      const agent: Agent = {
+        prefab: prefab,
+        sceneObject: this.pool.acquire(prefab, this.getSceneObject()),
+        body: {position: grid.toPoint(cell), velocity: vec2.zero()},
+        waypoints: [],
+      }
+      this.agents.push(agent)
+      this.updateTransform(agent)
+    }
+  }
+
+  /**
+   * Removes every agent. Can be bound to a PinchButton.
+   */
+  despawnAll(): void {
+    this.agents.forEach((agent) =>
+      this.pool.release(agent.prefab, agent.sceneObject),
+    )
+    this.agents = []
+  }
+
+  /**
+   * Returns the (x, z) position of every agent, in spawn order.
+   */
+  getAgentPositions(): vec2[] {
+    return this.agents.map((agent) => agent.body.position)
+  }
+
+  /**
+   * Advances the simulation by whole fixed steps. Called every frame with the
+   * frame's delta time; tests can call it directly.
+   */
+  step(deltaTime: number): void {
+    this.accumulatedTime += deltaTime
+    let steps = 0
+    while (this.accumulatedTime >= FIXED_STEP && steps < MAX_STEPS_PER_FRAME) {
+      this.accumulatedTime -= FIXED_STEP
+      this.fixedStep()
+      steps++
+    }
+    // Drop time that could not be caught up with, rather than running ever longer frames
+    if (steps === MAX_STEPS_PER_FRAME) {
+      this.accumulatedTime = 0
+    }
+    this.agents.forEach((agent) => this.updateTransform(agent))
+  }
+
+  private onUpdate(): void {
+    this.step(getDeltaTime())
+  }
+
+  private fixedStep(): void {
+    const grid = this.getGrid()
+    const settings = this.getSettings()
+    const bodies = this.agents.map((agent) => agent.body)
+
+    for (const agent of this.agents) {
+      if (agent.waypoints.length === 0) {
+        agent.waypoints = this.planRoute(grid, agent.body.position)
+      }
+      const target = agent.waypoints[0] ?? agent.body.position
+      if (agent.body.position.distance(target) <= this.waypointRadius) {
+        agent.waypoints.shift()
+      }
+
+      const force = arrive(
+        agent.body,
+        target,
+        settings,
+        agent.waypoints.length <= 1,
+      ).add(separate(agent.body, bodies, settings))
+
+      // Separation may push an agent into an obstacle; stop it there and plan again.
+      // Agents already inside one, e.g. after an object was placed on them, may walk out.
+      const previous = agent.body.position
+      integrate(agent.body, force, settings, FIXED_STEP)
+      if (
+        grid.isWalkable(grid.toCell(previous)) &&
+        !grid.isWalkable(grid.toCell(agent.body.position))
+      ) {
+        agent.body.position = previous
+        agent.body.velocity = vec2.zero()
+        agent.waypoints = []
+      }
+    }
+  }
+
+  private planRoute(grid: NavGrid, position: vec2): vec2[] {
+    const start = grid.findNearestWalkable(grid.toCell(position))
+    if (start === null || this.walkableCells.length === 0) {
+      return []
+    }
+    for (let attempt = 0; attempt < MAX_GOAL_ATTEMPTS; attempt++) {
+      const goal =
+        this.walkableCells[this.randomIndex(this.walkableCells.length)]
+      const path = findPath(grid, start, goal)
+      if (path !== null && path.length > 1) {
+        return path.slice(1).map((cell) => grid.toPoint(cell))
+      }
+    }
+    return []
+  }
+
+  private getGrid(): NavGrid {
+    if (this.grid !== null) {
+      return this.grid
+    }
+
+    const obstacles: aabb[] = []
+    for (const placedObject of this.registry.getAll()) {
+      if (!placedObject.sceneObject.enabled) {
+        continue
+      }
+      const bounds = this.validator.getWorldBounds(placedObject)
+      if (bounds !== null) {
+        obstacles.push(bounds)
+      }
+    }
+
+    const center = this.getTransform().getWorldPosition()
+    const half = this.areaSize / 2
+    this.grid = NavGrid.fromBounds(
+      new vec2(center.x - half, center.z - half),
+      new vec2(center.x + half, center.z + half),
+      this.cellSize,
+      obstacles,
+      this.agentRadius,
+    )
+    this.walkableCells = this.grid.getWalkableCells()
+    // Routes planned on the previous grid may run through new obstacles
+    this.agents.forEach((agent) => (agent.waypoints = []))
+    return this.grid
+  }
+
+  private getSettings(): SteeringSettings {
+    return {
+      maxSpeed: this.maxSpeed,
+      maxForce: this.maxForce,
+      slowingDistance: this.cellSize * 2,
+      separationDistance: this.agentRadius * 2,
+    }
+  }
+
+  private updateTransform(agent: Agent): void {
+    const {position, velocity} = agent.body
+    const groundHeight = this.getTransform().getWorldPosition().y
+    const worldPosition = new vec3(position.x, groundHeight, position.y)
+    const surfacePoint = this.terrain?.getSurfacePoint(worldPosition) ?? null
+
+    const transform = agent.sceneObject.getTransform()
+    transform.setWorldPosition(surfacePoint ?? worldPosition)
+    if (velocity.length > 0.01) {
+      transform.setWorldRotation(
+        quat.lookAt(new vec3(velocity.x, 0, velocity.y).normalize(), vec3.up()),
+      )
+    }
+  }
+
+  private randomIndex(length: number): number {
+    return Math.min(length - 1, Math.floor(this.random() * length))
+  }
+}
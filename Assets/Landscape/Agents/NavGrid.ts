@@ -0,0 +1,168 @@
+import {aabb} from "SpectaclesInteractionKit/Utils/aabb"
+
+/**
+ * Cell of a {@link NavGrid}, by column and row.
+ */
+export type GridCell = {
+  column: number
+  row: number
+}
+
+/**
+ * Walkability grid over a rectangle of the ground plane. Cells whose center
+ * lies under an obstacle's box, widened by the agents' radius, are blocked.
+ */
+export class NavGrid {
+  readonly columns: number
+  readonly rows: number
+
+  private blocked: boolean[]
+
+  /**
+   * @param min - (x, z) corner of the area with the lowest coordinates.
+   * @param max - (x, z) corner of the area with the highest coordinates.
+   * @param cellSize - width of a cell, in cm.
+   */
+  constructor(
+    readonly min: vec2,
+    readonly max: vec2,
+    readonly cellSize: number,
+  ) {
+    this.columns = Math.max(1, Math.ceil((max.x - min.x) / cellSize))
+    this.rows = Math.max(1, Math.ceil((max.y - min.y) / cellSize))
+    this.blocked = new Array(this.columns * this.rows).fill(false)
+  }
+
+  /**
+   * Builds a grid with every cell under one of the obstacles blocked.
+   *
+   * @param obstacles - world-space boxes, e.g. the collider bounds of placed objects.
+   * @param clearance - distance agents keep from obstacles, usually their radius.
+   */
+  static fromBounds(
+    min: vec2,
+    max: vec2,
+    cellSize: number,
+    obstacles: aabb[],
+    clearance: number,
+  ): NavGrid {
+    const grid = new NavGrid(min, max, cellSize)
+    for (const obstacle of obstacles) {
+      grid.blockRect(
+        new vec2(obstacle.min.x - clearance, obstacle.min.z - clearance),
+        new vec2(obstacle.max.x + clearance, obstacle.max.z + clearance),
+      )
+    }
+    return grid
+  }
+
+  /**
+   * Blocks every cell whose center lies in the (x, z) rectangle.
+   */
+  blockRect(min: vec2, max: vec2): void {
+    const first = this.toCell(min)
+    const last = this.toCell(max)
+    for (let row = first.row; row <= last.row; row++) {
+      for (let column = first.column; column <= last.column; column++) {
+        const center = this.toPoint({column: column, row: row})
+        if (
+          center.x >= min.x &&
+          center.x <= max.x &&
+          center.y >= min.y &&
+          center.y <= max.y
+        ) {
+          this.blocked[row * this.columns + column] = true
+        }
+      }
+    }
+  }
+
+  contains(cell: GridCell): boolean {
+    return (
+      cell.column >= 0 &&
+      cell.column < this.columns &&
+      cell.row >= 0 &&
+      cell.row < this.rows
+    )
+  }
+
+  isWalkable(cell: GridCell): boolean {
+    return (
+      this.contains(cell) &&
+      !this.blocked[cell.row * this.columns + cell.column]
+    )
+  }
+
+  /**
+   * Returns the cell containing an (x, z) point, clamped to the grid.
+   */
+  toCell(point: vec2): GridCell {
+    return {
+      column: Math.min(
+        this.columns - 1,
+        Math.max(0, Math.floor((point.x - this.min.x) / this.cellSize)),
+      ),
+      row: Math.min(
+        this.rows - 1,
+        Math.max(0, Math.floor((point.y - this.min.y) / this.cellSize)),
+      ),
+    }
+  }
+
+  /**
+   * Returns the (x, z) center of a cell.
+   */
+  toPoint(cell: GridCell): vec2 {
+    return new vec2(
+      this.min.x + (cell.column + 0.5) * this.cellSize,
+      this.min.y + (cell.row + 0.5) * this.cellSize,
+    )
+  }
+
+  toIndex(cell: GridCell): number {
+    return cell.row * this.columns + cell.column
+  }
+
+  fromIndex(index: number): GridCell {
+    return {column: index % this.columns, row: Math.floor(index / this.columns)}
+  }
+
+  /**
+   * Returns every walkable cell, in row order.
+   */
+  getWalkableCells(): GridCell[] {
+    const cells: GridCell[] = []
+    for (let index = 0; index < this.blocked.length; index++) {
+      if (!this.blocked[index]) {
+        cells.push(this.fromIndex(index))
+      }
+    }
+    return cells
+  }
+
+  /**
+   * Returns the walkable cell closest to the given one, searching outwards
+   * ring by ring, or null if every cell is blocked.
+   */
+  findNearestWalkable(cell: GridCell): GridCell | null {
+    const maxRadius = Math.max(this.columns, this.rows)
+    for (let radius = 0; radius <= maxRadius; radius++) {
+      for (let row = cell.row - radius; row <= cell.row + radius; row++) {
+        for (
+          let column = cell.column - radius;
+          column <= cell.column + radius;
+          column++
+        ) {
+          const onRing =
+            Math.abs(row - cell.row) === radius ||
+            Math.abs(column - cell.column) === radius
+          const candidate = {column: column, row: row}
+          if (onRing && this.isWalkable(candidate)) {
+            return candidate
+          }
+        }
+      }
+    }
+    return null
+  }
+}
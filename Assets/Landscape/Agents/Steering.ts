@@ -0,0 +1,97 @@
+/**
+ * Position and velocity of an agent on the ground plane, as (x, z).
+ */
+export type SteeringBody = {
+  position: vec2
+  velocity: vec2
+}
+
+export type SteeringSettings = {
+  /**
+   * Top speed, in cm per second.
+   */
+  maxSpeed: number
+  /**
+   * Largest change of velocity per second, in cm per second².
+   */
+  maxForce: number
+  /**
+   * Distance to the target at which the agent starts slowing down, in cm.
+   */
+  slowingDistance: number
+  /**
+   * Agents closer than this push each other apart, in cm.
+   */
+  separationDistance: number
+}
+
+/**
+ * Returns the steering force that takes a body to a target, slowing down on
+ * arrival if the target is the last one.
+ */
+export function arrive(
+  body: SteeringBody,
+  target: vec2,
+  settings: SteeringSettings,
+  slowDown: boolean,
+): vec2 {
+  const offset = target.sub(body.position)
+  const distance = offset.length
+  if (distance === 0) {
+    return body.velocity.uniformScale(-1)
+  }
+
+  const speed =
+    slowDown && distance < settings.slowingDistance
+      ? settings.maxSpeed * (distance / settings.slowingDistance)
+      : settings.maxSpeed
+  const desired = offset.uniformScale(speed / distance)
+  return desired.sub(body.velocity)
+}
+
+/**
+ * Returns the steering force that keeps a body away from its neighbors,
+ * stronger the closer they are.
+ */
+export function separate(
+  body: SteeringBody,
+  neighbors: SteeringBody[],
+  settings: SteeringSettings,
+): vec2 {
+  let force = vec2.zero()
+  for (const neighbor of neighbors) {
+    if (neighbor === body) {
+      continue
+    }
+    const away = body.position.sub(neighbor.position)
+    const distance = away.length
+    if (distance > 0 && distance < settings.separationDistance) {
+      force = force.add(
+        away.uniformScale(
+          (settings.maxSpeed * (settings.separationDistance - distance)) /
+            (settings.separationDistance * distance),
+        ),
+      )
+    }
+  }
+  return force
+}
+
+/**
+ * Applies a steering force to a body for one step, limited by the settings.
+ */
+export function integrate(
+  body: SteeringBody,
+  force: vec2,
+  settings: SteeringSettings,
+  deltaTime: number,
+): void {
+  const steering = clampLength(force, settings.maxForce * deltaTime)
+  body.velocity = clampLength(body.velocity.add(steering), settings.maxSpeed)
+  body.position = body.position.add(body.velocity.uniformScale(deltaTime))
+}
+
+function clampLength(vector: vec2, maxLength: number): vec2 {
+  const length = vector.length
+  return length > maxLength ? vector.uniformScale(maxLength / length) : vector
+}
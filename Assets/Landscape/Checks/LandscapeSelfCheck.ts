@@ -0,0 +1,62 @@
+import NativeLogger from "SpectaclesInteractionKit/Utils/NativeLogger"
+import {createAgentReplayCheck, NAVIGATION_CHECKS} from "../Agents/AgentChecks"
+import {AmbientAgents} from "../Agents/AmbientAgents"
+import {GLTF_CHECKS} from "../Export/LandscapeGltfChecks"
+import {SYNC_CHECKS} from "../Sync/SyncChecks"
+import {runSelfChecks, SelfCheck} from "./SelfCheck"
+
+const TAG = "LandscapeSelfCheck"
+
+/**
+ * Runs the behavior checks of the landscape modules that work on plain data,
+ * e.g. the glTF conversion, path finding and sync replicas, and logs every
+ * failure. Add it to a scene to check a build on device.
+ */
+@component
+export class LandscapeSelfCheck extends BaseScriptComponent {
+  @input
+  @hint("Run the checks when the lens starts")
+  runOnStart: boolean = true
+  @input
+  @allowUndefined
+  @hint(
+    "Agents checked to replay the same way from their seed. They are respawned.",
+  )
+  agents: AmbientAgents | undefined
+
+  // Native Logging
+  private log = new NativeLogger(TAG)
+
+  onAwake(): void {
+    this.createEvent("OnStartEvent").bind(() => {
+      if (this.runOnStart) {
+        this.run()
+      }
+    })
+  }
+
+  /**
+   * Runs every check. Can be bound to a PinchButton.
+   *
+   * @returns true if every check passed.
+   */
+  run(): boolean {
+    const checks = this.getChecks()
+    const failures = runSelfChecks(checks)
+    failures.forEach((failure) =>
+      this.log.e(`${failure.name} failed: ${failure.error}`),
+    )
+    this.log.i(
+      `${checks.length - failures.length}/${checks.length} checks passed`,
+    )
+    return failures.length === 0
+  }
+
+  private getChecks(): SelfCheck[] {
+    const checks = [...GLTF_CHECKS, ...NAVIGATION_CHECKS, ...SYNC_CHECKS]
+    if (this.agents !== undefined) {
+      checks.push(createAgentReplayCheck(this.agents))
+    }
+    return checks
+  }
+}
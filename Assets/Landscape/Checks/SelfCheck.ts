@@ -0,0 +1,56 @@
+/**
+ * A named behavior check. Checks throw, e.g. through {@link expect}, when the
+ * behavior they cover is broken.
+ */
+export type SelfCheck = {
+  name: string
+  run: () => void
+}
+
+export type SelfCheckFailure = {
+  name: string
+  error: string
+}
+
+/**
+ * Throws if the condition does not hold.
+ */
+export function expect(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(message)
+  }
+}
+
+/**
+ * Throws if two lists of numbers differ by more than the tolerance in any
+ * component, e.g. for poses that went through a conversion.
+ */
+export function expectClose(
+  actual: number[],
+  expected: number[],
+  message: string,
+  tolerance: number = 1e-4,
+): void {
+  expect(
+    actual.length === expected.length &&
+      actual.every((value, i) => Math.abs(value - expected[i]) <= tolerance),
+    `${message}: expected [${expected}], got [${actual}]`,
+  )
+}
+
+/**
+ * Runs every check, carrying on past failures.
+ *
+ * @returns the checks that failed, with the error they threw.
+ */
+export function runSelfChecks(checks: SelfCheck[]): SelfCheckFailure[] {
+  const failures: SelfCheckFailure[] = []
+  for (const check of checks) {
+    try {
+      check.run()
+    } catch (error) {
+      failures.push({name: check.name, error: `${error}`})
+    }
+  }
+  return failures
+}
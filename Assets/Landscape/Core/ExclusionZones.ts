@@ -0,0 +1,109 @@
+import {Singleton} from "SpectaclesInteractionKit/Decorators/Singleton"
+import {unsubscribe} from "SpectaclesInteractionKit/Utils/Event"
+import {distanceToPolyline} from "../Utils/PolygonMath"
+
+/**
+ * Area of the ground plane where nothing may be generated or scattered,
+ * e.g. a body of water or a path. Points are given as (x, z) world
+ * coordinates.
+ */
+export interface ExclusionZone {
+  contains(point: vec2): boolean
+
+  /**
+   * True if objects may not be placed in the zone by hand either, e.g. on a
+   * road. Zones only keep generated and scattered content out by default.
+   */
+  readonly blocksPlacement?: boolean
+}
+
+export class CircleExclusionZone implements ExclusionZone {
+  constructor(
+    readonly center: vec2,
+    readonly radius: number,
+  ) {}
+
+  contains(point: vec2): boolean {
+    return point.distance(this.center) <= this.radius
+  }
+}
+
+export class RectExclusionZone implements ExclusionZone {
+  constructor(
+    readonly min: vec2,
+    readonly max: vec2,
+  ) {}
+
+  contains(point: vec2): boolean {
+    return (
+      point.x >= this.min.x &&
+      point.x <= this.max.x &&
+      point.y >= this.min.y &&
+      point.y <= this.max.y
+    )
+  }
+}
+
+/**
+ * Band of a given half width around a polyline, e.g. a path.
+ */
+export class PolylineExclusionZone implements ExclusionZone {
+  constructor(
+    readonly polyline: vec2[],
+    readonly halfWidth: number,
+    readonly blocksPlacement: boolean = false,
+  ) {}
+
+  contains(point: vec2): boolean {
+    return (
+      this.polyline.length > 0 &&
+      distanceToPolyline(point, this.polyline) <= this.halfWidth
+    )
+  }
+}
+
+/**
+ * Keeps track of the exclusion zones currently present in the scene, so
+ * tools that generate content can avoid them without knowing who owns them.
+ */
+@Singleton
+export class ExclusionZoneRegistry {
+  public static getInstance: () => ExclusionZoneRegistry
+
+  private zones: ExclusionZone[] = []
+
+  /**
+   * Adds a zone.
+   *
+   * @returns a function removing the zone again.
+   */
+  add(zone: ExclusionZone): unsubscribe {
+    this.zones.push(zone)
+    return () => {
+      const index = this.zones.indexOf(zone)
+      if (index !== -1) {
+        this.zones.splice(index, 1)
+      }
+    }
+  }
+
+  getAll(): ExclusionZone[] {
+    return [...this.zones]
+  }
+
+  /**
+   * @returns true if the (x, z) point lies in any registered zone.
+   */
+  isExcluded(point: vec2): boolean {
+    return this.zones.some((zone) => zone.contains(point))
+  }
+
+  /**
+   * @returns true if the (x, z) point lies in a zone that blocks placement.
+   */
+  isPlacementBlocked(point: vec2): boolean {
+    return this.zones.some(
+      (zone) => zone.blocksPlacement === true && zone.contains(point),
+    )
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * Current schema version of the landscape document. Bump this whenever the
+ * shape of {@link LandscapeDocument} changes and add a matching entry to
+ * {@link LANDSCAPE_MIGRATIONS}.
+ */
+export const LANDSCAPE_DOCUMENT_VERSION = 2
+
+export type Vec3Record = [number, number, number]
+
+/**
+ * Quaternion stored in (w, x, y, z) order, matching the quat constructor.
+ */
+export type QuatRecord = [number, number, number, number]
+
+/**
+ * A single object placed in the landscape.
+ */
+export type PlacedObjectRecord = {
+  /**
+   * Stable identifier of the placed object, unique within the document.
+   */
+  id: string
+  /**
+   * Index of the prefab in the catalog at the time of saving. Only used as a
+   * fallback when the prefab name can no longer be resolved.
+   */
+  prefabIndex: number
+  prefabName: string
+  position: Vec3Record
+  rotation: QuatRecord
+  scale: Vec3Record
+  /**
+   * Id of the placed object this one is parented to, or null if it sits at
+   * the root of the scene.
+   */
+  parentId: string | null
+}
+
+/**
+ * Versioned, JSON-serializable description of a landscape.
+ */
+export type LandscapeDocument = {
+  version: number
+  savedAt: number
+  objects: PlacedObjectRecord[]
+  /**
+   * State saved by subsystems other than the object layout, e.g. the
+   * terrain, keyed by section name. See LandscapeSections.
+   */
+  sections: {[name: string]: unknown}
+}
+
+// A document of any version, as parsed from JSON
+type DocumentRecord = {[key: string]: unknown}
+
+type Migration = (document: DocumentRecord) => DocumentRecord
+
+/**
+ * Migrations keyed by the version they upgrade *from*. Each migration
+ * returns a document of the next version.
+ */
+const LANDSCAPE_MIGRATIONS: {[fromVersion: number]: Migration} = {
+  // Version 2 added sections for subsystem state
+  1: (document) => ({...document, version: 2, sections: {}}),
+}
+
+/**
+ * @returns an empty document at the current schema version.
+ */
+export function createEmptyLandscapeDocument(): LandscapeDocument {
+  return {
+    version: LANDSCAPE_DOCUMENT_VERSION,
+    savedAt: 0,
+    objects: [],
+    sections: {},
+  }
+}
+
+/**
+ * Upgrades a parsed document to {@link LANDSCAPE_DOCUMENT_VERSION} by running
+ * every migration between its version and the current one.
+ *
+ * @param document - the parsed JSON document.
+ * @returns the document at the current schema version.
+ */
+export function migrateLandscapeDocument(document: unknown): LandscapeDocument {
+  if (document === null || typeof document !== "object") {
+    throw new Error("Landscape document is not an object")
+  }
+
+  let record = document as DocumentRecord
+  if (
+    typeof record.version !== "number" ||
+    !Number.isInteger(record.version) ||
+    record.version < 1
+  ) {
+    throw new Error(`Invalid landscape document version: ${record.version}`)
+  }
+  let version = record.version
+  if (version > LANDSCAPE_DOCUMENT_VERSION) {
+    throw new Error(
+      `Landscape document version ${version} is newer than supported version ${LANDSCAPE_DOCUMENT_VERSION}`,
+    )
+  }
+
+  while (version < LANDSCAPE_DOCUMENT_VERSION) {
+    const migration = LANDSCAPE_MIGRATIONS[version]
+    if (migration === undefined) {
+      throw new Error(`No migration from landscape document version ${version}`)
+    }
+    record = migration(record)
+    version = record.version as number
+  }
+
+  // Single object records are checked as they are loaded, see isPlacedObjectRecord
+  if (!Array.isArray(record.objects)) {
+    throw new Error("Landscape document has no object list")
+  }
+  if (
+    record.sections === null ||
+    typeof record.sections !== "object" ||
+    Array.isArray(record.sections)
+  ) {
+    throw new Error("Landscape document has no sections")
+  }
+
+  return record as LandscapeDocument
+}
+
+/**
+ * Returns true if the value has the shape of a {@link PlacedObjectRecord},
+ * e.g. to skip malformed records of a document edited by hand.
+ */
+export function isPlacedObjectRecord(
+  value: unknown,
+): value is PlacedObjectRecord {
+  if (value === null || typeof value !== "object") {
+    return false
+  }
+  const record = value as {[key: string]: unknown}
+  return (
+    typeof record.id === "string" &&
+    record.id.length > 0 &&
+    typeof record.prefabIndex === "number" &&
+    typeof record.prefabName === "string" &&
+    isVec3Record(record.position) &&
+    isQuatRecord(record.rotation) &&
+    isVec3Record(record.scale) &&
+    (record.parentId === null || typeof record.parentId === "string")
+  )
+}
+
+/**
+ * Parses a JSON string into a landscape document at the current version.
+ */
+export function parseLandscapeDocument(json: string): LandscapeDocument {
+  return migrateLandscapeDocument(JSON.parse(json))
+}
+
+export function vec3ToRecord(value: vec3): Vec3Record {
+  return [value.x, value.y, value.z]
+}
+
+export function isVec3Record(value: unknown): value is Vec3Record {
+  return isNumberArray(value, 3)
+}
+
+export function recordToVec3(record: Vec3Record): vec3 {
+  return new vec3(record[0], record[1], record[2])
+}
+
+export function quatToRecord(value: quat): QuatRecord {
+  return [value.w, value.x, value.y, value.z]
+}
+
+export function isQuatRecord(value: unknown): value is QuatRecord {
+  return isNumberArray(value, 4)
+}
+
+export function recordToQuat(record: QuatRecord): quat {
+  return new quat(record[0], record[1], record[2], record[3])
+}
+
+function isNumberArray(value: unknown, length: number): boolean {
+  return (
+    Array.isArray(value) &&
+    value.length === length &&
+    value.every((component) => typeof component === "number")
+  )
+}
@@ -0,0 +1,224 @@
+import {Singleton} from "SpectaclesInteractionKit/Decorators/Singleton"
+import Event, {PublicApi} from "SpectaclesInteractionKit/Utils/Event"
+import {PrefabPool} from "./PrefabPool"
+
+/**
+ * An object the user has placed in the landscape.
+ */
+export type PlacedObject = {
+  id: string
+  prefab: ObjectPrefab
+  sceneObject: SceneObject
+}
+
+export type ObjectReplacedEventArg = {
+  previous: PlacedObject
+  placedObject: PlacedObject
+}
+
+/**
+ * Tracks every object placed in the landscape. Other landscape systems
+ * (saving, undo, selection...) use this as the single source of truth for
+ * what is in the scene.
+ */
+@Singleton
+export class LandscapeObjectRegistry {
+  public static getInstance: () => LandscapeObjectRegistry
+
+  private objects: Map<string, PlacedObject> = new Map()
+  private nextId = 1
+  private idPrefix = ""
+
+  private onObjectAddedEvent = new Event<PlacedObject>()
+  /**
+   * Called whenever an object is added to the landscape
+   */
+  onObjectAdded: PublicApi<PlacedObject> = this.onObjectAddedEvent.publicApi()
+
+  private onObjectRemovedEvent = new Event<PlacedObject>()
+  /**
+   * Called whenever an object is removed from the landscape
+   */
+  onObjectRemoved: PublicApi<PlacedObject> =
+    this.onObjectRemovedEvent.publicApi()
+
+  private onObjectReplacedEvent = new Event<ObjectReplacedEventArg>()
+  /**
+   * Called whenever the SceneObject of a placed object is swapped for another
+   * one under the same id
+   */
+  onObjectReplaced: PublicApi<ObjectReplacedEventArg> =
+    this.onObjectReplacedEvent.publicApi()
+
+  private onClearedEvent = new Event<void>()
+  /**
+   * Called after the whole landscape has been cleared, e.g. before loading a save
+   */
+  onCleared: PublicApi<void> = this.onClearedEvent.publicApi()
+
+  /**
+   * Registers a SceneObject as placed in the landscape.
+   *
+   * @param sceneObject - the placed SceneObject.
+   * @param prefab - the prefab it was instantiated from.
+   * @param id - optional id to reuse, e.g. when loading a saved landscape.
+   * @returns the registered object.
+   */
+  add(
+    sceneObject: SceneObject,
+    prefab: ObjectPrefab,
+    id?: string,
+  ): PlacedObject {
+    const existing = this.getBySceneObject(sceneObject)
+    if (existing !== null) {
+      return existing
+    }
+
+    const objectId = id ?? this.createId()
+    if (this.objects.has(objectId)) {
+      throw new Error(`Landscape object id ${objectId} is already registered`)
+    }
+    this.reserveId(objectId)
+
+    const placedObject: PlacedObject = {
+      id: objectId,
+      prefab: prefab,
+      sceneObject: sceneObject,
+    }
+    this.objects.set(objectId, placedObject)
+    this.onObjectAddedEvent.invoke(placedObject)
+    return placedObject
+  }
+
+  /**
+   * Removes an object from the registry without destroying its SceneObject.
+   */
+  remove(id: string): PlacedObject | null {
+    const placedObject = this.objects.get(id)
+    if (placedObject === undefined) {
+      return null
+    }
+    this.objects.delete(id)
+    this.onObjectRemovedEvent.invoke(placedObject)
+    return placedObject
+  }
+
+  /**
+   * Swaps the SceneObject of a placed object for another one under the same
+   * id, e.g. to show another prefab variant, without removing and adding the
+   * object again. The previous SceneObject is left as it is.
+   *
+   * @returns the object after the swap, or null if the id is unknown.
+   */
+  replace(
+    id: string,
+    sceneObject: SceneObject,
+    prefab: ObjectPrefab,
+  ): PlacedObject | null {
+    const previous = this.objects.get(id)
+    if (previous === undefined) {
+      return null
+    }
+
+    const placedObject: PlacedObject = {
+      id: id,
+      prefab: prefab,
+      sceneObject: sceneObject,
+    }
+    this.objects.set(id, placedObject)
+    this.onObjectReplacedEvent.invoke({
+      previous: previous,
+      placedObject: placedObject,
+    })
+    return placedObject
+  }
+
+  /**
+   * Removes every object from the registry and returns their SceneObjects to
+   * the {@link PrefabPool}.
+   */
+  clear(): void {
+    for (const placedObject of this.getAll()) {
+      this.remove(placedObject.id)
+      PrefabPool.getInstance().release(
+        placedObject.prefab,
+        placedObject.sceneObject,
+      )
+    }
+    this.onClearedEvent.invoke()
+  }
+
+  /**
+   * Makes generated ids start with a prefix, e.g. the peer id in a shared
+   * session so objects placed by different users never share an id.
+   */
+  setIdPrefix(prefix: string): void {
+    this.idPrefix = prefix.length > 0 ? `${prefix}_` : ""
+  }
+
+  getById(id: string): PlacedObject | null {
+    return this.objects.get(id) ?? null
+  }
+
+  getBySceneObject(sceneObject: SceneObject): PlacedObject | null {
+    for (const placedObject of this.objects.values()) {
+      if (placedObject.sceneObject === sceneObject) {
+        return placedObject
+      }
+    }
+    return null
+  }
+
+  /**
+   * Returns the placed object the SceneObject belongs to, i.e. the placed
+   * object that is the SceneObject itself or one of its ancestors.
+   */
+  findContaining(sceneObject: SceneObject): PlacedObject | null {
+    let current: SceneObject | null = sceneObject
+    while (current !== null) {
+      const placedObject = this.getBySceneObject(current)
+      if (placedObject !== null) {
+        return placedObject
+      }
+      current = current.getParent()
+    }
+    return null
+  }
+
+  /**
+   * Returns every placed object whose SceneObject is still alive. Objects
+   * destroyed elsewhere are pruned from the registry.
+   */
+  getAll(): PlacedObject[] {
+    const result: PlacedObject[] = []
+    for (const placedObject of Array.from(this.objects.values())) {
+      if (isNull(placedObject.sceneObject)) {
+        this.remove(placedObject.id)
+        continue
+      }
+      result.push(placedObject)
+    }
+    return result
+  }
+
+  get count(): number {
+    return this.getAll().length
+  }
+
+  private createId(): string {
+    let id = `obj_${this.idPrefix}${this.nextId}`
+    while (this.objects.has(id)) {
+      this.nextId++
+      id = `obj_${this.idPrefix}${this.nextId}`
+    }
+    return id
+  }
+
+  // Keep generated ids from colliding with ids restored from a save
+  private reserveId(id: string): void {
+    const match = /^obj_(?:.+_)?(\d+)$/.exec(id)
+    if (match !== null) {
+      this.nextId = Math.max(this.nextId, parseInt(match[1]) + 1)
+    }
+  }
+}
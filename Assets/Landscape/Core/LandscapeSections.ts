@@ -0,0 +1,89 @@
+import {Singleton} from "SpectaclesInteractionKit/Decorators/Singleton"
+import {unsubscribe} from "SpectaclesInteractionKit/Utils/Event"
+import NativeLogger from "SpectaclesInteractionKit/Utils/NativeLogger"
+
+const TAG = "LandscapeSections"
+
+/**
+ * State of a landscape subsystem that is saved and loaded together with the
+ * object layout, e.g. the terrain.
+ */
+export interface LandscapeSection {
+  /**
+   * Key the section is stored under. Must be unique and stable across
+   * versions.
+   */
+  readonly name: string
+
+  /**
+   * @returns JSON-serializable state of the section.
+   */
+  save(): unknown
+
+  /**
+   * Restores the section. The data comes from a document that may have been
+   * edited by hand, so check its shape before using it.
+   *
+   * @param data - state returned by {@link save}, or undefined if the document has no state for this section and it should reset to its defaults.
+   */
+  load(data: unknown): void
+}
+
+/**
+ * Returns true if the data is a JSON object, e.g. to check section data in
+ * {@link LandscapeSection.load}.
+ */
+export function isSectionObject(
+  data: unknown,
+): data is {[key: string]: unknown} {
+  return data !== null && typeof data === "object" && !Array.isArray(data)
+}
+
+/**
+ * Keeps track of the sections that are saved in the landscape document.
+ */
+@Singleton
+export class LandscapeSections {
+  public static getInstance: () => LandscapeSections
+
+  private sections: Map<string, LandscapeSection> = new Map()
+
+  // Native Logging
+  private log = new NativeLogger(TAG)
+
+  /**
+   * Adds a section to every document saved from now on.
+   *
+   * @returns a function that removes the section again.
+   */
+  register(section: LandscapeSection): unsubscribe {
+    if (this.sections.has(section.name)) {
+      this.log.w(`Replacing landscape section ${section.name}`)
+    }
+    this.sections.set(section.name, section)
+    return () => {
+      if (this.sections.get(section.name) === section) {
+        this.sections.delete(section.name)
+      }
+    }
+  }
+
+  saveAll(): {[name: string]: unknown} {
+    const data: {[name: string]: unknown} = {}
+    this.sections.forEach((section, name) => {
+      data[name] = section.save()
+    })
+    return data
+  }
+
+  loadAll(data: {[name: string]: unknown}): void {
+    this.sections.forEach((section, name) => {
+      try {
+        section.load(data[name])
+      } catch (error) {
+        this.log.e(`Failed to load landscape section ${name}: ${error}`)
+        section.load(undefined)
+      }
+    })
+  }
+}
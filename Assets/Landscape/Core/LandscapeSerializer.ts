@@ -0,0 +1,129 @@
+import NativeLogger from "SpectaclesInteractionKit/Utils/NativeLogger"
+import {
+  isPlacedObjectRecord,
+  LANDSCAPE_DOCUMENT_VERSION,
+  LandscapeDocument,
+  PlacedObjectRecord,
+  quatToRecord,
+  recordToQuat,
+  recordToVec3,
+  vec3ToRecord,
+} from "./LandscapeDocument"
+import {LandscapeObjectRegistry, PlacedObject} from "./LandscapeObjectRegistry"
+import {LandscapeSections} from "./LandscapeSections"
+import {PrefabCatalog} from "./PrefabCatalog"
+import {PrefabPool} from "./PrefabPool"
+
+const TAG = "LandscapeSerializer"
+
+/**
+ * Converts between the live landscape held by {@link LandscapeObjectRegistry}
+ * and a {@link LandscapeDocument}.
+ */
+export class LandscapeSerializer {
+  private registry = LandscapeObjectRegistry.getInstance()
+  private catalog = PrefabCatalog.getInstance()
+  private pool = PrefabPool.getInstance()
+  private sections = LandscapeSections.getInstance()
+
+  private log = new NativeLogger(TAG)
+
+  /**
+   * Captures every placed object and every registered section into a new
+   * document.
+   */
+  serialize(): LandscapeDocument {
+    const placedObjects = this.registry.getAll()
+    return {
+      version: LANDSCAPE_DOCUMENT_VERSION,
+      savedAt: Date.now(),
+      objects: placedObjects.map((placedObject) =>
+        this.serializeObject(placedObject),
+      ),
+      sections: this.sections.saveAll(),
+    }
+  }
+
+  /**
+   * Rebuilds the landscape described by the document. Objects already in the
+   * registry are left untouched; call {@link LandscapeObjectRegistry.clear}
+   * first to replace the scene. Malformed records and records whose id is
+   * already taken are skipped with a warning.
+   *
+   * @param document - a document at the current schema version.
+   * @returns the placed objects created from the document.
+   */
+  deserialize(document: LandscapeDocument): PlacedObject[] {
+    // Sections first, so e.g. the terrain is in place before objects are put on it
+    this.sections.loadAll(document.sections)
+
+    const created = new Map<string, PlacedObject>()
+    // Records that passed the checks, by id
+    const records = new Map<string, PlacedObjectRecord>()
+
+    for (const record of document.objects) {
+      if (!isPlacedObjectRecord(record)) {
+        this.log.w("Skipping malformed object record")
+        continue
+      }
+      if (records.has(record.id) || this.registry.getById(record.id) !== null) {
+        this.log.w(`Skipping ${record.id}: id is already in use`)
+        continue
+      }
+      records.set(record.id, record)
+
+      const prefab = this.catalog.resolve(record.prefabName, record.prefabIndex)
+      if (prefab === null) {
+        this.log.w(
+          `Skipping ${record.id}: unknown prefab ${record.prefabName} (${record.prefabIndex})`,
+        )
+        continue
+      }
+
+      const sceneObject = this.pool.acquire(prefab, null)
+      this.applyTransform(sceneObject.getTransform(), record)
+      created.set(record.id, this.registry.add(sceneObject, prefab, record.id))
+    }
+
+    // Parent after every object exists so records can be in any order
+    for (const record of records.values()) {
+      const placedObject = created.get(record.id)
+      if (placedObject === undefined || record.parentId === null) {
+        continue
+      }
+
+      const parent =
+        created.get(record.parentId) ?? this.registry.getById(record.parentId)
+      if (parent !== undefined && parent !== null) {
+        placedObject.sceneObject.setParentPreserveWorldTransform(
+          parent.sceneObject,
+        )
+      }
+    }
+
+    return Array.from(created.values())
+  }
+
+  private serializeObject(placedObject: PlacedObject): PlacedObjectRecord {
+    const transform = placedObject.sceneObject.getTransform()
+    const parent = placedObject.sceneObject.getParent()
+    const parentObject =
+      parent !== null ? this.registry.getBySceneObject(parent) : null
+
+    return {
+      id: placedObject.id,
+      prefabIndex: this.catalog.indexOf(placedObject.prefab),
+      prefabName: placedObject.prefab.name,
+      position: vec3ToRecord(transform.getWorldPosition()),
+      rotation: quatToRecord(transform.getWorldRotation()),
+      scale: vec3ToRecord(transform.getWorldScale()),
+      parentId: parentObject !== null ? parentObject.id : null,
+    }
+  }
+
+  private applyTransform(transform: Transform, record: PlacedObjectRecord) {
+    transform.setWorldPosition(recordToVec3(record.position))
+    transform.setWorldRotation(recordToQuat(record.rotation))
+    transform.setWorldScale(recordToVec3(record.scale))
+  }
+}
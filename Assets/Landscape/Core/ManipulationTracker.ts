@@ -0,0 +1,258 @@
+import {InteractableManipulation} from "SpectaclesInteractionKit/Components/Interaction/InteractableManipulation/InteractableManipulation"
+import {Singleton} from "SpectaclesInteractionKit/Decorators/Singleton"
+import Event, {
+  PublicApi,
+  unsubscribe,
+} from "SpectaclesInteractionKit/Utils/Event"
+import {LandscapeObjectRegistry, PlacedObject} from "./LandscapeObjectRegistry"
+import {
+  applyTransform,
+  captureTransform,
+  TransformSnapshot,
+} from "./TransformSnapshot"
+
+/**
+ * Order in which placement adjusters run on release. Lower values run first
+ * and later adjusters receive the pose produced by earlier ones.
+ */
+export enum PlacementPriority {
+  Snapping = 100,
+  Dropping = 150,
+  Rules = 200,
+}
+
+/**
+ * Modifies the pose of a placed object when the user lets go of it.
+ */
+export interface PlacementAdjuster {
+  readonly priority: number
+
+  /**
+   * @param placedObject - the object being placed.
+   * @param pose - the pose produced by the previous adjusters.
+   * @returns the adjusted pose.
+   */
+  adjust(placedObject: PlacedObject, pose: TransformSnapshot): TransformSnapshot
+}
+
+export type ManipulationEventArg = {
+  placedObject: PlacedObject
+  manipulation: InteractableManipulation
+  startPose: TransformSnapshot
+  /**
+   * True if the object was registered while already being manipulated, e.g.
+   * when it was dragged off a spawn pad. The start pose is then the pose at
+   * registration rather than the pose at grab.
+   */
+  joinedMidway: boolean
+}
+
+export type ManipulationUpdateEventArg = ManipulationEventArg & {
+  currentPose: TransformSnapshot
+}
+
+export type ManipulationEndEventArg = ManipulationEventArg & {
+  endPose: TransformSnapshot
+}
+
+type ActiveManipulation = {
+  startPose: TransformSnapshot
+  joinedMidway: boolean
+}
+
+/**
+ * Listens to the InteractableManipulation of every placed object and turns it
+ * into landscape level manipulation events. On release the registered
+ * {@link PlacementAdjuster}s are applied before the end event is sent, so
+ * listeners always see the final pose.
+ */
+@Singleton
+export class ManipulationTracker {
+  public static getInstance: () => ManipulationTracker
+
+  private registry = LandscapeObjectRegistry.getInstance()
+
+  private adjusters: PlacementAdjuster[] = []
+  private active: Map<string, ActiveManipulation> = new Map()
+
+  // Keep track of "Unsubscribe" functions per placed object, to ensure proper cleanup on removal
+  private unsubscribeBags: Map<string, unsubscribe[]> = new Map()
+
+  private onManipulationStartedEvent = new Event<ManipulationEventArg>()
+  /**
+   * Called when the user grabs a placed object
+   */
+  onManipulationStarted: PublicApi<ManipulationEventArg> =
+    this.onManipulationStartedEvent.publicApi()
+
+  private onManipulationUpdatedEvent = new Event<ManipulationUpdateEventArg>()
+  /**
+   * Called every frame a placed object is being manipulated
+   */
+  onManipulationUpdated: PublicApi<ManipulationUpdateEventArg> =
+    this.onManipulationUpdatedEvent.publicApi()
+
+  private onManipulationEndedEvent = new Event<ManipulationEndEventArg>()
+  /**
+   * Called after a placed object has been released and adjusted
+   */
+  onManipulationEnded: PublicApi<ManipulationEndEventArg> =
+    this.onManipulationEndedEvent.publicApi()
+
+  constructor() {
+    this.registry.getAll().forEach((placedObject) => this.track(placedObject))
+    this.registry.onObjectAdded.add((placedObject) => this.track(placedObject))
+    this.registry.onObjectRemoved.add((placedObject) =>
+      this.untrack(placedObject),
+    )
+    this.registry.onObjectReplaced.add((event) => {
+      this.untrack(event.previous)
+      this.track(event.placedObject)
+    })
+  }
+
+  /**
+   * Adds an adjuster that runs whenever a placed object is released.
+   *
+   * @returns a function that removes the adjuster again.
+   */
+  addAdjuster(adjuster: PlacementAdjuster): unsubscribe {
+    this.adjusters.push(adjuster)
+    this.adjusters.sort((a, b) => a.priority - b.priority)
+    return () => {
+      this.adjusters = this.adjusters.filter((other) => other !== adjuster)
+    }
+  }
+
+  /**
+   * Runs every adjuster on a pose without applying it, e.g. to preview where
+   * an object will land.
+   *
+   * @param beforePriority - only run the adjusters with a lower priority, e.g. to see the pose a later adjuster would receive.
+   */
+  resolvePose(
+    placedObject: PlacedObject,
+    pose: TransformSnapshot,
+    beforePriority: number = Infinity,
+  ): TransformSnapshot {
+    return this.adjusters
+      .filter((adjuster) => adjuster.priority < beforePriority)
+      .reduce(
+        (current, adjuster) => adjuster.adjust(placedObject, current),
+        pose,
+      )
+  }
+
+  /**
+   * Returns true if the placed object is currently held by the user.
+   */
+  isManipulating(id: string): boolean {
+    return this.active.has(id)
+  }
+
+  /**
+   * Returns the pose a held object had when it was grabbed, or null if it is
+   * not held. Adjusters can use it to send an object back on release.
+   */
+  getStartPose(id: string): TransformSnapshot | null {
+    return this.active.get(id)?.startPose ?? null
+  }
+
+  /**
+   * Returns true if a held object was registered while already being
+   * manipulated, e.g. when it was dragged off a spawn pad. Its start pose is
+   * then not a spot it was ever placed at.
+   */
+  isJoinedMidway(id: string): boolean {
+    return this.active.get(id)?.joinedMidway ?? false
+  }
+
+  private track(placedObject: PlacedObject): void {
+    if (this.unsubscribeBags.has(placedObject.id)) {
+      return
+    }
+
+    const manipulation = placedObject.sceneObject.getComponent(
+      InteractableManipulation.getTypeName(),
+    )
+    if (isNull(manipulation)) {
+      return
+    }
+
+    this.unsubscribeBags.set(placedObject.id, [
+      manipulation.onManipulationStart.add(() => {
+        this.start(placedObject, manipulation, false)
+      }),
+      manipulation.onManipulationUpdate.add(() => {
+        this.update(placedObject, manipulation)
+      }),
+      manipulation.onManipulationEnd.add(() => {
+        this.end(placedObject, manipulation)
+      }),
+    ])
+  }
+
+  private untrack(placedObject: PlacedObject): void {
+    this.unsubscribeBags.get(placedObject.id)?.forEach((unsubscribe) => {
+      unsubscribe()
+    })
+    this.unsubscribeBags.delete(placedObject.id)
+    this.active.delete(placedObject.id)
+  }
+
+  private start(
+    placedObject: PlacedObject,
+    manipulation: InteractableManipulation,
+    joinedMidway: boolean,
+  ): ActiveManipulation {
+    const activeManipulation = {
+      startPose: captureTransform(placedObject.sceneObject.getTransform()),
+      joinedMidway: joinedMidway,
+    }
+    this.active.set(placedObject.id, activeManipulation)
+    this.onManipulationStartedEvent.invoke({
+      placedObject: placedObject,
+      manipulation: manipulation,
+      ...activeManipulation,
+    })
+    return activeManipulation
+  }
+
+  private update(
+    placedObject: PlacedObject,
+    manipulation: InteractableManipulation,
+  ): void {
+    const activeManipulation =
+      this.active.get(placedObject.id) ??
+      this.start(placedObject, manipulation, true)
+
+    this.onManipulationUpdatedEvent.invoke({
+      placedObject: placedObject,
+      manipulation: manipulation,
+      ...activeManipulation,
+      currentPose: captureTransform(placedObject.sceneObject.getTransform()),
+    })
+  }
+
+  private end(
+    placedObject: PlacedObject,
+    manipulation: InteractableManipulation,
+  ): void {
+    const activeManipulation =
+      this.active.get(placedObject.id) ??
+      this.start(placedObject, manipulation, true)
+
+    // Resolve while the object still counts as held, so adjusters can look up its start pose
+    const transform = placedObject.sceneObject.getTransform()
+    const endPose = this.resolvePose(placedObject, captureTransform(transform))
+    this.active.delete(placedObject.id)
+    applyTransform(transform, endPose)
+
+    this.onManipulationEndedEvent.invoke({
+      placedObject: placedObject,
+      manipulation: manipulation,
+      ...activeManipulation,
+      endPose: endPose,
+    })
+  }
+}
@@ -0,0 +1,156 @@
+import {Singleton} from "SpectaclesInteractionKit/Decorators/Singleton"
+
+export const DEFAULT_CATEGORY = "Uncategorized"
+
+/**
+ * Surface name of everything that is not a placed object, e.g. the terrain.
+ */
+export const GROUND_SURFACE = "Ground"
+
+/**
+ * Surface name of placed objects that do not declare one.
+ */
+export const DEFAULT_OBJECT_SURFACE = "Object"
+
+/**
+ * Describes how a prefab is presented and placed in the landscape.
+ */
+export type PrefabMetadata = {
+  displayName: string
+  category: string
+  /**
+   * Uniform scale applied when the prefab is spawned from the palette.
+   */
+  defaultScale: number
+  /**
+   * Names of the surfaces the prefab may be placed on, e.g. "Ground".
+   * An empty list allows every surface.
+   */
+  allowedSurfaces: string[]
+  /**
+   * Name of the surface this prefab forms for objects placed on top of it,
+   * e.g. "Water".
+   */
+  surfaceName: string
+  /**
+   * Names or categories of the prefabs this prefab may overlap. An empty
+   * list forbids every overlap.
+   */
+  canOverlap: string[]
+  /**
+   * Largest angle, in degrees, the prefab tilts away from upright to follow
+   * the surface it lands on. 0 keeps it upright.
+   */
+  maxTilt: number
+  thumbnail: Texture | null
+}
+
+type CatalogEntry = {
+  prefab: ObjectPrefab
+  metadata: PrefabMetadata
+}
+
+/**
+ * Keeps track of every prefab that can be placed in the landscape so saved
+ * objects can be resolved back to a prefab by name or index, and so tools
+ * can look up how a prefab should be presented and placed.
+ */
+@Singleton
+export class PrefabCatalog {
+  public static getInstance: () => PrefabCatalog
+
+  private entries: CatalogEntry[] = []
+
+  /**
+   * Registers a prefab. Registering a known prefab again merges the given
+   * metadata into what is already known about it.
+   *
+   * @param prefab - the prefab to register.
+   * @param metadata - optional metadata overriding the defaults.
+   * @returns the catalog index of the prefab.
+   */
+  register(prefab: ObjectPrefab, metadata?: Partial<PrefabMetadata>): number {
+    const index = this.indexOf(prefab)
+    if (index !== -1) {
+      if (metadata !== undefined) {
+        Object.assign(this.entries[index].metadata, metadata)
+      }
+      return index
+    }
+
+    this.entries.push({
+      prefab: prefab,
+      metadata: {
+        displayName: prefab.name,
+        category: DEFAULT_CATEGORY,
+        defaultScale: 1,
+        allowedSurfaces: [],
+        surfaceName: DEFAULT_OBJECT_SURFACE,
+        canOverlap: [],
+        maxTilt: 0,
+        thumbnail: null,
+        ...metadata,
+      },
+    })
+    return this.entries.length - 1
+  }
+
+  indexOf(prefab: ObjectPrefab): number {
+    for (let i = 0; i < this.entries.length; i++) {
+      if (this.entries[i].prefab === prefab) {
+        return i
+      }
+    }
+    return -1
+  }
+
+  getByIndex(index: number): ObjectPrefab | null {
+    return this.entries[index]?.prefab ?? null
+  }
+
+  findByName(name: string): ObjectPrefab | null {
+    for (const entry of this.entries) {
+      if (entry.prefab.name === name) {
+        return entry.prefab
+      }
+    }
+    return null
+  }
+
+  /**
+   * Resolves a prefab by name first, falling back to its index.
+   */
+  resolve(name: string, index: number): ObjectPrefab | null {
+    return this.findByName(name) ?? this.getByIndex(index)
+  }
+
+  /**
+   * Returns the metadata of a prefab, registering it with defaults if it is
+   * not known yet.
+   */
+  getMetadata(prefab: ObjectPrefab): PrefabMetadata {
+    return this.entries[this.register(prefab)].metadata
+  }
+
+  /**
+   * Returns every prefab of a category, in registration order.
+   */
+  getByCategory(category: string): ObjectPrefab[] {
+    return this.entries
+      .filter((entry) => entry.metadata.category === category)
+      .map((entry) => entry.prefab)
+  }
+
+  /**
+   * Returns the names of every known category, in registration order.
+   */
+  getCategories(): string[] {
+    const categories: string[] = []
+    for (const entry of this.entries) {
+      if (categories.indexOf(entry.metadata.category) === -1) {
+        categories.push(entry.metadata.category)
+      }
+    }
+    return categories
+  }
+}
@@ -0,0 +1,141 @@
+import {Singleton} from "SpectaclesInteractionKit/Decorators/Singleton"
+
+const DEFAULT_MAX_POOLED_PER_PREFAB = 20
+
+type LocalPose = {
+  position: vec3
+  rotation: quat
+  scale: vec3
+}
+
+/**
+ * Recycles SceneObjects instantiated from prefabs so that removing and adding
+ * landscape objects does not instantiate and destroy them every time.
+ */
+@Singleton
+export class PrefabPool {
+  public static getInstance: () => PrefabPool
+
+  private pools: Map<ObjectPrefab, SceneObject[]> = new Map()
+  // Local pose of a fresh instance of each prefab, restored on reused instances
+  private defaultPoses: Map<ObjectPrefab, LocalPose> = new Map()
+  private poolRoot: SceneObject | null = null
+
+  /**
+   * Maximum number of idle instances kept per prefab. Instances released
+   * beyond this are destroyed.
+   */
+  maxPooledPerPrefab = DEFAULT_MAX_POOLED_PER_PREFAB
+
+  /**
+   * Returns an enabled instance of the prefab, reusing an idle one if
+   * available. Reused instances get the local position, rotation and scale
+   * of a fresh instance back.
+   *
+   * @param prefab - the prefab to instantiate.
+   * @param parent - the parent of the instance, or null for the scene root.
+   */
+  acquire(prefab: ObjectPrefab, parent: SceneObject | null): SceneObject {
+    const pool = this.pools.get(prefab)
+    while (pool !== undefined && pool.length > 0) {
+      const sceneObject = pool.pop()!
+      if (isNull(sceneObject)) {
+        continue
+      }
+      sceneObject.setParent(parent)
+      this.resetPose(prefab, sceneObject)
+      sceneObject.enabled = true
+      return sceneObject
+    }
+
+    const sceneObject = this.instantiate(prefab, parent)
+    sceneObject.enabled = true
+    return sceneObject
+  }
+
+  /**
+   * Returns an instance to the pool. The caller must not use it afterwards.
+   * Releasing an instance that is already idle does nothing.
+   *
+   * Only the pose is reset on reuse, so systems that change the components
+   * of an instance, e.g. disable its Interactable or swap its materials,
+   * must undo that before it is released. Landscape systems do so when the
+   * object is removed from the LandscapeObjectRegistry.
+   */
+  release(prefab: ObjectPrefab, sceneObject: SceneObject): void {
+    if (isNull(sceneObject)) {
+      return
+    }
+
+    let pool = this.pools.get(prefab)
+    if (pool === undefined) {
+      pool = []
+      this.pools.set(prefab, pool)
+    }
+    // Pooling an instance twice would hand it out twice
+    if (pool.indexOf(sceneObject) !== -1) {
+      return
+    }
+    if (pool.length >= this.maxPooledPerPrefab) {
+      sceneObject.destroy()
+      return
+    }
+
+    sceneObject.enabled = false
+    sceneObject.setParent(this.getPoolRoot())
+    pool.push(sceneObject)
+  }
+
+  /**
+   * Instantiates idle instances ahead of time, e.g. during loading.
+   */
+  prewarm(prefab: ObjectPrefab, count: number): void {
+    const pool = this.pools.get(prefab) ?? []
+    const missing = Math.min(count, this.maxPooledPerPrefab) - pool.length
+    for (let i = 0; i < missing; i++) {
+      this.release(prefab, this.instantiate(prefab, this.getPoolRoot()))
+    }
+  }
+
+  /**
+   * Returns the number of idle instances of a prefab.
+   */
+  getIdleCount(prefab: ObjectPrefab): number {
+    return this.pools.get(prefab)?.length ?? 0
+  }
+
+  private instantiate(
+    prefab: ObjectPrefab,
+    parent: SceneObject | null,
+  ): SceneObject {
+    const sceneObject = prefab.instantiate(parent)
+    if (!this.defaultPoses.has(prefab)) {
+      const transform = sceneObject.getTransform()
+      this.defaultPoses.set(prefab, {
+        position: transform.getLocalPosition(),
+        rotation: transform.getLocalRotation(),
+        scale: transform.getLocalScale(),
+      })
+    }
+    return sceneObject
+  }
+
+  private resetPose(prefab: ObjectPrefab, sceneObject: SceneObject): void {
+    const pose = this.defaultPoses.get(prefab)
+    if (pose === undefined) {
+      return
+    }
+    const transform = sceneObject.getTransform()
+    transform.setLocalPosition(pose.position)
+    transform.setLocalRotation(pose.rotation)
+    transform.setLocalScale(pose.scale)
+  }
+
+  private getPoolRoot(): SceneObject {
+    if (this.poolRoot === null || isNull(this.poolRoot)) {
+      this.poolRoot = global.scene.createSceneObject("LandscapePrefabPool")
+      this.poolRoot.enabled = false
+    }
+    return this.poolRoot
+  }
+}
@@ -0,0 +1,51 @@
+const POSITION_EPSILON = 0.001
+const SCALE_EPSILON = 0.0001
+const ROTATION_EPSILON = 0.0001
+
+/**
+ * World-space pose of a SceneObject at a moment in time.
+ */
+export type TransformSnapshot = {
+  position: vec3
+  rotation: quat
+  scale: vec3
+}
+
+export function captureTransform(transform: Transform): TransformSnapshot {
+  return {
+    position: transform.getWorldPosition(),
+    rotation: transform.getWorldRotation(),
+    scale: transform.getWorldScale(),
+  }
+}
+
+export function applyTransform(
+  transform: Transform,
+  snapshot: TransformSnapshot,
+): void {
+  transform.setWorldPosition(snapshot.position)
+  transform.setWorldRotation(snapshot.rotation)
+  transform.setWorldScale(snapshot.scale)
+}
+
+export function hasMoved(a: TransformSnapshot, b: TransformSnapshot): boolean {
+  return a.position.distance(b.position) > POSITION_EPSILON
+}
+
+export function hasRotated(
+  a: TransformSnapshot,
+  b: TransformSnapshot,
+): boolean {
+  return 1 - Math.abs(a.rotation.dot(b.rotation)) > ROTATION_EPSILON
+}
+
+export function hasScaled(a: TransformSnapshot, b: TransformSnapshot): boolean {
+  return a.scale.distance(b.scale) > SCALE_EPSILON
+}
+
+export function snapshotsEqual(
+  a: TransformSnapshot,
+  b: TransformSnapshot,
+): boolean {
+  return !hasMoved(a, b) && !hasRotated(a, b) && !hasScaled(a, b)
+}
@@ -0,0 +1,239 @@
+import animate, {CancelSet} from "SpectaclesInteractionKit/Utils/animate"
+import {withoutAlpha} from "SpectaclesInteractionKit/Utils/color"
+import Event, {
+  PublicApi,
+  unsubscribe,
+} from "SpectaclesInteractionKit/Utils/Event"
+import NativeLogger from "SpectaclesInteractionKit/Utils/NativeLogger"
+import {isSectionObject, LandscapeSections} from "../Core/LandscapeSections"
+import {
+  adjustColor,
+  AMBIENT_COLOR_STOPS,
+  DEFAULT_WEATHER,
+  findWeatherPreset,
+  getSunDirection,
+  HOURS_PER_DAY,
+  mixWeather,
+  sampleColorStops,
+  SUN_COLOR_STOPS,
+  WEATHER_PRESETS,
+  WeatherState,
+} from "./EnvironmentPresets"
+
+const TAG = "EnvironmentController"
+
+const SECTION_NAME = "environment"
+
+// Fraction of the sun's intensity left at night, so the landscape stays visible
+const NIGHT_INTENSITY = 0.05
+
+type EnvironmentRecord = {
+  timeOfDay: number
+  weather: string
+}
+
+export type EnvironmentChangedEventArg = {
+  /**
+   * Hours since midnight, from 0 to 24.
+   */
+  timeOfDay: number
+  /**
+   * Name of the weather preset, or of the one being transitioned to.
+   */
+  weather: string
+}
+
+/**
+ * Drives the lighting of the landscape from a time of day and a weather
+ * preset. The sun's direction follows the time of day, and the light colors
+ * come from the color stops in EnvironmentPresets, greyed out in HSL by the
+ * weather. Weather changes tween with animate. The time of day and weather
+ * are saved with the landscape as the "environment" section.
+ */
+@component
+export class EnvironmentController extends BaseScriptComponent {
+  @input
+  @hint("Directional light acting as the sun")
+  sunLight!: LightSource
+  @input
+  @allowUndefined
+  ambientLight: LightSource | undefined
+  @input
+  @hint("Intensity of the sun at noon on a clear day")
+  sunIntensity: number = 1
+  @input
+  @hint("Intensity of the ambient light")
+  ambientIntensity: number = 0.6
+  @input
+  @allowUndefined
+  @hint("Enabled while it rains, e.g. a particle effect")
+  rainEffect: SceneObject | undefined
+  @input
+  @widget(new SliderWidget(0, 24, 0.25))
+  @hint("Hours since midnight used until a landscape is loaded")
+  timeOfDay: number = 12
+  @input
+  @widget(
+    new ComboBoxWidget([
+      new ComboBoxItem("Clear", "Clear"),
+      new ComboBoxItem("Overcast", "Overcast"),
+      new ComboBoxItem("Rain", "Rain"),
+    ]),
+  )
+  weather: string = DEFAULT_WEATHER
+  @input
+  @hint("Duration of a weather transition, in seconds")
+  transitionDuration: number = 2
+
+  private sections = LandscapeSections.getInstance()
+
+  private initialTimeOfDay = 12
+  private initialWeather = DEFAULT_WEATHER
+  private weatherState!: WeatherState
+  private transition = new CancelSet()
+
+  private unsubscribeSection: unsubscribe | null = null
+
+  // Native Logging
+  private log = new NativeLogger(TAG)
+
+  private onEnvironmentChangedEvent = new Event<EnvironmentChangedEventArg>()
+  /**
+   * Called whenever the time of day or the weather changes
+   */
+  onEnvironmentChanged: PublicApi<EnvironmentChangedEventArg> =
+    this.onEnvironmentChangedEvent.publicApi()
+
+  onAwake(): void {
+    this.initialTimeOfDay = this.timeOfDay
+    this.initialWeather = this.weather
+    this.weatherState =
+      findWeatherPreset(this.weather) ?? findWeatherPreset(DEFAULT_WEATHER)!
+    this.apply()
+
+    this.unsubscribeSection = this.sections.register({
+      name: SECTION_NAME,
+      save: (): EnvironmentRecord => ({
+        timeOfDay: this.timeOfDay,
+        weather: this.weather,
+      }),
+      load: (data) => {
+        const record: {[key: string]: unknown} = isSectionObject(data)
+          ? data
+          : {}
+        this.setTimeOfDay(
+          typeof record.timeOfDay === "number"
+            ? record.timeOfDay
+            : this.initialTimeOfDay,
+        )
+        this.setWeather(
+          typeof record.weather === "string"
+            ? record.weather
+            : this.initialWeather,
+          false,
+        )
+      },
+    })
+    this.createEvent("OnDestroyEvent").bind(() => {
+      this.transition.cancel()
+      this.unsubscribeSection?.()
+      this.unsubscribeSection = null
+    })
+  }
+
+  /**
+   * Sets the time of day.
+   *
+   * @param hours - hours since midnight, from 0 to 24.
+   */
+  setTimeOfDay(hours: number): void {
+    this.timeOfDay = Math.min(HOURS_PER_DAY, Math.max(0, hours))
+    this.apply()
+    this.notify()
+  }
+
+  /**
+   * Changes the weather to one of the {@link WEATHER_PRESETS}.
+   *
+   * @param animated - tween from the current weather over {@link transitionDuration}.
+   * @returns false if there is no preset of that name.
+   */
+  setWeather(name: string, animated: boolean = true): boolean {
+    const preset = findWeatherPreset(name)
+    if (preset === null) {
+      this.log.w(`Unknown weather preset ${name}`)
+      return false
+    }
+
+    this.transition.cancel()
+    this.weather = preset.name
+    this.notify()
+
+    if (!animated || this.transitionDuration <= 0) {
+      this.weatherState = preset
+      this.apply()
+      return true
+    }
+
+    const from = this.weatherState
+    animate({
+      duration: this.transitionDuration,
+      easing: "ease-in-out-sine",
+      cancelSet: this.transition,
+      update: (t) => {
+        this.weatherState = mixWeather(from, preset, t)
+        this.apply()
+      },
+    })
+    return true
+  }
+
+  /**
+   * Switches to the next weather preset. Can be bound to a PinchButton.
+   */
+  cycleWeather(): void {
+    const index = WEATHER_PRESETS.findIndex(
+      (preset) => preset.name === this.weather,
+    )
+    this.setWeather(WEATHER_PRESETS[(index + 1) % WEATHER_PRESETS.length].name)
+  }
+
+  private apply(): void {
+    const percent = (this.timeOfDay / HOURS_PER_DAY) * 100
+    const weather = this.weatherState
+
+    const direction = getSunDirection(this.timeOfDay)
+    // Lights shine along their back vector, like cameras look along it
+    this.sunLight
+      .getTransform()
+      .setWorldRotation(quat.lookAt(direction.uniformScale(-1), vec3.up()))
+    this.sunLight.color = adjustColor(
+      withoutAlpha(sampleColorStops(SUN_COLOR_STOPS, percent)),
+      weather.saturation,
+      weather.lightness,
+    )
+    const daylight = Math.max(NIGHT_INTENSITY, -direction.y)
+    this.sunLight.intensity =
+      this.sunIntensity * daylight * weather.sunIntensity
+
+    if (this.ambientLight !== undefined) {
+      this.ambientLight.color = adjustColor(
+        withoutAlpha(sampleColorStops(AMBIENT_COLOR_STOPS, percent)),
+        weather.saturation,
+        weather.lightness,
+      )
+      this.ambientLight.intensity = this.ambientIntensity * weather.lightness
+    }
+
+    if (this.rainEffect !== undefined) {
+      this.rainEffect.enabled = weather.rain > 0.5
+    }
+  }
+
+  private notify(): void {
+    this.onEnvironmentChangedEvent.invoke({
+      timeOfDay: this.timeOfDay,
+      weather: this.weather,
+    })
+  }
+}
@@ -0,0 +1,146 @@
+import {mix} from "SpectaclesInteractionKit/Utils/animate"
+import {
+  ColorStop,
+  HSLToRGB,
+  parseColor,
+  RGBToHSL,
+} from "SpectaclesInteractionKit/Utils/color"
+
+export const HOURS_PER_DAY = 24
+
+/**
+ * How the weather changes the light of the current time of day.
+ */
+export type WeatherState = {
+  /**
+   * Multiplier applied to the sun's intensity.
+   */
+  sunIntensity: number
+  /**
+   * Multiplier applied to the saturation of the light colors, in HSL.
+   */
+  saturation: number
+  /**
+   * Multiplier applied to the lightness of the light colors, in HSL.
+   */
+  lightness: number
+  /**
+   * Amount of rain from 0 (dry) to 1 (downpour).
+   */
+  rain: number
+}
+
+export type WeatherPreset = WeatherState & {
+  name: string
+}
+
+export const DEFAULT_WEATHER = "Clear"
+
+export const WEATHER_PRESETS: WeatherPreset[] = [
+  {name: "Clear", sunIntensity: 1, saturation: 1, lightness: 1, rain: 0},
+  {
+    name: "Overcast",
+    sunIntensity: 0.45,
+    saturation: 0.35,
+    lightness: 0.9,
+    rain: 0,
+  },
+  {name: "Rain", sunIntensity: 0.3, saturation: 0.25, lightness: 0.75, rain: 1},
+]
+
+/**
+ * Color of the sun over the day. Percent is the time of day, 0 and 100
+ * being midnight.
+ */
+export const SUN_COLOR_STOPS: ColorStop[] = [
+  {color: parseColor("#1B2A4A"), percent: 0},
+  {color: parseColor("#FF8A4C"), percent: 25},
+  {color: parseColor("#FFF4E0"), percent: 35},
+  {color: parseColor("#FFFFFF"), percent: 50},
+  {color: parseColor("#FFF4E0"), percent: 65},
+  {color: parseColor("#FF7043"), percent: 75},
+  {color: parseColor("#1B2A4A"), percent: 100},
+]
+
+/**
+ * Color of the ambient light over the day, see {@link SUN_COLOR_STOPS}.
+ */
+export const AMBIENT_COLOR_STOPS: ColorStop[] = [
+  {color: parseColor("#0B1026"), percent: 0},
+  {color: parseColor("#6A5A8C"), percent: 25},
+  {color: parseColor("#BFD7EA"), percent: 50},
+  {color: parseColor("#8C6A7A"), percent: 75},
+  {color: parseColor("#0B1026"), percent: 100},
+]
+
+export function findWeatherPreset(name: string): WeatherPreset | null {
+  return WEATHER_PRESETS.find((preset) => preset.name === name) ?? null
+}
+
+export function mixWeather(
+  a: WeatherState,
+  b: WeatherState,
+  t: number,
+): WeatherState {
+  return {
+    sunIntensity: mix(a.sunIntensity, b.sunIntensity, t),
+    saturation: mix(a.saturation, b.saturation, t),
+    lightness: mix(a.lightness, b.lightness, t),
+    rain: mix(a.rain, b.rain, t),
+  }
+}
+
+/**
+ * Returns the color of a gradient at a percentage, blending between the two
+ * closest stops. Stops without a percent are spread evenly.
+ */
+export function sampleColorStops(stops: ColorStop[], percent: number): vec4 {
+  const positions = stops.map(
+    (stop, index) =>
+      stop.percent ??
+      (stops.length > 1 ? (index / (stops.length - 1)) * 100 : 0),
+  )
+  if (percent <= positions[0]) {
+    return stops[0].color
+  }
+  for (let i = 1; i < stops.length; i++) {
+    if (percent <= positions[i]) {
+      const span = positions[i] - positions[i - 1]
+      const t = span > 0 ? (percent - positions[i - 1]) / span : 1
+      return mix(stops[i - 1].color, stops[i].color, t)
+    }
+  }
+  return stops[stops.length - 1].color
+}
+
+/**
+ * Scales the saturation and lightness of a color in HSL, e.g. to grey out
+ * the light on an overcast day.
+ */
+export function adjustColor(
+  color: vec3,
+  saturation: number,
+  lightness: number,
+): vec3 {
+  const hsl = RGBToHSL(color)
+  // Greys have no hue, which RGBToHSL reports as NaN
+  if (isNaN(hsl.x)) {
+    hsl.x = 0
+  }
+  // Negative hues from RGBToHSL wrap around to the [0, 360] range HSLToRGB expects
+  hsl.x = ((hsl.x % 360) + 360) % 360
+  hsl.y = Math.min(1, Math.max(0, hsl.y * saturation))
+  hsl.z = Math.min(1, Math.max(0, hsl.z * lightness))
+  return HSLToRGB(hsl)
+}
+
+/**
+ * Returns the direction the sun shines in at a time of day. The sun rises in
+ * the east (+X) at 6:00, is highest at noon and sets in the west at 18:00,
+ * tilted towards the south (+Z) by its path.
+ */
+export function getSunDirection(hours: number): vec3 {
+  const angle = ((hours - 6) / HOURS_PER_DAY) * Math.PI * 2
+  const toSun = new vec3(Math.cos(angle), Math.sin(angle), 0.35)
+  return toSun.normalize().uniformScale(-1)
+}
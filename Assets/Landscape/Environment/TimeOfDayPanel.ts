@@ -0,0 +1,67 @@
+import {ContainerFrame} from "SpectaclesInteractionKit/Components/UI/ContainerFrame/ContainerFrame"
+import {Slider} from "SpectaclesInteractionKit/Components/UI/Slider/Slider"
+import {unsubscribe} from "SpectaclesInteractionKit/Utils/Event"
+import {EnvironmentController} from "./EnvironmentController"
+import {HOURS_PER_DAY} from "./EnvironmentPresets"
+
+/**
+ * Scrubs the time of day of an {@link EnvironmentController} with a Slider
+ * in a ContainerFrame, and shows the time and weather.
+ */
+@component
+export class TimeOfDayPanel extends BaseScriptComponent {
+  @input
+  controller!: EnvironmentController
+  @input
+  frame!: ContainerFrame
+  @input
+  @hint("Slider from 0 to 1, mapped to the 24 hours of the day")
+  slider!: Slider
+  @input
+  @allowUndefined
+  @hint("Text showing the time and weather")
+  label: Text | undefined
+
+  // Keep track of "Unsubscribe" functions when adding callbacks to slider and controller events, to ensure proper cleanup on destroy
+  private unsubscribeBag: unsubscribe[] = []
+
+  onAwake(): void {
+    this.createEvent("OnStartEvent").bind(() => {
+      this.refresh(this.controller.timeOfDay, this.controller.weather)
+      this.unsubscribeBag.push(
+        this.slider.onValueUpdate.add((value) =>
+          this.controller.setTimeOfDay(value * HOURS_PER_DAY),
+        ),
+        this.controller.onEnvironmentChanged.add((event) =>
+          this.refresh(event.timeOfDay, event.weather),
+        ),
+      )
+    })
+    this.createEvent("OnDestroyEvent").bind(() => {
+      this.unsubscribeBag.forEach((unsubscribe) => unsubscribe())
+      this.unsubscribeBag = []
+    })
+  }
+
+  /**
+   * Shows or hides the panel. Can be bound to a PinchButton.
+   */
+  toggle(): void {
+    const frameObject = this.frame.getSceneObject()
+    frameObject.enabled = !frameObject.enabled
+  }
+
+  private refresh(timeOfDay: number, weather: string): void {
+    // Only move the slider for outside changes, e.g. loading, so dragging it stays smooth
+    const value = timeOfDay / HOURS_PER_DAY
+    if (Math.abs(this.slider.currentValue - value) > 0.001) {
+      this.slider.currentValue = value
+    }
+
+    if (this.label !== undefined) {
+      const hours = Math.floor(timeOfDay) % HOURS_PER_DAY
+      const minutes = Math.floor((timeOfDay % 1) * 60)
+      this.label.text = `${hours}:${minutes.toString().padStart(2, "0")} ${weather}`
+    }
+  }
+}
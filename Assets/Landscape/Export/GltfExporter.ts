@@ -0,0 +1,94 @@
+import NativeLogger from "SpectaclesInteractionKit/Utils/NativeLogger"
+import {LandscapeObjectRegistry} from "../Core/LandscapeObjectRegistry"
+import {LandscapeSerializer} from "../Core/LandscapeSerializer"
+import {PrefabCatalog} from "../Core/PrefabCatalog"
+import {
+  exportLandscapeToGltf,
+  GltfDocument,
+  GltfImportResult,
+  importLandscapeFromGltf,
+} from "./LandscapeGltf"
+
+const TAG = "GltfExporter"
+
+/**
+ * Exports the live landscape as a glTF 2.0 JSON scene and imports such
+ * scenes back, mapping node prefab names to the prefabs of the
+ * {@link PrefabCatalog}. The conversion itself lives in LandscapeGltf and
+ * runs without a scene.
+ */
+@component
+export class GltfExporter extends BaseScriptComponent {
+  @input
+  @hint(
+    "Key the last export is stored under in persistent storage. Leave empty to not store exports.",
+  )
+  storageKey: string = "landscape.gltf"
+
+  private registry = LandscapeObjectRegistry.getInstance()
+  private catalog = PrefabCatalog.getInstance()
+  private serializer = new LandscapeSerializer()
+  private store = global.persistentStorageSystem.store
+
+  // Native Logging
+  private log = new NativeLogger(TAG)
+
+  /**
+   * Returns the current landscape as glTF JSON, and stores it under
+   * {@link storageKey}.
+   */
+  exportGltf(): string {
+    const gltf = exportLandscapeToGltf(this.serializer.serialize())
+    const json = JSON.stringify(gltf)
+    if (this.storageKey !== "") {
+      this.store.putString(this.storageKey, json)
+    }
+    this.log.d(`Exported ${gltf.nodes?.length ?? 0} nodes`)
+    return json
+  }
+
+  /**
+   * Replaces the current landscape with the one described by glTF JSON.
+   * Nodes whose prefab is not in the catalog are skipped.
+   *
+   * @returns true if the glTF could be read and was loaded.
+   */
+  importGltf(json: string): boolean {
+    let result: GltfImportResult
+    try {
+      result = importLandscapeFromGltf(
+        JSON.parse(json) as GltfDocument,
+        (name) => {
+          const prefab = this.catalog.findByName(name)
+          return prefab !== null ? this.catalog.indexOf(prefab) : null
+        },
+      )
+    } catch (error) {
+      this.log.e(`Failed to read glTF: ${error}`)
+      return false
+    }
+
+    if (result.skipped.length > 0) {
+      this.log.w(
+        `Skipped nodes with unknown prefabs: ${result.skipped.join(", ")}`,
+      )
+    }
+    this.registry.clear()
+    const placedObjects = this.serializer.deserialize(result.document)
+    this.log.d(`Imported ${placedObjects.length} objects`)
+    return true
+  }
+
+  /**
+   * Imports the export stored under {@link storageKey}, e.g. to check a
+   * round trip on device.
+   *
+   * @returns true if a stored export was found and loaded.
+   */
+  importStored(): boolean {
+    if (this.storageKey === "" || !this.store.has(this.storageKey)) {
+      return false
+    }
+    return this.importGltf(this.store.getString(this.storageKey))
+  }
+}
@@ -0,0 +1,550 @@
+import {
+  LANDSCAPE_DOCUMENT_VERSION,
+  LandscapeDocument,
+  PlacedObjectRecord,
+} from "../Core/LandscapeDocument"
+
+// This module only uses plain numbers and arrays, so exports can be produced and checked outside of Lens Studio, e.g. in CI
+
+const GLTF_VERSION = "2.0"
+
+const GENERATOR = "Landscape glTF exporter"
+
+// Landscapes are laid out in cm, glTF uses meters
+const CENTIMETERS_PER_METER = 100
+
+type Vector3 = [number, number, number]
+
+/**
+ * Quaternion in glTF (x, y, z, w) order.
+ */
+type Quaternion = [number, number, number, number]
+
+/**
+ * Landscape data kept on each node, so the importer can map it back to a
+ * prefab.
+ */
+export type GltfNodeExtras = {
+  prefabName?: string
+  prefabIndex?: number
+}
+
+export type GltfNode = {
+  /**
+   * Id of the placed object.
+   */
+  name?: string
+  children?: number[]
+  translation?: Vector3
+  rotation?: Quaternion
+  scale?: Vector3
+  /**
+   * Index into {@link GltfDocument.meshes}. Exported nodes refer to a mesh
+   * named after their prefab, which the importer falls back to for nodes
+   * without a prefab name in their extras.
+   */
+  mesh?: number
+  extras?: GltfNodeExtras
+}
+
+export type GltfScene = {
+  name?: string
+  nodes?: number[]
+  extras?: {
+    /**
+     * Everything of the landscape document that is not part of the node
+     * graph, e.g. terrain heights, so a round trip loses nothing.
+     */
+    landscape?: {
+      version: number
+      savedAt: number
+      sections: {[name: string]: unknown}
+    }
+  }
+}
+
+/**
+ * The subset of a glTF 2.0 JSON document used to describe landscapes: a
+ * node hierarchy with TRS transforms. Geometry is not exported; each node
+ * refers to a mesh named after the prefab it was placed from instead.
+ */
+export type GltfDocument = {
+  asset: {version: string; generator?: string}
+  scene?: number
+  scenes?: GltfScene[]
+  nodes?: GltfNode[]
+  meshes?: {name?: string}[]
+}
+
+export type GltfImportResult = {
+  document: LandscapeDocument
+  /**
+   * Names of the nodes that were dropped because their prefab is unknown.
+   */
+  skipped: string[]
+}
+
+/**
+ * Returns the catalog index of a prefab name, or null if no prefab of that
+ * name is known.
+ */
+export type PrefabNameResolver = (name: string) => number | null
+
+type Pose = {
+  translation: Vector3
+  rotation: Quaternion
+  scale: Vector3
+}
+
+/**
+ * Converts a landscape document into a glTF 2.0 scene. Placed objects become
+ * nodes named after their id, nested like the objects are parented, with
+ * their transform relative to the parent and their prefab in the extras and
+ * as the name of their mesh.
+ */
+export function exportLandscapeToGltf(
+  document: LandscapeDocument,
+): GltfDocument {
+  const indices = new Map<string, number>()
+  document.objects.forEach((record, index) => indices.set(record.id, index))
+  const worldPoses = document.objects.map(recordToPose)
+
+  const meshes: {name: string}[] = []
+  const meshIndices = new Map<string, number>()
+  const getMesh = (prefabName: string) => {
+    let mesh = meshIndices.get(prefabName)
+    if (mesh === undefined) {
+      mesh = meshes.length
+      meshes.push({name: prefabName})
+      meshIndices.set(prefabName, mesh)
+    }
+    return mesh
+  }
+
+  const nodes: GltfNode[] = document.objects.map((record, index) => {
+    const parentIndex =
+      record.parentId !== null ? indices.get(record.parentId) : undefined
+    const pose =
+      parentIndex !== undefined
+        ? relativePose(worldPoses[parentIndex], worldPoses[index])
+        : worldPoses[index]
+    return {
+      name: record.id,
+      translation: pose.translation,
+      rotation: pose.rotation,
+      scale: pose.scale,
+      mesh: getMesh(record.prefabName),
+      extras: {prefabName: record.prefabName, prefabIndex: record.prefabIndex},
+    }
+  })
+
+  const roots: number[] = []
+  document.objects.forEach((record, index) => {
+    const parentIndex =
+      record.parentId !== null ? indices.get(record.parentId) : undefined
+    if (parentIndex === undefined) {
+      roots.push(index)
+      return
+    }
+    const parent = nodes[parentIndex]
+    parent.children = [...(parent.children ?? []), index]
+  })
+
+  return {
+    asset: {version: GLTF_VERSION, generator: GENERATOR},
+    scene: 0,
+    scenes: [
+      {
+        name: "Landscape",
+        nodes: roots,
+        extras: {
+          landscape: {
+            version: document.version,
+            savedAt: document.savedAt,
+            sections: document.sections,
+          },
+        },
+      },
+    ],
+    nodes: nodes,
+    meshes: meshes,
+  }
+}
+
+/**
+ * Converts a glTF 2.0 scene back into a landscape document. Nodes refer to
+ * their prefab by the prefab name in their extras or, for files from other
+ * tools, by the name of their mesh. Nodes without a prefab only group their
+ * children; nodes with an unknown prefab are skipped along with their
+ * transform, and their children attach to the nearest kept ancestor.
+ *
+ * @throws if the glTF is not a valid 2.0 node hierarchy, see {@link validateGltf}.
+ */
+export function importLandscapeFromGltf(
+  gltf: GltfDocument,
+  resolvePrefab: PrefabNameResolver,
+): GltfImportResult {
+  const errors = validateGltf(gltf)
+  if (errors.length > 0) {
+    throw new Error(`Invalid glTF: ${errors.join("; ")}`)
+  }
+
+  const nodes = gltf.nodes ?? []
+  const scene = getDefaultScene(gltf)
+  const landscape = scene?.extras?.landscape
+  const objects: PlacedObjectRecord[] = []
+  const skipped: string[] = []
+  const usedIds = new Set<string>()
+
+  const visit = (
+    index: number,
+    parentPose: Pose | null,
+    parentId: string | null,
+  ) => {
+    const node = nodes[index]
+    const localPose = nodeToPose(node)
+    const pose =
+      parentPose !== null ? composePose(parentPose, localPose) : localPose
+    let childParentId = parentId
+
+    const prefabName = getPrefabName(gltf, node)
+    if (prefabName !== null) {
+      const prefabIndex = resolvePrefab(prefabName)
+      if (prefabIndex === null) {
+        skipped.push(node.name ?? `node ${index}`)
+      } else {
+        const id = createUniqueId(node.name ?? `node_${index}`, usedIds)
+        objects.push({
+          id: id,
+          prefabIndex: prefabIndex,
+          prefabName: prefabName,
+          position: pose.translation.map(
+            (value) => value * CENTIMETERS_PER_METER,
+          ) as Vector3,
+          rotation: [
+            pose.rotation[3],
+            pose.rotation[0],
+            pose.rotation[1],
+            pose.rotation[2],
+          ],
+          scale: pose.scale,
+          parentId: parentId,
+        })
+        childParentId = id
+      }
+    }
+
+    for (const child of node.children ?? []) {
+      visit(child, pose, childParentId)
+    }
+  }
+
+  for (const root of getRootNodes(gltf)) {
+    visit(root, null, null)
+  }
+
+  return {
+    document: {
+      version: LANDSCAPE_DOCUMENT_VERSION,
+      savedAt: landscape?.savedAt ?? 0,
+      objects: objects,
+      // Sections from another document version cannot be trusted to load
+      sections:
+        landscape?.version === LANDSCAPE_DOCUMENT_VERSION
+          ? landscape.sections
+          : {},
+    },
+    skipped: skipped,
+  }
+}
+
+/**
+ * Checks that a glTF document is a well-formed 2.0 node hierarchy: every
+ * node index is in range and each node has at most one parent, with no
+ * cycles. The document may come from any tool, so nothing is assumed about
+ * its shape.
+ *
+ * @returns a description of every problem found, empty if the glTF is valid.
+ */
+export function validateGltf(gltf: unknown): string[] {
+  if (!isObject(gltf)) {
+    return ["glTF is not an object"]
+  }
+
+  const errors: string[] = []
+  const version = isObject(gltf.asset) ? gltf.asset.version : undefined
+  if (version !== GLTF_VERSION) {
+    errors.push(`Unsupported glTF version: ${version}`)
+  }
+
+  const nodes = getList(gltf, "nodes", errors)
+  const scenes = getList(gltf, "scenes", errors)
+  const meshes = getList(gltf, "meshes", errors)
+  const isNodeIndex = (index: unknown): index is number =>
+    isIndex(index, nodes.length)
+
+  if (gltf.scene !== undefined && !isIndex(gltf.scene, scenes.length)) {
+    errors.push(`Scene ${gltf.scene} does not exist`)
+  }
+
+  const parents = new Map<number, number>()
+  nodes.forEach((node, index) => {
+    if (!isObject(node)) {
+      errors.push(`Node ${index} is not an object`)
+      return
+    }
+    const children = getList(node, "children", errors, `Node ${index}`)
+    for (const child of children) {
+      if (!isNodeIndex(child)) {
+        errors.push(`Node ${index} has invalid child ${child}`)
+      } else if (parents.has(child)) {
+        errors.push(`Node ${child} has more than one parent`)
+      } else {
+        parents.set(child, index)
+      }
+    }
+    if (node.name !== undefined && typeof node.name !== "string") {
+      errors.push(`Node ${index} has an invalid name`)
+    }
+    if (node.translation !== undefined && !isVector(node.translation, 3)) {
+      errors.push(`Node ${index} has an invalid translation`)
+    }
+    if (node.rotation !== undefined && !isVector(node.rotation, 4)) {
+      errors.push(`Node ${index} has an invalid rotation`)
+    }
+    if (node.scale !== undefined && !isVector(node.scale, 3)) {
+      errors.push(`Node ${index} has an invalid scale`)
+    }
+    if (node.mesh !== undefined && !isIndex(node.mesh, meshes.length)) {
+      errors.push(`Node ${index} has invalid mesh ${node.mesh}`)
+    }
+    if (
+      node.extras !== undefined &&
+      (!isObject(node.extras) ||
+        (node.extras.prefabName !== undefined &&
+          typeof node.extras.prefabName !== "string"))
+    ) {
+      errors.push(`Node ${index} has invalid extras`)
+    }
+  })
+
+  meshes.forEach((mesh, index) => {
+    if (
+      !isObject(mesh) ||
+      (mesh.name !== undefined && typeof mesh.name !== "string")
+    ) {
+      errors.push(`Mesh ${index} is invalid`)
+    }
+  })
+
+  // Following parents from any node must end at a root
+  nodes.forEach((_, index) => {
+    const seen = new Set<number>()
+    let current: number | undefined = index
+    while (current !== undefined) {
+      if (seen.has(current)) {
+        errors.push(`Node ${index} is part of a cycle`)
+        break
+      }
+      seen.add(current)
+      current = parents.get(current)
+    }
+  })
+
+  scenes.forEach((scene, sceneIndex) => {
+    if (!isObject(scene)) {
+      errors.push(`Scene ${sceneIndex} is not an object`)
+      return
+    }
+    const roots = getList(scene, "nodes", errors, `Scene ${sceneIndex}`)
+    for (const root of roots) {
+      if (!isNodeIndex(root)) {
+        errors.push(`Scene ${sceneIndex} has invalid node ${root}`)
+      } else if (parents.has(root)) {
+        errors.push(`Scene ${sceneIndex} root node ${root} has a parent`)
+      }
+    }
+    const landscape = isObject(scene.extras)
+      ? scene.extras.landscape
+      : undefined
+    if (
+      landscape !== undefined &&
+      (!isObject(landscape) ||
+        typeof landscape.version !== "number" ||
+        typeof landscape.savedAt !== "number" ||
+        !isObject(landscape.sections))
+    ) {
+      errors.push(`Scene ${sceneIndex} has invalid landscape extras`)
+    }
+  })
+
+  return errors
+}
+
+function getDefaultScene(gltf: GltfDocument): GltfScene | null {
+  return gltf.scenes?.[gltf.scene ?? 0] ?? null
+}
+
+// Without scenes, every node without a parent is a root
+function getRootNodes(gltf: GltfDocument): number[] {
+  const scene = getDefaultScene(gltf)
+  if (scene !== null) {
+    return scene.nodes ?? []
+  }
+
+  const nodes = gltf.nodes ?? []
+  const children = new Set<number>()
+  nodes.forEach((node) =>
+    node.children?.forEach((child) => children.add(child)),
+  )
+  return nodes.map((_, index) => index).filter((index) => !children.has(index))
+}
+
+function getPrefabName(gltf: GltfDocument, node: GltfNode): string | null {
+  if (node.extras?.prefabName !== undefined) {
+    return node.extras.prefabName
+  }
+  if (node.mesh !== undefined) {
+    return gltf.meshes?.[node.mesh]?.name ?? null
+  }
+  return null
+}
+
+function createUniqueId(name: string, usedIds: Set<string>): string {
+  let id = name
+  for (let suffix = 2; usedIds.has(id); suffix++) {
+    id = `${name}_${suffix}`
+  }
+  usedIds.add(id)
+  return id
+}
+
+function isObject(value: unknown): value is {[key: string]: unknown} {
+  return value !== null && typeof value === "object" && !Array.isArray(value)
+}
+
+// Returns the list under a key, reporting anything else than a list or nothing
+function getList(
+  owner: {[key: string]: unknown},
+  key: string,
+  errors: string[],
+  ownerName: string = "glTF",
+): unknown[] {
+  const value = owner[key]
+  if (value === undefined) {
+    return []
+  }
+  if (!Array.isArray(value)) {
+    errors.push(`${ownerName} has invalid ${key}`)
+    return []
+  }
+  return value
+}
+
+function isIndex(value: unknown, length: number): value is number {
+  return (
+    typeof value === "number" &&
+    Number.isInteger(value) &&
+    value >= 0 &&
+    value < length
+  )
+}
+
+function isVector(value: unknown, length: number): boolean {
+  return (
+    Array.isArray(value) &&
+    value.length === length &&
+    value.every((component) => typeof component === "number")
+  )
+}
+
+function recordToPose(record: PlacedObjectRecord): Pose {
+  return {
+    translation: record.position.map(
+      (value) => value / CENTIMETERS_PER_METER,
+    ) as Vector3,
+    rotation: [
+      record.rotation[1],
+      record.rotation[2],
+      record.rotation[3],
+      record.rotation[0],
+    ],
+    scale: [...record.scale],
+  }
+}
+
+function nodeToPose(node: GltfNode): Pose {
+  return {
+    translation: node.translation ?? [0, 0, 0],
+    rotation: node.rotation ?? [0, 0, 0, 1],
+    scale: node.scale ?? [1, 1, 1],
+  }
+}
+
+// Pose math below is exact for uniformly scaled parents, like placed objects are
+
+function composePose(parent: Pose, local: Pose): Pose {
+  const scaled = multiplyVector(parent.scale, local.translation)
+  return {
+    translation: addVector(
+      parent.translation,
+      rotateVector(parent.rotation, scaled),
+    ),
+    rotation: multiplyQuaternion(parent.rotation, local.rotation),
+    scale: multiplyVector(parent.scale, local.scale),
+  }
+}
+
+function relativePose(parent: Pose, world: Pose): Pose {
+  const inverseRotation = conjugate(parent.rotation)
+  const offset = world.translation.map(
+    (value, i) => value - parent.translation[i],
+  ) as Vector3
+  return {
+    translation: divideVector(
+      rotateVector(inverseRotation, offset),
+      parent.scale,
+    ),
+    rotation: multiplyQuaternion(inverseRotation, world.rotation),
+    scale: divideVector(world.scale, parent.scale),
+  }
+}
+
+function addVector(a: Vector3, b: Vector3): Vector3 {
+  return [a[0] + b[0], a[1] + b[1], a[2] + b[2]]
+}
+
+function multiplyVector(a: Vector3, b: Vector3): Vector3 {
+  return [a[0] * b[0], a[1] * b[1], a[2] * b[2]]
+}
+
+function divideVector(a: Vector3, b: Vector3): Vector3 {
+  return [
+    b[0] !== 0 ? a[0] / b[0] : 0,
+    b[1] !== 0 ? a[1] / b[1] : 0,
+    b[2] !== 0 ? a[2] / b[2] : 0,
+  ]
+}
+
+function conjugate(q: Quaternion): Quaternion {
+  return [-q[0], -q[1], -q[2], q[3]]
+}
+
+function multiplyQuaternion(a: Quaternion, b: Quaternion): Quaternion {
+  const [ax, ay, az, aw] = a
+  const [bx, by, bz, bw] = b
+  return [
+    aw * bx + ax * bw + ay * bz - az * by,
+    aw * by - ax * bz + ay * bw + az * bx,
+    aw * bz + ax * by - ay * bx + az * bw,
+    aw * bw - ax * bx - ay * by - az * bz,
+  ]
+}
+
+function rotateVector(q: Quaternion, v: Vector3): Vector3 {
+  const rotated = multiplyQuaternion(
+    multiplyQuaternion(q, [v[0], v[1], v[2], 0]),
+    conjugate(q),
+  )
+  return [rotated[0], rotated[1], rotated[2]]
+}
@@ -0,0 +1,201 @@
+import {expect, expectClose, SelfCheck} from "../Checks/SelfCheck"
+import {
+  LANDSCAPE_DOCUMENT_VERSION,
+  LandscapeDocument,
+} from "../Core/LandscapeDocument"
+import {
+  exportLandscapeToGltf,
+  GltfDocument,
+  importLandscapeFromGltf,
+  PrefabNameResolver,
+  validateGltf,
+} from "./LandscapeGltf"
+
+const PREFAB_INDICES: {[name: string]: number} = {Tree: 0, Rock: 1}
+
+const resolvePrefab: PrefabNameResolver = (name) => PREFAB_INDICES[name] ?? null
+
+// A tree turned a quarter around y with a rock parented to it, and a second tree
+function createDocument(): LandscapeDocument {
+  return {
+    version: LANDSCAPE_DOCUMENT_VERSION,
+    savedAt: 1000,
+    objects: [
+      {
+        id: "tree",
+        prefabIndex: 0,
+        prefabName: "Tree",
+        position: [100, 0, 50],
+        rotation: [Math.SQRT1_2, 0, Math.SQRT1_2, 0],
+        scale: [2, 2, 2],
+        parentId: null,
+      },
+      {
+        id: "rock",
+        prefabIndex: 1,
+        prefabName: "Rock",
+        position: [100, 20, -50],
+        rotation: [1, 0, 0, 0],
+        scale: [1, 1, 1],
+        parentId: "tree",
+      },
+      {
+        id: "tree2",
+        prefabIndex: 0,
+        prefabName: "Tree",
+        position: [-30, 0, 0],
+        rotation: [1, 0, 0, 0],
+        scale: [1, 1, 1],
+        parentId: null,
+      },
+    ],
+    sections: {terrain: {heights: [1, 2, 3]}},
+  }
+}
+
+// Goes through JSON like a file would
+function roundTrip(gltf: GltfDocument): GltfDocument {
+  return JSON.parse(JSON.stringify(gltf))
+}
+
+function expectInvalid(gltf: unknown, message: string): void {
+  const errors = validateGltf(gltf)
+  expect(errors.length > 0, `${message} should be reported`)
+}
+
+/**
+ * Checks of the glTF conversion, which runs on plain data.
+ */
+export const GLTF_CHECKS: SelfCheck[] = [
+  {
+    name: "glTF round trip keeps objects, hierarchy and sections",
+    run: () => {
+      const document = createDocument()
+      const gltf = roundTrip(exportLandscapeToGltf(document))
+      expect(validateGltf(gltf).length === 0, "export should be valid")
+
+      const result = importLandscapeFromGltf(gltf, resolvePrefab)
+      expect(result.skipped.length === 0, "no node should be skipped")
+      expect(
+        result.document.objects.length === document.objects.length,
+        "every object should come back",
+      )
+      document.objects.forEach((expected) => {
+        const actual = result.document.objects.find(
+          (record) => record.id === expected.id,
+        )
+        expect(actual !== undefined, `${expected.id} should come back`)
+        expect(
+          actual!.prefabName === expected.prefabName &&
+            actual!.prefabIndex === expected.prefabIndex,
+          `${expected.id} should keep its prefab`,
+        )
+        expect(
+          actual!.parentId === expected.parentId,
+          `${expected.id} should keep its parent`,
+        )
+        expectClose(
+          actual!.position,
+          expected.position,
+          `${expected.id} position`,
+        )
+        expectClose(
+          actual!.rotation,
+          expected.rotation,
+          `${expected.id} rotation`,
+        )
+        expectClose(actual!.scale, expected.scale, `${expected.id} scale`)
+      })
+      expect(
+        JSON.stringify(result.document.sections) ===
+          JSON.stringify(document.sections),
+        "sections should come back",
+      )
+    },
+  },
+  {
+    name: "glTF export names one mesh per prefab",
+    run: () => {
+      const gltf = exportLandscapeToGltf(createDocument())
+      const meshNames = (gltf.meshes ?? []).map((mesh) => mesh.name)
+      expect(
+        JSON.stringify(meshNames) === JSON.stringify(["Tree", "Rock"]),
+        `meshes should be Tree and Rock, got ${meshNames}`,
+      )
+      const nodeMeshes = (gltf.nodes ?? []).map((node) => node.mesh)
+      expect(
+        JSON.stringify(nodeMeshes) === JSON.stringify([0, 1, 0]),
+        `nodes should use their prefab's mesh, got ${nodeMeshes}`,
+      )
+    },
+  },
+  {
+    name: "glTF import falls back to mesh names and skips unknown prefabs",
+    run: () => {
+      const gltf: GltfDocument = {
+        asset: {version: "2.0"},
+        nodes: [
+          {name: "bush", mesh: 0, children: [1]},
+          {name: "rock", mesh: 1, translation: [1, 0, 0]},
+        ],
+        meshes: [{name: "Bush"}, {name: "Rock"}],
+      }
+      const result = importLandscapeFromGltf(gltf, resolvePrefab)
+      expect(
+        result.skipped.length === 1 && result.skipped[0] === "bush",
+        "the unknown bush should be skipped",
+      )
+      expect(
+        result.document.objects.length === 1 &&
+          result.document.objects[0].prefabName === "Rock" &&
+          result.document.objects[0].parentId === null,
+        "the rock should be kept as a root",
+      )
+      expectClose(
+        result.document.objects[0].position,
+        [100, 0, 0],
+        "rock position",
+      )
+    },
+  },
+  {
+    name: "glTF validation reports malformed documents without throwing",
+    run: () => {
+      expectInvalid(null, "a missing document")
+      expectInvalid({asset: {version: "1.0"}}, "an old version")
+      expectInvalid({asset: {version: "2.0"}, nodes: [null]}, "a null node")
+      expectInvalid({asset: {version: "2.0"}, nodes: {}}, "a node map")
+      expectInvalid(
+        {asset: {version: "2.0"}, nodes: [{children: 1}]},
+        "children that are not a list",
+      )
+      expectInvalid(
+        {asset: {version: "2.0"}, nodes: [{children: [1]}]},
+        "a child out of range",
+      )
+      expectInvalid(
+        {asset: {version: "2.0"}, nodes: [{children: [1]}, {children: [0]}]},
+        "a cycle",
+      )
+      expectInvalid(
+        {asset: {version: "2.0"}, nodes: [{mesh: 0}]},
+        "a missing mesh",
+      )
+      expectInvalid(
+        {asset: {version: "2.0"}, nodes: [{}], scenes: [{nodes: "0"}]},
+        "scene nodes that are not a list",
+      )
+
+      let threw = false
+      try {
+        importLandscapeFromGltf(
+          {asset: {version: "2.0"}, nodes: [{children: [0]}]},
+          resolvePrefab,
+        )
+      } catch (error) {
+        threw = true
+      }
+      expect(threw, "importing an invalid glTF should throw")
+    },
+  },
+]
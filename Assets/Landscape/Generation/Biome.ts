@@ -0,0 +1,93 @@
+/**
+ * A prefab that can appear in a biome.
+ */
+export type BiomeEntry = {
+  /**
+   * Name of the prefab, resolved through the PrefabCatalog.
+   */
+  prefabName: string
+  /**
+   * Relative probability of picking this prefab for a sampled point.
+   */
+  weight: number
+  /**
+   * Range of the random factor applied on top of the prefab's default scale.
+   */
+  minScale: number
+  maxScale: number
+  /**
+   * Radius kept clear around every instance, in cm. Entries with a
+   * clearance, e.g. bodies of water, are placed first and become exclusion
+   * zones for every other entry. 0 for regular entries.
+   */
+  clearanceRadius: number
+}
+
+/**
+ * Describes what a generated landscape is made of.
+ */
+export type Biome = {
+  name: string
+  /**
+   * Minimum distance between two generated objects, in cm.
+   */
+  spacing: number
+  /**
+   * Probability of keeping each sampled point, in [0, 1].
+   */
+  density: number
+  entries: BiomeEntry[]
+}
+
+/**
+ * Biome built from the prefabs shipped with the project.
+ */
+export const MEADOW_BIOME: Biome = {
+  name: "Meadow",
+  spacing: 12,
+  density: 0.8,
+  entries: [
+    {
+      prefabName: "Apple Tree Object",
+      weight: 2,
+      minScale: 0.8,
+      maxScale: 1.3,
+      clearanceRadius: 0,
+    },
+    {
+      prefabName: "Stone Object",
+      weight: 2,
+      minScale: 0.6,
+      maxScale: 1.4,
+      clearanceRadius: 0,
+    },
+    {
+      prefabName: "Flower Object",
+      weight: 5,
+      minScale: 0.8,
+      maxScale: 1.2,
+      clearanceRadius: 0,
+    },
+    {
+      prefabName: "FlowerBouquet Object",
+      weight: 3,
+      minScale: 0.8,
+      maxScale: 1.2,
+      clearanceRadius: 0,
+    },
+    {
+      prefabName: "Plane Object",
+      weight: 0.5,
+      minScale: 1,
+      maxScale: 1,
+      clearanceRadius: 0,
+    },
+    {
+      prefabName: "Water Object",
+      weight: 0.3,
+      minScale: 1,
+      maxScale: 1.5,
+      clearanceRadius: 25,
+    },
+  ],
+}
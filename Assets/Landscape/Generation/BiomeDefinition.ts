@@ -0,0 +1,55 @@
+import {PrefabCatalog} from "../Core/PrefabCatalog"
+import {Biome} from "./Biome"
+import {BiomePrefab} from "./BiomePrefab"
+
+/**
+ * A biome authored in the scene. Every {@link BiomePrefab} on a child
+ * SceneObject belongs to the biome.
+ */
+@component
+export class BiomeDefinition extends BaseScriptComponent {
+  @input
+  biomeName: string = "Meadow"
+  @input
+  @hint("Minimum distance between two generated objects, in cm")
+  spacing: number = 12
+  @input
+  @widget(new SliderWidget(0, 1, 0.05))
+  @hint("Probability of keeping each sampled point")
+  density: number = 0.8
+
+  private catalog = PrefabCatalog.getInstance()
+
+  onAwake(): void {
+    // Generated documents refer to prefabs by name, so make sure they resolve
+    this.getPrefabs().forEach((biomePrefab) =>
+      this.catalog.register(biomePrefab.prefab),
+    )
+  }
+
+  /**
+   * Returns the biome described by this component and its children.
+   */
+  getBiome(): Biome {
+    return {
+      name: this.biomeName,
+      spacing: this.spacing,
+      density: this.density,
+      entries: this.getPrefabs().map((biomePrefab) => biomePrefab.getEntry()),
+    }
+  }
+
+  private getPrefabs(): BiomePrefab[] {
+    const prefabs: BiomePrefab[] = []
+    const sceneObject = this.getSceneObject()
+    for (let i = 0; i < sceneObject.getChildrenCount(); i++) {
+      const biomePrefab = sceneObject
+        .getChild(i)
+        .getComponent(BiomePrefab.getTypeName())
+      if (!isNull(biomePrefab)) {
+        prefabs.push(biomePrefab)
+      }
+    }
+    return prefabs
+  }
+}
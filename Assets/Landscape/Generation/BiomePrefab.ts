@@ -0,0 +1,36 @@
+import {BiomeEntry} from "./Biome"
+
+/**
+ * Describes one prefab of a biome. Place it on a child of a
+ * {@link BiomeDefinition} to add the prefab to that biome.
+ */
+@component
+export class BiomePrefab extends BaseScriptComponent {
+  @input
+  prefab!: ObjectPrefab
+  @input
+  @hint("Relative probability of picking this prefab")
+  weight: number = 1
+  @input
+  minScale: number = 0.8
+  @input
+  maxScale: number = 1.2
+  @input
+  @hint(
+    "Radius kept clear around every instance, in cm, e.g. for bodies of water. 0 for regular prefabs.",
+  )
+  clearanceRadius: number = 0
+
+  /**
+   * Returns the biome entry described by this component.
+   */
+  getEntry(): BiomeEntry {
+    return {
+      prefabName: this.prefab.name,
+      weight: this.weight,
+      minScale: this.minScale,
+      maxScale: this.maxScale,
+      clearanceRadius: this.clearanceRadius,
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import {unsubscribe} from "SpectaclesInteractionKit/Utils/Event"
+import {ExclusionZone, ExclusionZoneRegistry} from "../Core/ExclusionZones"
+
+/**
+ * Keeps a circular area around this SceneObject free of generated content
+ * while the component is enabled.
+ */
+@component
+export class ExclusionArea extends BaseScriptComponent {
+  @input
+  @hint("Radius of the area on the XZ plane, in cm")
+  radius: number = 20
+
+  private zones = ExclusionZoneRegistry.getInstance()
+
+  private removeZone: unsubscribe | null = null
+
+  // Follows the SceneObject, so the area can be moved around at runtime
+  private zone: ExclusionZone = {
+    contains: (point) => {
+      const position = this.getTransform().getWorldPosition()
+      return point.distance(new vec2(position.x, position.z)) <= this.radius
+    },
+  }
+
+  onAwake(): void {
+    this.addZone()
+    this.createEvent("OnEnableEvent").bind(() => this.addZone())
+    this.createEvent("OnDisableEvent").bind(() => this.clearZone())
+    this.createEvent("OnDestroyEvent").bind(() => this.clearZone())
+  }
+
+  private addZone(): void {
+    if (this.removeZone !== null) {
+      return
+    }
+    this.removeZone = this.zones.add(this.zone)
+  }
+
+  private clearZone(): void {
+    this.removeZone?.()
+    this.removeZone = null
+  }
+}
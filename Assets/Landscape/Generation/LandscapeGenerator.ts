@@ -0,0 +1,161 @@
+import {CircleExclusionZone, ExclusionZone} from "../Core/ExclusionZones"
+import {
+  createEmptyLandscapeDocument,
+  LandscapeDocument,
+  PlacedObjectRecord,
+  quatToRecord,
+  vec3ToRecord,
+} from "../Core/LandscapeDocument"
+import {PrefabCatalog} from "../Core/PrefabCatalog"
+import {poissonDiskInRect} from "../Utils/PoissonDisk"
+import {createSeededRandom} from "../Utils/SeededRandom"
+import {Biome, BiomeEntry} from "./Biome"
+
+export type GenerationSettings = {
+  /**
+   * Seed of the random number generator. Rounded to an integer.
+   */
+  seed: number
+  /**
+   * Corners of the generated area on the XZ plane, in world cm.
+   */
+  boundsMin: vec2
+  boundsMax: vec2
+  /**
+   * World height objects are placed at.
+   */
+  groundHeight: number
+  randomYaw: boolean
+  /**
+   * Areas nothing is generated in, e.g. paths.
+   */
+  exclusionZones: ExclusionZone[]
+}
+
+type Sample = {
+  point: vec2
+  entry: BiomeEntry
+}
+
+/**
+ * Generates landscapes from a biome. The result is a
+ * {@link LandscapeDocument}, so a generated landscape is loaded, saved and
+ * undone exactly like one built by hand. The same seed, settings and biome
+ * always produce the same document.
+ */
+export class LandscapeGenerator {
+  private catalog = PrefabCatalog.getInstance()
+
+  generate(biome: Biome, settings: GenerationSettings): LandscapeDocument {
+    const rng = createSeededRandom(settings.seed)
+    const random = rng.randomRange(0, 1)
+
+    const samples: Sample[] = []
+    const points = poissonDiskInRect(
+      settings.boundsMin,
+      settings.boundsMax,
+      biome.spacing,
+      random,
+    )
+    for (const point of points) {
+      // Draw every number even for dropped points, so the density does not shift the rest of the sequence
+      const keep = random() < biome.density
+      const entry = this.pickEntry(biome.entries, random())
+      if (keep && entry !== null) {
+        samples.push({point: point, entry: entry})
+      }
+    }
+
+    const zones = [...settings.exclusionZones]
+    const isExcluded = (point: vec2) =>
+      zones.some((zone) => zone.contains(point))
+
+    const document = createEmptyLandscapeDocument()
+    const place = (sample: Sample) => {
+      document.objects.push(
+        this.createRecord(
+          `obj_${document.objects.length + 1}`,
+          sample,
+          settings,
+          random,
+        ),
+      )
+    }
+
+    // Features with a clearance claim their area first, so the rest of the biome grows around them
+    for (const sample of samples) {
+      if (sample.entry.clearanceRadius <= 0) {
+        continue
+      }
+      const clearance = new CircleExclusionZone(
+        sample.point,
+        sample.entry.clearanceRadius,
+      )
+      const overlaps = zones.some(
+        (zone) =>
+          zone.contains(sample.point) ||
+          (zone instanceof CircleExclusionZone &&
+            zone.center.distance(sample.point) <
+              zone.radius + clearance.radius),
+      )
+      if (!overlaps) {
+        zones.push(clearance)
+        place(sample)
+      }
+    }
+
+    for (const sample of samples) {
+      if (sample.entry.clearanceRadius <= 0 && !isExcluded(sample.point)) {
+        place(sample)
+      }
+    }
+
+    return document
+  }
+
+  private pickEntry(entries: BiomeEntry[], value: number): BiomeEntry | null {
+    let totalWeight = 0
+    for (const entry of entries) {
+      totalWeight += Math.max(entry.weight, 0)
+    }
+    if (totalWeight <= 0) {
+      return null
+    }
+
+    let threshold = value * totalWeight
+    for (const entry of entries) {
+      threshold -= Math.max(entry.weight, 0)
+      if (threshold < 0) {
+        return entry
+      }
+    }
+    return entries[entries.length - 1]
+  }
+
+  private createRecord(
+    id: string,
+    sample: Sample,
+    settings: GenerationSettings,
+    random: () => number,
+  ): PlacedObjectRecord {
+    const {point, entry} = sample
+
+    const prefab = this.catalog.findByName(entry.prefabName)
+    const defaultScale =
+      prefab !== null ? this.catalog.getMetadata(prefab).defaultScale : 1
+    const scale =
+      defaultScale *
+      (entry.minScale + random() * (entry.maxScale - entry.minScale))
+    const yaw = settings.randomYaw ? random() * Math.PI * 2 : 0
+
+    return {
+      id: id,
+      prefabIndex: prefab !== null ? this.catalog.indexOf(prefab) : -1,
+      prefabName: entry.prefabName,
+      position: vec3ToRecord(new vec3(point.x, settings.groundHeight, point.y)),
+      rotation: quatToRecord(quat.angleAxis(yaw, vec3.up())),
+      scale: vec3ToRecord(vec3.one().uniformScale(scale)),
+      parentId: null,
+    }
+  }
+}
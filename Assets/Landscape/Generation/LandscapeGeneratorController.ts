@@ -0,0 +1,95 @@
+import NativeLogger from "SpectaclesInteractionKit/Utils/NativeLogger"
+import {ExclusionZoneRegistry} from "../Core/ExclusionZones"
+import {LandscapeDocument} from "../Core/LandscapeDocument"
+import {LandscapeObjectRegistry} from "../Core/LandscapeObjectRegistry"
+import {LandscapeSerializer} from "../Core/LandscapeSerializer"
+import {Biome, MEADOW_BIOME} from "./Biome"
+import {BiomeDefinition} from "./BiomeDefinition"
+import {LandscapeGenerator} from "./LandscapeGenerator"
+
+const TAG = "LandscapeGeneratorController"
+
+/**
+ * Replaces the landscape with a procedurally generated one. Generated
+ * objects avoid every {@link ExclusionArea} in the scene.
+ */
+@component
+export class LandscapeGeneratorController extends BaseScriptComponent {
+  @input("int")
+  @hint("Seed of the random number generator")
+  seed: number = 1
+  @input
+  @allowUndefined
+  @hint("Biome to generate. Leave empty to use the built-in meadow.")
+  biome: BiomeDefinition | undefined
+  @ui.group_start("Area")
+  @input("vec2", "{-100, -100}")
+  @hint("Corner of the generated area with the smallest X and Z, in cm")
+  boundsMin: vec2 = new vec2(-100, -100)
+  @input("vec2", "{100, 100}")
+  @hint("Corner of the generated area with the largest X and Z, in cm")
+  boundsMax: vec2 = new vec2(100, 100)
+  @input
+  @hint("World height of the ground, in cm")
+  groundHeight: number = 0
+  @ui.group_end
+  @input
+  randomYaw: boolean = true
+  @input
+  @hint("Generate a landscape when the lens starts")
+  generateOnStart: boolean = false
+
+  private registry = LandscapeObjectRegistry.getInstance()
+  private zones = ExclusionZoneRegistry.getInstance()
+  private serializer = new LandscapeSerializer()
+  private generator = new LandscapeGenerator()
+
+  // Native Logging
+  private log = new NativeLogger(TAG)
+
+  onAwake(): void {
+    // Wait for OnStart so biomes and spawners have registered their prefabs
+    this.createEvent("OnStartEvent").bind(() => {
+      if (this.generateOnStart) {
+        this.generate()
+      }
+    })
+  }
+
+  /**
+   * Creates the document of a generated landscape without touching the
+   * scene.
+   *
+   * @param seed - overrides the seed input if given.
+   */
+  createDocument(seed: number = this.seed): LandscapeDocument {
+    return this.generator.generate(this.getBiome(), {
+      seed: seed,
+      boundsMin: this.boundsMin,
+      boundsMax: this.boundsMax,
+      groundHeight: this.groundHeight,
+      randomYaw: this.randomYaw,
+      exclusionZones: this.zones.getAll(),
+    })
+  }
+
+  /**
+   * Replaces the current landscape with a generated one.
+   *
+   * @param seed - overrides the seed input if given.
+   * @returns the generated document.
+   */
+  generate(seed: number = this.seed): LandscapeDocument {
+    const document = this.createDocument(seed)
+    this.registry.clear()
+    const placedObjects = this.serializer.deserialize(document)
+    this.log.d(
+      `Generated ${placedObjects.length} objects from seed ${seed} in ${this.getBiome().name}`,
+    )
+    return document
+  }
+
+  private getBiome(): Biome {
+    return this.biome !== undefined ? this.biome.getBiome() : MEADOW_BIOME
+  }
+}
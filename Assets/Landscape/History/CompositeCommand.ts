@@ -0,0 +1,26 @@
+import {LandscapeCommand} from "./LandscapeCommand"
+
+/**
+ * Groups several commands so they are undone and redone as a single edit.
+ * Commands are executed in order and undone in reverse order.
+ */
+export class CompositeCommand implements LandscapeCommand {
+  constructor(
+    readonly label: string,
+    private commands: LandscapeCommand[],
+  ) {}
+
+  execute(): void {
+    this.commands.forEach((command) => command.execute())
+  }
+
+  undo(): void {
+    for (let i = this.commands.length - 1; i >= 0; i--) {
+      this.commands[i].undo()
+    }
+  }
+
+  discard(): void {
+    this.commands.forEach((command) => command.discard?.())
+  }
+}
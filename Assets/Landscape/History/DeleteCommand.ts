@@ -0,0 +1,51 @@
+import {
+  LandscapeObjectRegistry,
+  PlacedObject,
+} from "../Core/LandscapeObjectRegistry"
+import {PrefabPool} from "../Core/PrefabPool"
+import {LandscapeCommand} from "./LandscapeCommand"
+
+/**
+ * Removes an object from the landscape. The SceneObject is only hidden until
+ * the command leaves the history, so the delete can be undone.
+ */
+export class DeleteCommand implements LandscapeCommand {
+  readonly label: string
+
+  private registry = LandscapeObjectRegistry.getInstance()
+  private deleted = false
+
+  constructor(private placedObject: PlacedObject) {
+    this.label = `Delete ${placedObject.prefab.name}`
+  }
+
+  execute(): void {
+    this.registry.remove(this.placedObject.id)
+    if (!isNull(this.placedObject.sceneObject)) {
+      this.placedObject.sceneObject.enabled = false
+    }
+    this.deleted = true
+  }
+
+  undo(): void {
+    if (isNull(this.placedObject.sceneObject)) {
+      return
+    }
+    this.placedObject.sceneObject.enabled = true
+    this.registry.add(
+      this.placedObject.sceneObject,
+      this.placedObject.prefab,
+      this.placedObject.id,
+    )
+    this.deleted = false
+  }
+
+  discard(): void {
+    if (this.deleted) {
+      PrefabPool.getInstance().release(
+        this.placedObject.prefab,
+        this.placedObject.sceneObject,
+      )
+    }
+  }
+}
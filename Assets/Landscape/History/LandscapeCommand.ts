@@ -0,0 +1,26 @@
+/**
+ * A reversible edit to the landscape.
+ */
+export interface LandscapeCommand {
+  /**
+   * Human readable name of the edit, e.g. "Move Stone Object"
+   */
+  readonly label: string
+
+  /**
+   * Applies the edit. Called again on redo.
+   */
+  execute(): void
+
+  /**
+   * Reverts the edit.
+   */
+  undo(): void
+
+  /**
+   * Called once the command falls out of the history and can never be
+   * executed or undone again. Use it to release anything kept alive only for
+   * the sake of undo.
+   */
+  discard?(): void
+}
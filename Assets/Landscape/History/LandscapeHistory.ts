@@ -0,0 +1,186 @@
+import {Singleton} from "SpectaclesInteractionKit/Decorators/Singleton"
+import Event, {PublicApi} from "SpectaclesInteractionKit/Utils/Event"
+import NativeLogger from "SpectaclesInteractionKit/Utils/NativeLogger"
+import {CompositeCommand} from "./CompositeCommand"
+import {LandscapeCommand} from "./LandscapeCommand"
+
+const TAG = "LandscapeHistory"
+
+const DEFAULT_MAX_DEPTH = 50
+
+export type HistoryChangedEventArg = {
+  canUndo: boolean
+  canRedo: boolean
+}
+
+/**
+ * Bounded undo/redo stack shared by every landscape editing tool.
+ */
+@Singleton
+export class LandscapeHistory {
+  public static getInstance: () => LandscapeHistory
+
+  private undoStack: LandscapeCommand[] = []
+  private redoStack: LandscapeCommand[] = []
+  private _maxDepth = DEFAULT_MAX_DEPTH
+
+  private groupLabel = ""
+  private groupDepth = 0
+  private groupCommands: LandscapeCommand[] = []
+
+  // Native Logging
+  private log = new NativeLogger(TAG)
+
+  private onHistoryChangedEvent = new Event<HistoryChangedEventArg>()
+  /**
+   * Called whenever a command is recorded, undone or redone
+   */
+  onHistoryChanged: PublicApi<HistoryChangedEventArg> =
+    this.onHistoryChangedEvent.publicApi()
+
+  /**
+   * The maximum number of commands that can be undone.
+   */
+  get maxDepth(): number {
+    return this._maxDepth
+  }
+
+  set maxDepth(depth: number) {
+    this._maxDepth = Math.max(1, Math.floor(depth))
+    this.trim()
+  }
+
+  get canUndo(): boolean {
+    return this.undoStack.length > 0
+  }
+
+  get canRedo(): boolean {
+    return this.redoStack.length > 0
+  }
+
+  /**
+   * Executes a command and records it.
+   */
+  execute(command: LandscapeCommand): void {
+    command.execute()
+    this.record(command)
+  }
+
+  /**
+   * Records a command whose effect has already been applied, e.g. a move the
+   * user made by hand.
+   */
+  record(command: LandscapeCommand): void {
+    if (this.groupDepth > 0) {
+      this.groupCommands.push(command)
+      return
+    }
+
+    this.discardAll(this.redoStack)
+    this.undoStack.push(command)
+    this.trim()
+    this.log.v(`Recorded ${command.label}`)
+    this.notifyChanged()
+  }
+
+  /**
+   * Starts collecting recorded commands into a single edit, e.g. for a brush
+   * stroke spanning many frames. Groups may be nested; only the outermost
+   * group's label is used.
+   */
+  beginGroup(label: string): void {
+    if (this.groupDepth === 0) {
+      this.groupLabel = label
+      this.groupCommands = []
+    }
+    this.groupDepth++
+  }
+
+  /**
+   * Ends the group started by {@link beginGroup} and records the collected
+   * commands as one edit.
+   */
+  endGroup(): void {
+    if (this.groupDepth === 0) {
+      return
+    }
+    this.groupDepth--
+    if (this.groupDepth > 0 || this.groupCommands.length === 0) {
+      return
+    }
+
+    const commands = this.groupCommands
+    this.groupCommands = []
+    this.record(
+      commands.length === 1
+        ? commands[0]
+        : new CompositeCommand(this.groupLabel, commands),
+    )
+  }
+
+  /**
+   * Reverts the most recent command.
+   *
+   * @returns true if a command was undone.
+   */
+  undo(): boolean {
+    const command = this.undoStack.pop()
+    if (command === undefined) {
+      return false
+    }
+    command.undo()
+    this.redoStack.push(command)
+    this.log.v(`Undid ${command.label}`)
+    this.notifyChanged()
+    return true
+  }
+
+  /**
+   * Re-applies the most recently undone command.
+   *
+   * @returns true if a command was redone.
+   */
+  redo(): boolean {
+    const command = this.redoStack.pop()
+    if (command === undefined) {
+      return false
+    }
+    command.execute()
+    this.undoStack.push(command)
+    this.log.v(`Redid ${command.label}`)
+    this.notifyChanged()
+    return true
+  }
+
+  /**
+   * Forgets every recorded command, including those of an open group. Ending
+   * that group afterwards has no effect.
+   */
+  clear(): void {
+    this.discardAll(this.undoStack)
+    this.discardAll(this.redoStack)
+    this.discardAll(this.groupCommands)
+    this.groupLabel = ""
+    this.groupDepth = 0
+    this.notifyChanged()
+  }
+
+  private trim(): void {
+    while (this.undoStack.length > this._maxDepth) {
+      this.undoStack.shift()?.discard?.()
+    }
+  }
+
+  private discardAll(stack: LandscapeCommand[]): void {
+    while (stack.length > 0) {
+      stack.pop()?.discard?.()
+    }
+  }
+
+  private notifyChanged(): void {
+    this.onHistoryChangedEvent.invoke({
+      canUndo: this.canUndo,
+      canRedo: this.canRedo,
+    })
+  }
+}
@@ -0,0 +1,79 @@
+import {unsubscribe} from "SpectaclesInteractionKit/Utils/Event"
+import {LandscapeObjectRegistry} from "../Core/LandscapeObjectRegistry"
+import {ManipulationTracker} from "../Core/ManipulationTracker"
+import {snapshotsEqual} from "../Core/TransformSnapshot"
+import {DeleteCommand} from "./DeleteCommand"
+import {LandscapeHistory} from "./LandscapeHistory"
+import {TransformCommand} from "./TransformCommand"
+
+/**
+ * Records manipulation of placed objects into the {@link LandscapeHistory} and
+ * exposes undo/redo so they can be bound to a PinchButton or gesture.
+ */
+@component
+export class LandscapeHistoryController extends BaseScriptComponent {
+  @input
+  @hint("Maximum number of edits that can be undone")
+  maxDepth: number = 50
+
+  private registry = LandscapeObjectRegistry.getInstance()
+  private history = LandscapeHistory.getInstance()
+  private tracker = ManipulationTracker.getInstance()
+
+  private unsubscribeBag: unsubscribe[] = []
+
+  onAwake(): void {
+    this.history.maxDepth = this.maxDepth
+
+    this.unsubscribeBag.push(
+      this.registry.onCleared.add(() => this.history.clear()),
+      this.tracker.onManipulationEnded.add((event) => {
+        // Objects dragged off a spawn pad are covered by their SpawnCommand
+        if (
+          event.joinedMidway ||
+          snapshotsEqual(event.startPose, event.endPose)
+        ) {
+          return
+        }
+        this.history.record(
+          new TransformCommand(
+            event.placedObject.id,
+            event.startPose,
+            event.endPose,
+          ),
+        )
+      }),
+    )
+    this.createEvent("OnDestroyEvent").bind(() => {
+      this.unsubscribeBag.forEach((unsubscribe) => unsubscribe())
+      this.unsubscribeBag = []
+    })
+  }
+
+  /**
+   * Reverts the most recent landscape edit.
+   */
+  undo(): void {
+    this.history.undo()
+  }
+
+  /**
+   * Re-applies the most recently undone landscape edit.
+   */
+  redo(): void {
+    this.history.redo()
+  }
+
+  /**
+   * Deletes a placed object in an undoable way.
+   *
+   * @param sceneObject - the placed SceneObject to delete.
+   */
+  deleteObject(sceneObject: SceneObject): void {
+    const placedObject = this.registry.getBySceneObject(sceneObject)
+    if (placedObject === null) {
+      return
+    }
+    this.history.execute(new DeleteCommand(placedObject))
+  }
+}
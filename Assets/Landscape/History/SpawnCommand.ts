@@ -0,0 +1,51 @@
+import {
+  LandscapeObjectRegistry,
+  PlacedObject,
+} from "../Core/LandscapeObjectRegistry"
+import {PrefabPool} from "../Core/PrefabPool"
+import {LandscapeCommand} from "./LandscapeCommand"
+
+/**
+ * Adds an object to the landscape. Undoing hides the object and removes it
+ * from the registry rather than destroying it, so it can be redone.
+ */
+export class SpawnCommand implements LandscapeCommand {
+  readonly label: string
+
+  private registry = LandscapeObjectRegistry.getInstance()
+  private spawned = true
+
+  constructor(private placedObject: PlacedObject) {
+    this.label = `Spawn ${placedObject.prefab.name}`
+  }
+
+  execute(): void {
+    if (isNull(this.placedObject.sceneObject)) {
+      return
+    }
+    this.placedObject.sceneObject.enabled = true
+    this.registry.add(
+      this.placedObject.sceneObject,
+      this.placedObject.prefab,
+      this.placedObject.id,
+    )
+    this.spawned = true
+  }
+
+  undo(): void {
+    this.registry.remove(this.placedObject.id)
+    if (!isNull(this.placedObject.sceneObject)) {
+      this.placedObject.sceneObject.enabled = false
+    }
+    this.spawned = false
+  }
+
+  discard(): void {
+    if (!this.spawned) {
+      PrefabPool.getInstance().release(
+        this.placedObject.prefab,
+        this.placedObject.sceneObject,
+      )
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import {LandscapeObjectRegistry} from "../Core/LandscapeObjectRegistry"
+import {LandscapeCommand} from "./LandscapeCommand"
+import {
+  applyTransform,
+  hasMoved,
+  hasRotated,
+  TransformSnapshot,
+} from "../Core/TransformSnapshot"
+
+/**
+ * Moves, rotates and/or scales a placed object between two poses.
+ */
+export class TransformCommand implements LandscapeCommand {
+  readonly label: string
+
+  private registry = LandscapeObjectRegistry.getInstance()
+
+  constructor(
+    private objectId: string,
+    private before: TransformSnapshot,
+    private after: TransformSnapshot,
+  ) {
+    this.label = `${this.describe()} ${objectId}`
+  }
+
+  execute(): void {
+    this.apply(this.after)
+  }
+
+  undo(): void {
+    this.apply(this.before)
+  }
+
+  private apply(snapshot: TransformSnapshot): void {
+    const placedObject = this.registry.getById(this.objectId)
+    if (placedObject === null) {
+      return
+    }
+    applyTransform(placedObject.sceneObject.getTransform(), snapshot)
+  }
+
+  private describe(): string {
+    if (hasMoved(this.before, this.after)) {
+      return "Move"
+    }
+    if (hasRotated(this.before, this.after)) {
+      return "Rotate"
+    }
+    return "Scale"
+  }
+}
@@ -0,0 +1,27 @@
+import {LandscapeCommand} from "../History/LandscapeCommand"
+import {AxisLocks, AxisLockState} from "./AxisLocks"
+
+/**
+ * Changes which translation axes of a placed object are locked.
+ */
+export class AxisLockCommand implements LandscapeCommand {
+  readonly label: string
+
+  private locks = AxisLocks.getInstance()
+
+  constructor(
+    private objectId: string,
+    private before: AxisLockState,
+    private after: AxisLockState,
+  ) {
+    this.label = `Lock Axes ${objectId}`
+  }
+
+  execute(): void {
+    this.locks.set(this.objectId, this.after)
+  }
+
+  undo(): void {
+    this.locks.set(this.objectId, this.before)
+  }
+}
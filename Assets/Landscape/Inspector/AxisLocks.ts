@@ -0,0 +1,140 @@
+import {InteractableManipulation} from "SpectaclesInteractionKit/Components/Interaction/InteractableManipulation/InteractableManipulation"
+import {Singleton} from "SpectaclesInteractionKit/Decorators/Singleton"
+import Event, {PublicApi} from "SpectaclesInteractionKit/Utils/Event"
+import {
+  LandscapeObjectRegistry,
+  PlacedObject,
+} from "../Core/LandscapeObjectRegistry"
+import {
+  isSectionObject,
+  LandscapeSection,
+  LandscapeSections,
+} from "../Core/LandscapeSections"
+
+/**
+ * Axes a placed object cannot be dragged along. Locked axes are true.
+ */
+export type AxisLockState = {
+  x: boolean
+  y: boolean
+  z: boolean
+}
+
+export type AxisLocksChangedEventArg = {
+  objectId: string
+  state: AxisLockState
+}
+
+/**
+ * Locks of every object with at least one locked axis, by object id.
+ */
+type AxisLocksRecord = {[id: string]: AxisLockState}
+
+const UNLOCKED: AxisLockState = {x: false, y: false, z: false}
+
+/**
+ * Keeps track of the translation axes locked per placed object and applies
+ * them to the object's InteractableManipulation, including after the object
+ * is removed and added again by undo or replaced by a variant swap. Locks are
+ * saved with the landscape as the "axisLocks" section.
+ */
+@Singleton
+export class AxisLocks implements LandscapeSection {
+  public static getInstance: () => AxisLocks
+
+  readonly name = "axisLocks"
+
+  private registry = LandscapeObjectRegistry.getInstance()
+
+  private locks: Map<string, AxisLockState> = new Map()
+
+  private onLocksChangedEvent = new Event<AxisLocksChangedEventArg>()
+  /**
+   * Called whenever the locked axes of an object change
+   */
+  onLocksChanged: PublicApi<AxisLocksChangedEventArg> =
+    this.onLocksChangedEvent.publicApi()
+
+  constructor() {
+    this.registry.onObjectAdded.add((placedObject) => this.apply(placedObject))
+    // Removed instances may go back to the PrefabPool, so they are unlocked
+    this.registry.onObjectRemoved.add((placedObject) =>
+      this.applyState(placedObject.sceneObject, UNLOCKED),
+    )
+    this.registry.onObjectReplaced.add((event) => {
+      this.applyState(event.previous.sceneObject, UNLOCKED)
+      this.apply(event.placedObject)
+    })
+    LandscapeSections.getInstance().register(this)
+  }
+
+  get(id: string): AxisLockState {
+    return {...(this.locks.get(id) ?? UNLOCKED)}
+  }
+
+  /**
+   * Locks and unlocks the axes of an object. Use an AxisLockCommand to make
+   * the change undoable.
+   */
+  set(id: string, state: AxisLockState): void {
+    if (state.x || state.y || state.z) {
+      this.locks.set(id, {...state})
+    } else {
+      this.locks.delete(id)
+    }
+
+    const placedObject = this.registry.getById(id)
+    if (placedObject !== null) {
+      this.apply(placedObject)
+    }
+    this.onLocksChangedEvent.invoke({objectId: id, state: this.get(id)})
+  }
+
+  save(): AxisLocksRecord {
+    const record: AxisLocksRecord = {}
+    this.locks.forEach((state, id) => {
+      if (this.registry.getById(id) !== null) {
+        record[id] = {...state}
+      }
+    })
+    return record
+  }
+
+  load(data: unknown): void {
+    this.locks.clear()
+    const record: {[id: string]: unknown} = isSectionObject(data) ? data : {}
+    for (const id in record) {
+      const state = record[id]
+      if (!isSectionObject(state)) {
+        continue
+      }
+      this.locks.set(id, {
+        x: state.x === true,
+        y: state.y === true,
+        z: state.z === true,
+      })
+    }
+
+    // Objects loaded after this section apply their locks as they are added
+    this.registry.getAll().forEach((placedObject) => this.apply(placedObject))
+  }
+
+  private apply(placedObject: PlacedObject): void {
+    this.applyState(placedObject.sceneObject, this.get(placedObject.id))
+  }
+
+  private applyState(sceneObject: SceneObject, state: AxisLockState): void {
+    if (isNull(sceneObject)) {
+      return
+    }
+    const manipulation = sceneObject.getComponent(
+      InteractableManipulation.getTypeName(),
+    )
+    if (isNull(manipulation)) {
+      return
+    }
+    manipulation.enableXTranslation = !state.x
+    manipulation.enableYTranslation = !state.y
+    manipulation.enableZTranslation = !state.z
+  }
+}
@@ -0,0 +1,355 @@
+import {InteractableManipulation} from "SpectaclesInteractionKit/Components/Interaction/InteractableManipulation/InteractableManipulation"
+import {ContainerFrame} from "SpectaclesInteractionKit/Components/UI/ContainerFrame/ContainerFrame"
+import {Slider} from "SpectaclesInteractionKit/Components/UI/Slider/Slider"
+import {ToggleButton} from "SpectaclesInteractionKit/Components/UI/ToggleButton/ToggleButton"
+import {unsubscribe} from "SpectaclesInteractionKit/Utils/Event"
+import {DegToRad, RadToDeg} from "SpectaclesInteractionKit/Utils/mathUtils"
+import {PlacedObject} from "../Core/LandscapeObjectRegistry"
+import {ManipulationTracker} from "../Core/ManipulationTracker"
+import {PrefabCatalog} from "../Core/PrefabCatalog"
+import {
+  applyTransform,
+  captureTransform,
+  snapshotsEqual,
+  TransformSnapshot,
+} from "../Core/TransformSnapshot"
+import {LandscapeHistory} from "../History/LandscapeHistory"
+import {TransformCommand} from "../History/TransformCommand"
+import {SelectionManager} from "../Selection/SelectionManager"
+import {AxisLockCommand} from "./AxisLockCommand"
+import {AxisLocks, AxisLockState} from "./AxisLocks"
+
+const AXES = ["X", "Y", "Z"]
+
+type PoseEdit = (pose: TransformSnapshot) => TransformSnapshot
+
+/**
+ * Window showing the selected object's name, prefab and pose, with sliders
+ * to edit its position, rotation and uniform scale. Edits apply while
+ * sliding and are recorded as one undoable edit per slide. The scale range
+ * follows the object's InteractableManipulation limits, relative to the
+ * prefab's default scale. The lock toggles turn off translation along each
+ * axis when the object is grabbed, as undoable edits saved with the
+ * landscape.
+ *
+ * The window only shows while exactly one object is selected, and follows
+ * the object when something else moves it, e.g. another user.
+ */
+@component
+export class ObjectInspector extends BaseScriptComponent {
+  @input
+  frame!: ContainerFrame
+  @input
+  @hint("Text showing the object's id")
+  nameText!: Text
+  @input
+  @hint("Text showing the object's prefab")
+  prefabText!: Text
+  @input
+  @allowUndefined
+  @hint("Text showing the pose values")
+  valuesText: Text | undefined
+  @ui.group_start("Sliders")
+  @input
+  @hint("Sliders for the X, Y and Z position")
+  positionSliders: Slider[] = []
+  @input
+  @hint(
+    "Distance the position sliders reach on either side of the object, in cm",
+  )
+  positionRange: number = 50
+  @input
+  @hint("Sliders for the X, Y and Z rotation, from -180 to 180 degrees")
+  rotationSliders: Slider[] = []
+  @input
+  @allowUndefined
+  scaleSlider: Slider | undefined
+  @ui.group_end
+  @ui.group_start("Axis Locks")
+  @input
+  @hint(
+    "Toggles for the X, Y and Z axes. Toggled on, the object cannot be dragged along the axis.",
+  )
+  lockToggles: ToggleButton[] = []
+  @ui.group_end
+  private selection = SelectionManager.getInstance()
+  private tracker = ManipulationTracker.getInstance()
+  private history = LandscapeHistory.getInstance()
+  private catalog = PrefabCatalog.getInstance()
+  private locks = AxisLocks.getInstance()
+
+  private target: PlacedObject | null = null
+  // Pose the sliders show, to notice when the object is moved from elsewhere
+  private shownPose: TransformSnapshot | null = null
+  // Pose at the start of the current slide, null while no slider is held
+  private slideStartPose: TransformSnapshot | null = null
+  // Set while the sliders are moved to match the object, so the moves are not applied back
+  private refreshing = false
+
+  // Keep track of "Unsubscribe" functions when adding callbacks to UI and landscape events, to ensure proper cleanup on destroy
+  private unsubscribeBag: unsubscribe[] = []
+
+  onAwake(): void {
+    // Wait for OnStart so the sliders have set up their state
+    this.createEvent("OnStartEvent").bind(() => {
+      this.bindSliders()
+      this.bindLockToggles()
+      this.unsubscribeBag.push(
+        this.selection.onSelectionChanged.add((event) =>
+          this.setTarget(
+            event.selected.length === 1 ? event.selected[0] : null,
+          ),
+        ),
+        this.tracker.onManipulationEnded.add((event) => {
+          if (event.placedObject === this.target) {
+            this.refresh()
+          }
+        }),
+        // Undo and redo move the object without telling the inspector
+        this.history.onHistoryChanged.add(() => {
+          if (this.slideStartPose === null) {
+            this.refresh()
+          }
+        }),
+        this.locks.onLocksChanged.add((event) => {
+          if (event.objectId === this.target?.id) {
+            this.refresh()
+          }
+        }),
+      )
+      const selected = this.selection.getSelected()
+      this.setTarget(selected.length === 1 ? selected[0] : null)
+    })
+    this.createEvent("UpdateEvent").bind(() => this.followTarget())
+    this.createEvent("OnDestroyEvent").bind(() => {
+      this.unsubscribeBag.forEach((unsubscribe) => unsubscribe())
+      this.unsubscribeBag = []
+    })
+  }
+
+  private setTarget(placedObject: PlacedObject | null): void {
+    this.endSlide()
+    this.target = placedObject
+    this.frame.getSceneObject().enabled = placedObject !== null
+    if (placedObject === null) {
+      return
+    }
+
+    this.nameText.text = placedObject.id
+    this.prefabText.text = this.catalog.getMetadata(
+      placedObject.prefab,
+    ).displayName
+    this.refresh()
+  }
+
+  // Each slider only changes its own axis, so values the other sliders show never overwrite the object
+  private bindSliders(): void {
+    this.positionSliders.forEach((slider, axis) =>
+      this.bindSlider(slider, (value) => (pose) => ({
+        ...pose,
+        position: withAxis(pose.position, axis, value),
+      })),
+    )
+    this.rotationSliders.forEach((slider, axis) => {
+      setRange(slider, -180, 180)
+      this.bindSlider(slider, (value) => (pose) => ({
+        ...pose,
+        rotation: quat.fromEulerVec(
+          withAxis(toEulerDegrees(pose.rotation), axis, value).uniformScale(
+            DegToRad,
+          ),
+        ),
+      }))
+    })
+    if (this.scaleSlider !== undefined) {
+      this.bindSlider(this.scaleSlider, (value) => (pose) => ({
+        ...pose,
+        scale: vec3.one().uniformScale(value),
+      }))
+    }
+  }
+
+  private bindSlider(slider: Slider, edit: (value: number) => PoseEdit): void {
+    this.unsubscribeBag.push(
+      slider.onSlideStart.add(() => this.beginSlide()),
+      slider.onValueUpdate.add((value) => this.applyEdit(edit(value))),
+      slider.onSlideEnd.add(() => this.endSlide()),
+    )
+  }
+
+  private bindLockToggles(): void {
+    this.lockToggles.forEach((toggle, axis) => {
+      this.unsubscribeBag.push(
+        toggle.onStateChanged.add((locked) => {
+          if (this.target === null || this.refreshing) {
+            return
+          }
+          const before = this.locks.get(this.target.id)
+          const after: AxisLockState = {
+            x: axis === 0 ? locked : before.x,
+            y: axis === 1 ? locked : before.y,
+            z: axis === 2 ? locked : before.z,
+          }
+          this.history.execute(
+            new AxisLockCommand(this.target.id, before, after),
+          )
+        }),
+      )
+    })
+  }
+
+  private beginSlide(): void {
+    if (this.target !== null && this.slideStartPose === null) {
+      this.slideStartPose = captureTransform(
+        this.target.sceneObject.getTransform(),
+      )
+    }
+  }
+
+  private applyEdit(edit: PoseEdit): void {
+    if (this.target === null || this.refreshing) {
+      return
+    }
+    // Values can change without a slide, e.g. when the track is tapped
+    const isSliding = this.slideStartPose !== null
+    this.beginSlide()
+
+    const transform = this.target.sceneObject.getTransform()
+    applyTransform(transform, edit(captureTransform(transform)))
+    this.shownPose = captureTransform(transform)
+    this.updateValuesText()
+
+    if (!isSliding) {
+      this.endSlide()
+    }
+  }
+
+  private endSlide(): void {
+    const before = this.slideStartPose
+    this.slideStartPose = null
+    if (this.target === null || before === null) {
+      return
+    }
+    // Already applied while sliding
+    const after = captureTransform(this.target.sceneObject.getTransform())
+    if (!snapshotsEqual(before, after)) {
+      this.history.record(new TransformCommand(this.target.id, before, after))
+    }
+  }
+
+  private followTarget(): void {
+    if (this.target === null || this.slideStartPose !== null) {
+      return
+    }
+    const pose = captureTransform(this.target.sceneObject.getTransform())
+    if (this.shownPose === null || !snapshotsEqual(pose, this.shownPose)) {
+      this.refresh()
+    }
+  }
+
+  private refresh(): void {
+    if (this.target === null) {
+      return
+    }
+
+    this.refreshing = true
+    const pose = captureTransform(this.target.sceneObject.getTransform())
+    this.shownPose = pose
+    this.positionSliders.forEach((slider, axis) => {
+      const value = getAxis(pose.position, axis)
+      setRange(
+        slider,
+        value - this.positionRange,
+        value + this.positionRange,
+        value,
+      )
+    })
+    const euler = toEulerDegrees(pose.rotation)
+    this.rotationSliders.forEach((slider, axis) => {
+      slider.currentValue = getAxis(euler, axis)
+    })
+
+    const manipulation = this.getManipulation()
+    if (this.scaleSlider !== undefined) {
+      const defaultScale = this.catalog.getMetadata(
+        this.target.prefab,
+      ).defaultScale
+      const minFactor = manipulation?.minimumScaleFactor ?? 1
+      const maxFactor = manipulation?.maximumScaleFactor ?? 1
+      setRange(
+        this.scaleSlider,
+        defaultScale * minFactor,
+        defaultScale * Math.max(maxFactor, minFactor + 0.01),
+        pose.scale.x,
+      )
+    }
+    const locks = this.locks.get(this.target.id)
+    this.lockToggles.forEach((toggle, axis) => {
+      toggle.isToggledOn = [locks.x, locks.y, locks.z][axis]
+    })
+    this.updateValuesText()
+    this.refreshing = false
+  }
+
+  private updateValuesText(): void {
+    if (this.valuesText === undefined || this.target === null) {
+      return
+    }
+    const pose = captureTransform(this.target.sceneObject.getTransform())
+    const euler = toEulerDegrees(pose.rotation)
+    const format = (vector: vec3) =>
+      AXES.map(
+        (name, axis) => `${name} ${getAxis(vector, axis).toFixed(1)}`,
+      ).join("  ")
+    this.valuesText.text = [
+      `Position  ${format(pose.position)}`,
+      `Rotation  ${format(euler)}`,
+      `Scale  ${pose.scale.x.toFixed(2)}`,
+    ].join("\n")
+  }
+
+  private getManipulation(): InteractableManipulation | null {
+    if (this.target === null) {
+      return null
+    }
+    const manipulation = this.target.sceneObject.getComponent(
+      InteractableManipulation.getTypeName(),
+    )
+    return isNull(manipulation) ? null : manipulation
+  }
+}
+
+function getAxis(vector: vec3, axis: number): number {
+  return axis === 0 ? vector.x : axis === 1 ? vector.y : vector.z
+}
+
+function withAxis(vector: vec3, axis: number, value: number): vec3 {
+  return new vec3(
+    axis === 0 ? value : vector.x,
+    axis === 1 ? value : vector.y,
+    axis === 2 ? value : vector.z,
+  )
+}
+
+function toEulerDegrees(rotation: quat): vec3 {
+  return rotation.toEulerAngles().uniformScale(RadToDeg)
+}
+
+// Slider rejects a minimum above its current maximum and the other way round, so the order matters
+function setRange(
+  slider: Slider,
+  min: number,
+  max: number,
+  value?: number,
+): void {
+  if (min >= slider.maxValue) {
+    slider.maxValue = max
+    slider.minValue = min
+  } else {
+    slider.minValue = min
+    slider.maxValue = max
+  }
+  if (value !== undefined) {
+    slider.currentValue = Math.min(max, Math.max(min, value))
+  }
+}
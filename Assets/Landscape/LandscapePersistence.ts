@@ -0,0 +1,129 @@
+import Event, {PublicApi} from "SpectaclesInteractionKit/Utils/Event"
+import NativeLogger from "SpectaclesInteractionKit/Utils/NativeLogger"
+import {
+  LandscapeDocument,
+  parseLandscapeDocument,
+} from "./Core/LandscapeDocument"
+import {LandscapeObjectRegistry} from "./Core/LandscapeObjectRegistry"
+import {LandscapeSerializer} from "./Core/LandscapeSerializer"
+import {AxisLocks} from "./Inspector/AxisLocks"
+import {LandscapeLayers} from "./Layers/LandscapeLayers"
+import {VariantSwapper} from "./Variants/VariantSwapper"
+
+const TAG = "LandscapePersistence"
+
+export type SavedEventArg = {
+  document: LandscapeDocument
+  /**
+   * True if the save was triggered by autosave rather than by the user.
+   */
+  automatic: boolean
+}
+
+/**
+ * Saves the landscape to persistent storage and restores it when the lens
+ * starts again.
+ */
+@component
+export class LandscapePersistence extends BaseScriptComponent {
+  @input
+  @hint("Key the landscape document is stored under in persistent storage")
+  storageKey: string = "landscape"
+
+  @input
+  @hint("Restore the saved landscape when the lens starts")
+  loadOnStart: boolean = true
+
+  @input
+  @hint("Seconds between automatic saves. Set to 0 to disable autosave.")
+  autoSaveInterval: number = 10
+
+  private registry = LandscapeObjectRegistry.getInstance()
+  private serializer = new LandscapeSerializer()
+  private store = global.persistentStorageSystem.store
+
+  private autoSaveEvent: DelayedCallbackEvent | null = null
+
+  // Native Logging
+  private log = new NativeLogger(TAG)
+
+  private onSavedEvent = new Event<SavedEventArg>()
+  /**
+   * Called after the landscape has been written to persistent storage
+   */
+  onSaved: PublicApi<SavedEventArg> = this.onSavedEvent.publicApi()
+
+  onAwake(): void {
+    // Singletons register their sections when first used, which may be after the first load
+    LandscapeLayers.getInstance()
+    AxisLocks.getInstance()
+    VariantSwapper.getInstance()
+
+    // Wait for OnStart so spawners have registered their prefabs
+    this.createEvent("OnStartEvent").bind(() => {
+      if (this.loadOnStart) {
+        this.load()
+      }
+      this.scheduleAutoSave()
+    })
+  }
+
+  /**
+   * Writes the current landscape to persistent storage.
+   */
+  save(): LandscapeDocument {
+    return this.write(false)
+  }
+
+  /**
+   * Replaces the current landscape with the one in persistent storage.
+   *
+   * @returns true if a saved landscape was found and loaded.
+   */
+  load(): boolean {
+    if (!this.store.has(this.storageKey)) {
+      return false
+    }
+
+    let document: LandscapeDocument
+    try {
+      document = parseLandscapeDocument(this.store.getString(this.storageKey))
+    } catch (error) {
+      this.log.e(`Failed to read saved landscape: ${error}`)
+      return false
+    }
+
+    this.registry.clear()
+    const placedObjects = this.serializer.deserialize(document)
+    this.log.d(`Loaded ${placedObjects.length} objects`)
+    return true
+  }
+
+  /**
+   * Deletes the saved landscape. The objects in the scene are left untouched.
+   */
+  clearSave(): void {
+    this.store.remove(this.storageKey)
+  }
+
+  private scheduleAutoSave(): void {
+    if (this.autoSaveInterval <= 0) {
+      return
+    }
+
+    this.autoSaveEvent = this.createEvent("DelayedCallbackEvent")
+    this.autoSaveEvent.bind(() => {
+      this.write(true)
+      this.autoSaveEvent?.reset(this.autoSaveInterval)
+    })
+    this.autoSaveEvent.reset(this.autoSaveInterval)
+  }
+
+  private write(automatic: boolean): LandscapeDocument {
+    const document = this.serializer.serialize()
+    this.store.putString(this.storageKey, JSON.stringify(document))
+    this.log.d(`Saved ${document.objects.length} objects`)
+    this.onSavedEvent.invoke({document: document, automatic: automatic})
+    return document
+  }
+}
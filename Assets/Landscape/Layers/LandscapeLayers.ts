@@ -0,0 +1,390 @@
+import {Interactable} from "SpectaclesInteractionKit/Components/Interaction/Interactable/Interactable"
+import {Singleton} from "SpectaclesInteractionKit/Decorators/Singleton"
+import Event, {PublicApi} from "SpectaclesInteractionKit/Utils/Event"
+import NativeLogger from "SpectaclesInteractionKit/Utils/NativeLogger"
+import {clamp} from "SpectaclesInteractionKit/Utils/mathUtils"
+import {
+  LandscapeObjectRegistry,
+  PlacedObject,
+} from "../Core/LandscapeObjectRegistry"
+import {
+  isSectionObject,
+  LandscapeSection,
+  LandscapeSections,
+} from "../Core/LandscapeSections"
+import {PrefabCatalog} from "../Core/PrefabCatalog"
+import {forEachInHierarchy} from "../Utils/SceneObjectUtils"
+
+const TAG = "LandscapeLayers"
+
+/**
+ * Layer of objects whose prefab and category do not belong to any layer.
+ */
+export const DEFAULT_LAYER = "props"
+
+export type LandscapeLayer = {
+  name: string
+  /**
+   * Prefab categories assigned to this layer automatically.
+   */
+  categories: string[]
+  /**
+   * Names of prefabs assigned to this layer automatically, whatever their
+   * category.
+   */
+  prefabs: string[]
+  visible: boolean
+  /**
+   * Locked layers cannot be grabbed or selected.
+   */
+  locked: boolean
+  /**
+   * Between 0 and 1.
+   */
+  opacity: number
+}
+
+type LayerStateRecord = {
+  name: string
+  visible: boolean
+  locked: boolean
+  opacity: number
+}
+
+type LayersRecord = {
+  layers: LayerStateRecord[]
+  /**
+   * Layers chosen by hand, by object id. Every other object follows its
+   * category.
+   */
+  assignments: {[id: string]: string}
+}
+
+type FadedMaterial = {
+  original: Material
+  clone: Material
+}
+
+const DEFAULT_LAYERS: LandscapeLayer[] = [
+  {
+    name: "vegetation",
+    categories: ["Vegetation", "Nature", "Trees", "Plants"],
+    prefabs: ["Apple Tree Object", "Flower Object", "FlowerBouquet Object"],
+    visible: true,
+    locked: false,
+    opacity: 1,
+  },
+  {
+    name: "rocks",
+    categories: ["Rocks", "Stones"],
+    prefabs: ["Stone Object"],
+    visible: true,
+    locked: false,
+    opacity: 1,
+  },
+  {
+    name: "water",
+    categories: ["Water"],
+    prefabs: ["Water Object"],
+    visible: true,
+    locked: false,
+    opacity: 1,
+  },
+  {
+    name: DEFAULT_LAYER,
+    categories: ["Props", "Urban", "Vehicles"],
+    prefabs: [],
+    visible: true,
+    locked: false,
+    opacity: 1,
+  },
+]
+
+/**
+ * Organizes placed objects into named layers that can be hidden, locked and
+ * faded as a whole. Objects join the layer listing their prefab, or else the
+ * layer of their prefab category, unless assigned by hand. The pad tools
+ * register without a category, so the default layers list them by name.
+ * Layer states and hand assignments are saved with the landscape as the
+ * "layers" section.
+ */
+@Singleton
+export class LandscapeLayers implements LandscapeSection {
+  public static getInstance: () => LandscapeLayers
+
+  readonly name = "layers"
+
+  private registry = LandscapeObjectRegistry.getInstance()
+  private catalog = PrefabCatalog.getInstance()
+
+  private layers: LandscapeLayer[] = DEFAULT_LAYERS.map((layer) => ({
+    ...layer,
+    categories: [...layer.categories],
+    prefabs: [...layer.prefabs],
+  }))
+  private assignments: Map<string, string> = new Map()
+
+  // Visuals whose material has been cloned so their opacity can change on its own, with the material they had before
+  private fadedVisuals: Map<RenderMeshVisual, FadedMaterial> = new Map()
+
+  // Native Logging
+  private log = new NativeLogger(TAG)
+
+  private onLayerChangedEvent = new Event<LandscapeLayer>()
+  /**
+   * Called whenever the visibility, lock or opacity of a layer changes
+   */
+  onLayerChanged: PublicApi<LandscapeLayer> =
+    this.onLayerChangedEvent.publicApi()
+
+  constructor() {
+    this.registry.onObjectAdded.add((placedObject) =>
+      this.applyLayer(placedObject),
+    )
+    // Removed instances may go back to the PrefabPool, so they are unlocked and unfaded
+    this.registry.onObjectRemoved.add((placedObject) =>
+      this.resetObject(placedObject.sceneObject),
+    )
+    this.registry.onObjectReplaced.add((event) => {
+      this.resetObject(event.previous.sceneObject)
+      this.applyLayer(event.placedObject)
+    })
+    LandscapeSections.getInstance().register(this)
+  }
+
+  getLayers(): LandscapeLayer[] {
+    return [...this.layers]
+  }
+
+  getLayer(name: string): LandscapeLayer | null {
+    return this.layers.find((layer) => layer.name === name) ?? null
+  }
+
+  /**
+   * Adds a layer, or replaces the categories and prefabs of an existing one.
+   */
+  defineLayer(
+    name: string,
+    categories: string[],
+    prefabs: string[] = [],
+  ): LandscapeLayer {
+    const existing = this.getLayer(name)
+    if (existing !== null) {
+      existing.categories = [...categories]
+      existing.prefabs = [...prefabs]
+      this.registry
+        .getAll()
+        .forEach((placedObject) => this.applyLayer(placedObject))
+      return existing
+    }
+
+    const layer = {
+      name: name,
+      categories: [...categories],
+      prefabs: [...prefabs],
+      visible: true,
+      locked: false,
+      opacity: 1,
+    }
+    this.layers.push(layer)
+    this.registry
+      .getAll()
+      .forEach((placedObject) => this.applyLayer(placedObject))
+    return layer
+  }
+
+  /**
+   * Returns the name of the layer the object belongs to.
+   */
+  getLayerOf(placedObject: PlacedObject): string {
+    const assigned = this.assignments.get(placedObject.id)
+    if (assigned !== undefined && this.getLayer(assigned) !== null) {
+      return assigned
+    }
+
+    const prefabName = placedObject.prefab.name
+    const category = this.catalog.getMetadata(placedObject.prefab).category
+    const layer =
+      this.layers.find((layer) => layer.prefabs.indexOf(prefabName) !== -1) ??
+      this.layers.find((layer) => layer.categories.indexOf(category) !== -1)
+    return layer?.name ?? DEFAULT_LAYER
+  }
+
+  /**
+   * Returns every placed object on the layer.
+   */
+  getObjects(name: string): PlacedObject[] {
+    return this.registry
+      .getAll()
+      .filter((placedObject) => this.getLayerOf(placedObject) === name)
+  }
+
+  /**
+   * Moves an object to a layer by hand, overriding its category.
+   */
+  assign(placedObject: PlacedObject, name: string): void {
+    if (this.getLayer(name) === null) {
+      this.log.w(`Cannot assign ${placedObject.id} to unknown layer ${name}`)
+      return
+    }
+    this.assignments.set(placedObject.id, name)
+    this.applyLayer(placedObject)
+  }
+
+  /**
+   * Returns true if the object is on a visible, unlocked layer, so it may be
+   * selected and edited.
+   */
+  isEditable(placedObject: PlacedObject): boolean {
+    const layer = this.getLayer(this.getLayerOf(placedObject))
+    return layer === null || (layer.visible && !layer.locked)
+  }
+
+  setVisible(name: string, visible: boolean): void {
+    this.updateLayer(name, (layer) => (layer.visible = visible))
+  }
+
+  setLocked(name: string, locked: boolean): void {
+    this.updateLayer(name, (layer) => (layer.locked = locked))
+  }
+
+  setOpacity(name: string, opacity: number): void {
+    this.updateLayer(name, (layer) => (layer.opacity = clamp(opacity, 0, 1)))
+  }
+
+  save(): LayersRecord {
+    const assignments: {[id: string]: string} = {}
+    this.assignments.forEach((layer, id) => {
+      if (this.registry.getById(id) !== null) {
+        assignments[id] = layer
+      }
+    })
+    return {
+      layers: this.layers.map((layer) => ({
+        name: layer.name,
+        visible: layer.visible,
+        locked: layer.locked,
+        opacity: layer.opacity,
+      })),
+      assignments: assignments,
+    }
+  }
+
+  load(data: unknown): void {
+    this.assignments.clear()
+    const records =
+      isSectionObject(data) && Array.isArray(data.layers)
+        ? data.layers.filter(isSectionObject)
+        : []
+    for (const layer of this.layers) {
+      const record = records.find((record) => record.name === layer.name)
+      layer.visible = record?.visible !== false
+      layer.locked = record?.locked === true
+      layer.opacity =
+        typeof record?.opacity === "number" ? clamp(record.opacity, 0, 1) : 1
+    }
+    const assignments: {[id: string]: unknown} =
+      isSectionObject(data) && isSectionObject(data.assignments)
+        ? data.assignments
+        : {}
+    for (const id in assignments) {
+      const layer = assignments[id]
+      if (typeof layer === "string") {
+        this.assignments.set(id, layer)
+      }
+    }
+
+    // Objects loaded after this section apply their layer as they are added
+    this.registry
+      .getAll()
+      .forEach((placedObject) => this.applyLayer(placedObject))
+    this.layers.forEach((layer) => this.onLayerChangedEvent.invoke(layer))
+  }
+
+  private updateLayer(
+    name: string,
+    change: (layer: LandscapeLayer) => void,
+  ): void {
+    const layer = this.getLayer(name)
+    if (layer === null) {
+      this.log.w(`Unknown layer ${name}`)
+      return
+    }
+    change(layer)
+    this.getObjects(name).forEach((placedObject) =>
+      this.applyLayer(placedObject),
+    )
+    this.onLayerChangedEvent.invoke(layer)
+  }
+
+  private applyLayer(placedObject: PlacedObject): void {
+    const layer = this.getLayer(this.getLayerOf(placedObject))
+    if (layer === null) {
+      return
+    }
+
+    placedObject.sceneObject.enabled = layer.visible
+    forEachInHierarchy(placedObject.sceneObject, (sceneObject) => {
+      for (const interactable of sceneObject.getComponents(
+        Interactable.getTypeName(),
+      )) {
+        interactable.enabled = !layer.locked
+      }
+      for (const visual of sceneObject.getComponents(
+        "Component.RenderMeshVisual",
+      )) {
+        this.applyOpacity(visual, layer.opacity)
+      }
+    })
+  }
+
+  // Undoes applyLayer
+  private resetObject(sceneObject: SceneObject): void {
+    if (isNull(sceneObject)) {
+      return
+    }
+    forEachInHierarchy(sceneObject, (child) => {
+      for (const interactable of child.getComponents(
+        Interactable.getTypeName(),
+      )) {
+        interactable.enabled = true
+      }
+      for (const visual of child.getComponents("Component.RenderMeshVisual")) {
+        const faded = this.fadedVisuals.get(visual)
+        if (faded === undefined) {
+          continue
+        }
+        // Leave materials swapped since, e.g. by painting, to whoever swapped them
+        if (visual.mainMaterial === faded.clone) {
+          visual.mainMaterial = faded.original
+        }
+        this.fadedVisuals.delete(visual)
+      }
+    })
+  }
+
+  private applyOpacity(visual: RenderMeshVisual, opacity: number): void {
+    if (!this.fadedVisuals.has(visual)) {
+      // Leave the shared material alone until the object actually fades
+      if (opacity === 1 || isNull(visual.mainMaterial)) {
+        return
+      }
+      const original = visual.mainMaterial
+      visual.mainMaterial = original.clone()
+      this.fadedVisuals.set(visual, {
+        original: original,
+        clone: visual.mainMaterial,
+      })
+    }
+
+    const pass = visual.mainPass
+    if (pass.baseColor !== undefined) {
+      pass.baseColor = new vec4(
+        pass.baseColor.x,
+        pass.baseColor.y,
+        pass.baseColor.z,
+        opacity,
+      )
+    }
+  }
+}
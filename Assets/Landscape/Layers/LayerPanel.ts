@@ -0,0 +1,57 @@
+import {ContainerFrame} from "SpectaclesInteractionKit/Components/UI/ContainerFrame/ContainerFrame"
+import {LandscapeLayers} from "./LandscapeLayers"
+import {LayerRow} from "./LayerRow"
+
+/**
+ * Lists the landscape layers in a ContainerFrame, one {@link LayerRow} per
+ * layer, and sizes the frame to fit them.
+ */
+@component
+export class LayerPanel extends BaseScriptComponent {
+  @input
+  frame!: ContainerFrame
+  @input
+  @hint("Prefab with a LayerRow component")
+  rowPrefab!: ObjectPrefab
+  @input
+  @hint("Distance between rows in ScreenTransform units")
+  rowHeight: number = 4
+  @input
+  @hint("Space above and below the rows in ScreenTransform units")
+  padding: number = 2
+
+  private layers = LandscapeLayers.getInstance()
+
+  private rows: SceneObject[] = []
+
+  onAwake(): void {
+    this.createEvent("OnStartEvent").bind(() => this.createRows())
+  }
+
+  private createRows(): void {
+    this.rows.forEach((row) => row.destroy())
+    this.rows = []
+
+    const sceneObj = this.getSceneObject()
+    const layers = this.layers.getLayers()
+    for (let i = 0; i < layers.length; i++) {
+      const row = this.rowPrefab.instantiate(sceneObj)
+      const screenTransform = row.getComponent("Component.ScreenTransform")
+      screenTransform.offsets.setCenter(
+        new vec2(0, ((layers.length - 1) / 2 - i) * this.rowHeight),
+      )
+      row.enabled = true
+
+      const layerRow: LayerRow | null = row.getComponent(LayerRow.getTypeName())
+      if (layerRow !== null) {
+        layerRow.init(layers[i])
+      }
+      this.rows.push(row)
+    }
+
+    this.frame.innerSize = new vec2(
+      this.frame.innerSize.x,
+      layers.length * this.rowHeight + this.padding * 2,
+    )
+  }
+}
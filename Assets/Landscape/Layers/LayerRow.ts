@@ -0,0 +1,78 @@
+import {Slider} from "SpectaclesInteractionKit/Components/UI/Slider/Slider"
+import {ToggleButton} from "SpectaclesInteractionKit/Components/UI/ToggleButton/ToggleButton"
+import {unsubscribe} from "SpectaclesInteractionKit/Utils/Event"
+import {LandscapeLayer, LandscapeLayers} from "./LandscapeLayers"
+
+/**
+ * A single row of the layer panel. Shows the layer's name and keeps its
+ * toggles and opacity slider in sync with the layer.
+ */
+@component
+export class LayerRow extends BaseScriptComponent {
+  @input
+  label!: Text
+  @input
+  @hint("Toggled on while the layer is visible")
+  visibleToggle!: ToggleButton
+  @input
+  @hint("Toggled on while the layer is locked")
+  lockToggle!: ToggleButton
+  @input
+  @allowUndefined
+  @hint("Slider from 0 to 1 controlling the layer's opacity")
+  opacitySlider: Slider | undefined
+
+  private layers = LandscapeLayers.getInstance()
+  private layerName: string | null = null
+
+  // Keep track of "Unsubscribe" functions when adding callbacks to UI and layer events, to ensure proper cleanup on destroy
+  private unsubscribeBag: unsubscribe[] = []
+
+  onAwake(): void {
+    this.createEvent("OnDestroyEvent").bind(() => {
+      this.unsubscribeBag.forEach((unsubscribe) => unsubscribe())
+      this.unsubscribeBag = []
+    })
+  }
+
+  /**
+   * Binds the row to a layer.
+   */
+  init(layer: LandscapeLayer): void {
+    this.layerName = layer.name
+    this.label.text = layer.name
+    this.refresh(layer)
+
+    this.unsubscribeBag.push(
+      this.visibleToggle.onStateChanged.add((visible) =>
+        this.layers.setVisible(layer.name, visible),
+      ),
+      this.lockToggle.onStateChanged.add((locked) =>
+        this.layers.setLocked(layer.name, locked),
+      ),
+      this.layers.onLayerChanged.add((changed) => {
+        if (changed.name === this.layerName) {
+          this.refresh(changed)
+        }
+      }),
+    )
+    if (this.opacitySlider !== undefined) {
+      this.unsubscribeBag.push(
+        this.opacitySlider.onValueUpdate.add((opacity) =>
+          this.layers.setOpacity(layer.name, opacity),
+        ),
+      )
+    }
+  }
+
+  private refresh(layer: LandscapeLayer): void {
+    this.visibleToggle.isToggledOn = layer.visible
+    this.lockToggle.isToggledOn = layer.locked
+    if (
+      this.opacitySlider !== undefined &&
+      this.opacitySlider.currentValue !== layer.opacity
+    ) {
+      this.opacitySlider.currentValue = layer.opacity
+    }
+  }
+}
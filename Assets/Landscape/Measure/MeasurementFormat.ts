@@ -0,0 +1,32 @@
+export enum MeasurementUnit {
+  /**
+   * Centimeters below one meter, meters above.
+   */
+  Auto = "Auto",
+  Centimeters = "cm",
+  Meters = "m",
+}
+
+const CM_PER_M = 100
+
+/**
+ * Formats a length given in cm, e.g. "42.5 cm" or "1.25 m".
+ */
+export function formatLength(cm: number, unit: MeasurementUnit): string {
+  const meters =
+    unit === MeasurementUnit.Meters ||
+    (unit === MeasurementUnit.Auto && cm >= CM_PER_M)
+  return meters ? `${(cm / CM_PER_M).toFixed(2)} m` : `${cm.toFixed(1)} cm`
+}
+
+/**
+ * Formats an area given in cm², e.g. "850 cm²" or "2.40 m²".
+ */
+export function formatArea(cm2: number, unit: MeasurementUnit): string {
+  const squareMeters =
+    unit === MeasurementUnit.Meters ||
+    (unit === MeasurementUnit.Auto && cm2 >= CM_PER_M * CM_PER_M)
+  return squareMeters
+    ? `${(cm2 / (CM_PER_M * CM_PER_M)).toFixed(2)} m²`
+    : `${cm2.toFixed(0)} cm²`
+}
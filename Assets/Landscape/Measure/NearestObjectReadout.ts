@@ -0,0 +1,146 @@
+import {unsubscribe} from "SpectaclesInteractionKit/Utils/Event"
+import LineRenderer from "SpectaclesInteractionKit/Utils/views/LineRenderer/LineRenderer"
+import {
+  LandscapeObjectRegistry,
+  PlacedObject,
+} from "../Core/LandscapeObjectRegistry"
+import {ManipulationTracker} from "../Core/ManipulationTracker"
+import {PlacementValidator} from "../Placement/PlacementValidator"
+import {boundsDistance} from "../Utils/ColliderBounds"
+import {placeFacingCamera} from "../Utils/FaceCamera"
+import {formatLength, MeasurementUnit} from "./MeasurementFormat"
+
+// Height of the label above the dragged object, in cm
+const LABEL_HEIGHT_OFFSET = 5
+
+type NearestObject = {
+  placedObject: PlacedObject
+  /**
+   * Gap between the collider boxes of both objects, in cm.
+   */
+  distance: number
+}
+
+/**
+ * Shows how far an object being dragged is from the nearest other placed
+ * object, measured between their collider boxes, and optionally draws a
+ * line to it.
+ */
+@component
+export class NearestObjectReadout extends BaseScriptComponent {
+  @input
+  @hint("Text showing the distance, placed above the dragged object")
+  label!: Text
+  @input
+  @allowUndefined
+  @hint(
+    "Material of the line to the nearest object. Leave empty to hide the line.",
+  )
+  lineMaterial: Material | undefined
+  @input
+  @widget(
+    new ComboBoxWidget([
+      new ComboBoxItem("Auto", "Auto"),
+      new ComboBoxItem("cm", "cm"),
+      new ComboBoxItem("m", "m"),
+    ]),
+  )
+  unit: string = "Auto"
+
+  private registry = LandscapeObjectRegistry.getInstance()
+  private tracker = ManipulationTracker.getInstance()
+  private validator = new PlacementValidator()
+
+  private line: LineRenderer | null = null
+
+  // Keep track of "Unsubscribe" functions when adding callbacks to tracker events, to ensure proper cleanup on destroy
+  private unsubscribeBag: unsubscribe[] = []
+
+  onAwake(): void {
+    this.hide()
+    this.unsubscribeBag.push(
+      this.tracker.onManipulationUpdated.add((event) => {
+        if (this.enabled) {
+          this.show(event.placedObject)
+        }
+      }),
+      this.tracker.onManipulationEnded.add(() => this.hide()),
+    )
+    this.createEvent("OnDisableEvent").bind(() => this.hide())
+    this.createEvent("OnDestroyEvent").bind(() => {
+      this.unsubscribeBag.forEach((unsubscribe) => unsubscribe())
+      this.unsubscribeBag = []
+      this.line?.destroy()
+    })
+  }
+
+  /**
+   * Returns the placed object closest to the given one, or null if it is
+   * the only one with colliders.
+   */
+  findNearest(placedObject: PlacedObject): NearestObject | null {
+    const bounds = this.validator.getWorldBounds(placedObject)
+    if (bounds === null) {
+      return null
+    }
+
+    let nearest: NearestObject | null = null
+    for (const other of this.registry.getAll()) {
+      if (other.id === placedObject.id || !other.sceneObject.enabled) {
+        continue
+      }
+      const otherBounds = this.validator.getWorldBounds(other)
+      if (otherBounds === null) {
+        continue
+      }
+      const distance = boundsDistance(bounds, otherBounds)
+      if (nearest === null || distance < nearest.distance) {
+        nearest = {placedObject: other, distance: distance}
+      }
+    }
+    return nearest
+  }
+
+  private show(placedObject: PlacedObject): void {
+    const nearest = this.findNearest(placedObject)
+    if (nearest === null) {
+      this.hide()
+      return
+    }
+
+    const from = placedObject.sceneObject.getTransform().getWorldPosition()
+    const to = nearest.placedObject.sceneObject
+      .getTransform()
+      .getWorldPosition()
+
+    const labelObject = this.label.getSceneObject()
+    labelObject.enabled = true
+    this.label.text = formatLength(
+      nearest.distance,
+      this.unit as MeasurementUnit,
+    )
+    const position = from.add(new vec3(0, LABEL_HEIGHT_OFFSET, 0))
+    placeFacingCamera(labelObject.getTransform(), position)
+
+    if (this.lineMaterial === undefined) {
+      return
+    }
+    if (this.line === null) {
+      this.line = new LineRenderer({
+        material: this.lineMaterial,
+        points: [from, to],
+        startWidth: 0.2,
+        endWidth: 0.2,
+      })
+      this.line.getSceneObject().setParent(this.getSceneObject())
+    } else {
+      this.line.points = [from, to]
+    }
+    this.line.setEnabled(true)
+  }
+
+  private hide(): void {
+    this.label.getSceneObject().enabled = false
+    this.line?.setEnabled(false)
+  }
+}
@@ -0,0 +1,225 @@
+import {HandInputData} from "SpectaclesInteractionKit/Providers/HandInputData/HandInputData"
+import {unsubscribe} from "SpectaclesInteractionKit/Utils/Event"
+import LineRenderer from "SpectaclesInteractionKit/Utils/views/LineRenderer/LineRenderer"
+import {placeFacingCamera} from "../Utils/FaceCamera"
+import {HandRaycaster} from "../Utils/HandRaycaster"
+import {polygonArea} from "../Utils/PolygonMath"
+import {formatArea, formatLength, MeasurementUnit} from "./MeasurementFormat"
+
+// Height of the ruler line above the surfaces it was measured on, in cm
+const LINE_HEIGHT_OFFSET = 0.5
+
+// Height of the label above the line, in cm
+const LABEL_HEIGHT_OFFSET = 3
+
+/**
+ * Measures the landscape with the dominant hand's ray:
+ * - in Distance mode, pinch two points to measure the segment between them,
+ * - in Area mode, pinch the corners of a polygon and pinch near the first
+ *   corner again to close it and measure its area on the ground plane.
+ * Pinching while targeting an Interactable is left to the Interactable.
+ */
+@component
+export class RulerTool extends BaseScriptComponent {
+  @input
+  @widget(
+    new ComboBoxWidget([
+      new ComboBoxItem("Distance", "Distance"),
+      new ComboBoxItem("Area", "Area"),
+    ]),
+  )
+  mode: string = "Distance"
+  @input
+  @widget(
+    new ComboBoxWidget([
+      new ComboBoxItem("Auto", "Auto"),
+      new ComboBoxItem("cm", "cm"),
+      new ComboBoxItem("m", "m"),
+    ]),
+  )
+  unit: string = "Auto"
+  @input
+  lineMaterial!: Material
+  @input
+  @hint("Text showing the measurement, placed above the line")
+  label!: Text
+  @input
+  @showIf("mode", "Area")
+  @hint(
+    "Pinching within this distance of the first corner closes the polygon, in cm",
+  )
+  closeDistance: number = 5
+
+  private raycaster = new HandRaycaster()
+  private handInputData = HandInputData.getInstance()
+
+  private points: vec3[] = []
+  private closed = false
+  private hoverPoint: vec3 | null = null
+  private line: LineRenderer | null = null
+
+  // Keep track of "Unsubscribe" functions when adding callbacks to hand events, to ensure proper cleanup on destroy
+  private unsubscribeBag: unsubscribe[] = []
+
+  onAwake(): void {
+    this.label.getSceneObject().enabled = false
+    this.unsubscribeBag.push(
+      this.handInputData
+        .getDominantHand()
+        .onPinchDown.add(() => this.addPoint()),
+    )
+    this.createEvent("UpdateEvent").bind(() => this.onUpdate())
+    this.createEvent("OnDisableEvent").bind(() => this.clear())
+    this.createEvent("OnDestroyEvent").bind(() => {
+      this.unsubscribeBag.forEach((unsubscribe) => unsubscribe())
+      this.unsubscribeBag = []
+      this.line?.destroy()
+    })
+  }
+
+  /**
+   * Switches between Distance and Area, e.g. from a PinchButton.
+   */
+  setMode(mode: string): void {
+    this.clear()
+    this.mode = mode
+  }
+
+  /**
+   * Removes the current measurement. Can be bound to a PinchButton.
+   */
+  clear(): void {
+    this.points = []
+    this.closed = false
+    this.hoverPoint = null
+    this.line?.setEnabled(false)
+    this.label.getSceneObject().enabled = false
+  }
+
+  /**
+   * Returns the measured length in cm, or the measured area in cm² in Area
+   * mode, or null while the measurement is incomplete.
+   */
+  getMeasurement(): number | null {
+    if (this.mode === "Area") {
+      return this.closed
+        ? polygonArea(this.getGroundPolygon(this.points))
+        : null
+    }
+    return this.points.length === 2
+      ? this.points[0].distance(this.points[1])
+      : null
+  }
+
+  private isComplete(): boolean {
+    return this.mode === "Area" ? this.closed : this.points.length === 2
+  }
+
+  private addPoint(): void {
+    if (!this.enabled) {
+      return
+    }
+    const interactor = this.raycaster.getDominantInteractor()
+    if (interactor === null || interactor.currentInteractable !== null) {
+      return
+    }
+
+    this.raycaster.cast((hit) => {
+      if (hit === null) {
+        return
+      }
+      if (this.isComplete()) {
+        this.clear()
+      }
+
+      if (
+        this.mode === "Area" &&
+        this.points.length >= 3 &&
+        this.points[0].distance(hit.position) <= this.closeDistance
+      ) {
+        this.closed = true
+      } else {
+        this.points.push(hit.position)
+      }
+      this.refresh()
+    })
+  }
+
+  private onUpdate(): void {
+    if (this.points.length === 0 || this.isComplete()) {
+      return
+    }
+    // Preview the next point where the ray currently lands
+    this.raycaster.cast((hit) => {
+      this.hoverPoint = hit?.position ?? null
+      this.refresh()
+    })
+  }
+
+  private refresh(): void {
+    const points = [...this.points]
+    if (this.closed) {
+      points.push(this.points[0])
+    } else if (this.hoverPoint !== null) {
+      points.push(this.hoverPoint)
+    }
+    if (points.length < 2) {
+      this.line?.setEnabled(false)
+      this.label.getSceneObject().enabled = false
+      return
+    }
+
+    const offset = new vec3(0, LINE_HEIGHT_OFFSET, 0)
+    this.updateLine(points.map((point) => point.add(offset)))
+    this.updateLabel(points)
+  }
+
+  private updateLine(points: vec3[]): void {
+    if (this.line === null) {
+      this.line = new LineRenderer({
+        material: this.lineMaterial,
+        points: points,
+        startWidth: 0.3,
+        endWidth: 0.3,
+      })
+      this.line.getSceneObject().setParent(this.getSceneObject())
+    } else {
+      this.line.points = points
+    }
+    this.line.setEnabled(true)
+  }
+
+  private updateLabel(points: vec3[]): void {
+    const unit = this.unit as MeasurementUnit
+    let text: string
+    let anchor: vec3
+    if (this.mode === "Area") {
+      // The preview closes the polygon through the hovered point
+      const corners = this.closed ? this.points : points
+      text =
+        corners.length >= 3
+          ? formatArea(polygonArea(this.getGroundPolygon(corners)), unit)
+          : formatLength(corners[0].distance(corners[1]), unit)
+      anchor = corners
+        .reduce((sum, point) => sum.add(point), vec3.zero())
+        .uniformScale(1 / corners.length)
+    } else {
+      const start = points[0]
+      const end = points[points.length - 1]
+      text = formatLength(start.distance(end), unit)
+      anchor = start.add(end).uniformScale(0.5)
+    }
+
+    const labelObject = this.label.getSceneObject()
+    labelObject.enabled = true
+    this.label.text = text
+
+    const position = anchor.add(new vec3(0, LABEL_HEIGHT_OFFSET, 0))
+    placeFacingCamera(labelObject.getTransform(), position)
+  }
+
+  // Areas are measured on the ground plane, like marquee selections
+  private getGroundPolygon(points: vec3[]): vec2[] {
+    return points.map((point) => new vec2(point.x, point.z))
+  }
+}
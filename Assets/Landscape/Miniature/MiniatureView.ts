@@ -0,0 +1,295 @@
+import {InteractableManipulation} from "SpectaclesInteractionKit/Components/Interaction/InteractableManipulation/InteractableManipulation"
+import {Interactable} from "SpectaclesInteractionKit/Components/Interaction/Interactable/Interactable"
+import {ContainerFrame} from "SpectaclesInteractionKit/Components/UI/ContainerFrame/ContainerFrame"
+import WorldCameraFinderProvider from "SpectaclesInteractionKit/Providers/CameraProvider/WorldCameraFinderProvider"
+import {unsubscribe} from "SpectaclesInteractionKit/Utils/Event"
+import {
+  LandscapeObjectRegistry,
+  PlacedObject,
+} from "../Core/LandscapeObjectRegistry"
+import {ManipulationTracker} from "../Core/ManipulationTracker"
+import {PrefabPool} from "../Core/PrefabPool"
+import {
+  applyTransform,
+  captureTransform,
+  snapshotsEqual,
+  TransformSnapshot,
+} from "../Core/TransformSnapshot"
+import {LandscapeHistory} from "../History/LandscapeHistory"
+import {TransformCommand} from "../History/TransformCommand"
+import {excludeFromRaycasts} from "../Utils/RaycastExclusions"
+
+type MiniatureProxy = {
+  placedObject: PlacedObject
+  sceneObject: SceneObject
+  /**
+   * Pose of the full-scale object when the proxy was grabbed, or null while
+   * the proxy is not held.
+   */
+  startPose: TransformSnapshot | null
+  unsubscribeBag: unsubscribe[]
+}
+
+/**
+ * World-in-miniature view of the landscape: a tabletop-scale copy of every
+ * placed object inside a ContainerFrame, so objects out of reach can still be
+ * edited. Moving a proxy with its InteractableManipulation moves the
+ * full-scale object as an undoable edit, and full-scale objects moved any
+ * other way move their proxies along. A viewport indicator shows where the
+ * user stands in the landscape. Landscape raycasts, e.g. for placing and
+ * measuring, pass through the proxies.
+ *
+ * The miniature shows the landscape relative to the landscape root, which is
+ * expected to be rotated around the Y axis only. Enable and disable this
+ * component to enter and leave the mode.
+ */
+@component
+export class MiniatureView extends BaseScriptComponent {
+  @input
+  frame!: ContainerFrame
+  @input
+  @hint(
+    "Parent of the proxies, placed on the frame where the landscape origin should appear",
+  )
+  content!: SceneObject
+  @input
+  @hint("Size of the miniature relative to the full-scale landscape")
+  miniatureScale: number = 0.05
+  @input
+  @allowUndefined
+  @hint(
+    "Full-scale object the landscape is laid out around. Leave empty to use the world origin.",
+  )
+  landscapeRoot: SceneObject | undefined
+  @input
+  @allowUndefined
+  @hint(
+    "Marker moved to the user's position and heading inside the miniature, at its own scale",
+  )
+  viewportIndicator: SceneObject | undefined
+
+  private registry = LandscapeObjectRegistry.getInstance()
+  private tracker = ManipulationTracker.getInstance()
+  private history = LandscapeHistory.getInstance()
+  private pool = PrefabPool.getInstance()
+  private camera = WorldCameraFinderProvider.getInstance()
+
+  private proxies: Map<string, MiniatureProxy> = new Map()
+
+  // Keep track of "Unsubscribe" functions when adding callbacks to registry events and excluding the proxies from raycasts, to ensure proper cleanup on disable
+  private unsubscribeBag: unsubscribe[] = []
+
+  onAwake(): void {
+    this.frame.getSceneObject().enabled = false
+    this.createEvent("OnEnableEvent").bind(() => this.show())
+    this.createEvent("OnDisableEvent").bind(() => this.hide())
+    this.createEvent("UpdateEvent").bind(() => this.onUpdate())
+    this.createEvent("OnDestroyEvent").bind(() => this.hide())
+  }
+
+  /**
+   * Returns the proxy of a placed object, or null if it has none, e.g.
+   * while the miniature is hidden.
+   */
+  getProxy(id: string): SceneObject | null {
+    return this.proxies.get(id)?.sceneObject ?? null
+  }
+
+  private show(): void {
+    this.frame.getSceneObject().enabled = true
+    this.content
+      .getTransform()
+      .setLocalScale(vec3.one().uniformScale(this.miniatureScale))
+    this.registry
+      .getAll()
+      .forEach((placedObject) => this.addProxy(placedObject))
+    this.unsubscribeBag.push(
+      excludeFromRaycasts(this.content),
+      this.registry.onObjectAdded.add((placedObject) =>
+        this.addProxy(placedObject),
+      ),
+      this.registry.onObjectRemoved.add((placedObject) =>
+        this.removeProxy(placedObject.id),
+      ),
+      this.registry.onObjectReplaced.add((event) =>
+        this.addProxy(event.placedObject),
+      ),
+    )
+  }
+
+  private hide(): void {
+    this.unsubscribeBag.forEach((unsubscribe) => unsubscribe())
+    this.unsubscribeBag = []
+    for (const id of [...this.proxies.keys()]) {
+      this.removeProxy(id)
+    }
+    if (!isNull(this.frame)) {
+      this.frame.getSceneObject().enabled = false
+    }
+  }
+
+  private addProxy(placedObject: PlacedObject): void {
+    this.removeProxy(placedObject.id)
+
+    const sceneObject = this.pool.acquire(placedObject.prefab, this.content)
+    const proxy: MiniatureProxy = {
+      placedObject: placedObject,
+      sceneObject: sceneObject,
+      startPose: null,
+      unsubscribeBag: [],
+    }
+    this.syncProxy(proxy)
+
+    const manipulation = sceneObject.getComponent(
+      InteractableManipulation.getTypeName(),
+    )
+    if (!isNull(manipulation)) {
+      proxy.unsubscribeBag.push(
+        manipulation.onManipulationStart.add(() => {
+          proxy.startPose = captureTransform(
+            placedObject.sceneObject.getTransform(),
+          )
+        }),
+        manipulation.onManipulationUpdate.add(() => this.syncObject(proxy)),
+        manipulation.onManipulationEnd.add(() => this.endProxyDrag(proxy)),
+      )
+    }
+    this.proxies.set(placedObject.id, proxy)
+  }
+
+  private removeProxy(id: string): void {
+    const proxy = this.proxies.get(id)
+    if (proxy === undefined) {
+      return
+    }
+    proxy.unsubscribeBag.forEach((unsubscribe) => unsubscribe())
+    // syncProxy mirrors locked layers, so unlock the proxy before it is reused
+    if (!isNull(proxy.sceneObject)) {
+      const interactable = proxy.sceneObject.getComponent(
+        Interactable.getTypeName(),
+      )
+      if (!isNull(interactable)) {
+        interactable.enabled = true
+      }
+    }
+    this.pool.release(proxy.placedObject.prefab, proxy.sceneObject)
+    this.proxies.delete(id)
+  }
+
+  private onUpdate(): void {
+    // Proxies held by the user drive their objects instead
+    this.proxies.forEach((proxy) => {
+      if (proxy.startPose === null) {
+        this.syncProxy(proxy)
+      }
+    })
+    this.updateViewportIndicator()
+  }
+
+  // Full-scale to miniature: the proxy's local pose is the object's pose relative to the landscape root
+  private syncProxy(proxy: MiniatureProxy): void {
+    const object = proxy.placedObject.sceneObject
+    if (isNull(object)) {
+      return
+    }
+    const transform = object.getTransform()
+    const proxyTransform = proxy.sceneObject.getTransform()
+    proxyTransform.setLocalPosition(
+      this.toLandscapePosition(transform.getWorldPosition()),
+    )
+    proxyTransform.setLocalRotation(
+      this.getRootRotation().invert().multiply(transform.getWorldRotation()),
+    )
+    proxyTransform.setLocalScale(transform.getWorldScale())
+    proxy.sceneObject.enabled = object.enabled
+
+    // Objects on locked layers stay locked in the miniature
+    const interactable = object.getComponent(Interactable.getTypeName())
+    const proxyInteractable = proxy.sceneObject.getComponent(
+      Interactable.getTypeName(),
+    )
+    if (!isNull(interactable) && !isNull(proxyInteractable)) {
+      proxyInteractable.enabled = interactable.enabled
+    }
+  }
+
+  // Miniature to full-scale
+  private syncObject(proxy: MiniatureProxy): void {
+    const transform = proxy.placedObject.sceneObject.getTransform()
+    const proxyTransform = proxy.sceneObject.getTransform()
+    transform.setWorldPosition(
+      this.toWorldPosition(proxyTransform.getLocalPosition()),
+    )
+    transform.setWorldRotation(
+      this.getRootRotation().multiply(proxyTransform.getLocalRotation()),
+    )
+    transform.setWorldScale(proxyTransform.getLocalScale())
+  }
+
+  private endProxyDrag(proxy: MiniatureProxy): void {
+    const before = proxy.startPose
+    proxy.startPose = null
+    if (before === null) {
+      return
+    }
+
+    // Snapping and placement rules apply as if the full-scale object was released
+    this.syncObject(proxy)
+    const placedObject = proxy.placedObject
+    const transform = placedObject.sceneObject.getTransform()
+    const after = this.tracker.resolvePose(
+      placedObject,
+      captureTransform(transform),
+    )
+    applyTransform(transform, after)
+    this.syncProxy(proxy)
+
+    if (!snapshotsEqual(before, after)) {
+      this.history.record(new TransformCommand(placedObject.id, before, after))
+    }
+  }
+
+  private updateViewportIndicator(): void {
+    if (this.viewportIndicator === undefined) {
+      return
+    }
+
+    // Stand the marker on the ground below the user, facing where they look; the camera looks along its back vector
+    const position = this.toLandscapePosition(this.camera.getWorldPosition())
+    position.y = 0
+    const forward = this.getRootRotation()
+      .invert()
+      .multiplyVec3(this.camera.back())
+    forward.y = 0
+
+    const transform = this.viewportIndicator.getTransform()
+    transform.setLocalPosition(position)
+    if (forward.length > 0) {
+      transform.setLocalRotation(quat.lookAt(forward.normalize(), vec3.up()))
+    }
+  }
+
+  private getRootRotation(): quat {
+    return this.landscapeRoot !== undefined
+      ? this.landscapeRoot.getTransform().getWorldRotation()
+      : quat.quatIdentity()
+  }
+
+  private getRootPosition(): vec3 {
+    return this.landscapeRoot !== undefined
+      ? this.landscapeRoot.getTransform().getWorldPosition()
+      : vec3.zero()
+  }
+
+  private toLandscapePosition(worldPosition: vec3): vec3 {
+    return this.getRootRotation()
+      .invert()
+      .multiplyVec3(worldPosition.sub(this.getRootPosition()))
+  }
+
+  private toWorldPosition(landscapePosition: vec3): vec3 {
+    return this.getRootPosition().add(
+      this.getRootRotation().multiplyVec3(landscapePosition),
+    )
+  }
+}
@@ -0,0 +1,38 @@
+import {unsubscribe} from "SpectaclesInteractionKit/Utils/Event"
+import {DeleteCommand} from "../History/DeleteCommand"
+import {LandscapeHistory} from "../History/LandscapeHistory"
+import {ToolModeName} from "./ToolMode"
+import {ToolModeManager} from "./ToolModeManager"
+
+/**
+ * Deletes placed objects when they are tapped, as an undoable edit. Bind it
+ * to an Erase mode that does not allow manipulation, so pinching an object
+ * taps it instead of grabbing it. Nothing is deleted outside the Erase mode,
+ * or while the active mode lets objects be grabbed.
+ */
+@component
+export class EraseTool extends BaseScriptComponent {
+  private modes = ToolModeManager.getInstance()
+  private history = LandscapeHistory.getInstance()
+
+  // Keep track of "Unsubscribe" functions when adding callbacks to tool mode events, to ensure proper cleanup on destroy
+  private unsubscribeBag: unsubscribe[] = []
+
+  onAwake(): void {
+    this.unsubscribeBag.push(
+      this.modes.onObjectTapped.add((event) => {
+        if (
+          this.enabled &&
+          this.modes.isActive(ToolModeName.Erase) &&
+          event.mode?.allowsManipulation === false
+        ) {
+          this.history.execute(new DeleteCommand(event.placedObject))
+        }
+      }),
+    )
+    this.createEvent("OnDestroyEvent").bind(() => {
+      this.unsubscribeBag.forEach((unsubscribe) => unsubscribe())
+      this.unsubscribeBag = []
+    })
+  }
+}
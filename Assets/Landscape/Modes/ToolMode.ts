@@ -0,0 +1,38 @@
+/**
+ * Names of the built-in tool modes.
+ */
+export enum ToolModeName {
+  Place = "Place",
+  Select = "Select",
+  Scatter = "Scatter",
+  Erase = "Erase",
+  Measure = "Measure",
+}
+
+/**
+ * A mode of the hand-held tool, e.g. placing or erasing objects. Only one
+ * mode is active at a time; see ToolModeManager.
+ */
+export interface ToolMode {
+  /**
+   * Unique name of the mode, usually one of {@link ToolModeName}.
+   */
+  readonly name: string
+
+  /**
+   * Whether placed objects can be grabbed and moved while the mode is
+   * active. Otherwise pinching a placed object only taps it.
+   */
+  readonly allowsManipulation: boolean
+
+  /**
+   * Called when the mode becomes active.
+   */
+  enter(): void
+
+  /**
+   * Called when another mode becomes active. Cancel strokes, previews and
+   * other work in progress here.
+   */
+  exit(): void
+}
@@ -0,0 +1,82 @@
+import {unsubscribe} from "SpectaclesInteractionKit/Utils/Event"
+import {ToolMode, ToolModeName} from "./ToolMode"
+import {ToolModeManager} from "./ToolModeManager"
+
+/**
+ * Registers a tool mode made of existing tools: the listed components are
+ * enabled and the listed objects shown only while the mode is active. Tools
+ * already stop their strokes and previews when disabled, which serves as the
+ * mode's exit hook.
+ */
+@component
+export class ToolModeBinding extends BaseScriptComponent implements ToolMode {
+  @input
+  @widget(
+    new ComboBoxWidget([
+      new ComboBoxItem("Place", "Place"),
+      new ComboBoxItem("Select", "Select"),
+      new ComboBoxItem("Scatter", "Scatter"),
+      new ComboBoxItem("Erase", "Erase"),
+      new ComboBoxItem("Measure", "Measure"),
+    ]),
+  )
+  modeName: string = ToolModeName.Place
+  @input
+  @hint(
+    "Pinching a placed object grabs it in this mode, rather than tapping it",
+  )
+  allowsManipulation: boolean = true
+  @input
+  @hint("Tool components enabled while the mode is active, e.g. a ScatterBrush")
+  components: ScriptComponent[] = []
+  @input
+  @hint("Objects shown while the mode is active, e.g. spawn pads or cursors")
+  sceneObjects: SceneObject[] = []
+  @input
+  @hint("Activate this mode on start")
+  activateOnStart: boolean = false
+
+  private modes = ToolModeManager.getInstance()
+
+  private unregister: unsubscribe | null = null
+
+  get name(): string {
+    return this.modeName
+  }
+
+  onAwake(): void {
+    // Tools stay off until their mode is entered
+    this.setToolsEnabled(false)
+    this.unregister = this.modes.register(this)
+
+    this.createEvent("OnStartEvent").bind(() => {
+      if (this.activateOnStart) {
+        this.activate()
+      }
+    })
+    this.createEvent("OnDestroyEvent").bind(() => {
+      this.unregister?.()
+      this.unregister = null
+    })
+  }
+
+  /**
+   * Makes this the active mode. Can be bound to a PinchButton.
+   */
+  activate(): void {
+    this.modes.setMode(this.modeName)
+  }
+
+  enter(): void {
+    this.setToolsEnabled(true)
+  }
+
+  exit(): void {
+    this.setToolsEnabled(false)
+  }
+
+  private setToolsEnabled(enabled: boolean): void {
+    this.components.forEach((component) => (component.enabled = enabled))
+    this.sceneObjects.forEach((sceneObject) => (sceneObject.enabled = enabled))
+  }
+}
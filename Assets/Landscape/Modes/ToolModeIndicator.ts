@@ -0,0 +1,73 @@
+import {HandInputData} from "SpectaclesInteractionKit/Providers/HandInputData/HandInputData"
+import {unsubscribe} from "SpectaclesInteractionKit/Utils/Event"
+import {placeFacingCamera} from "../Utils/FaceCamera"
+import {ToolMode} from "./ToolMode"
+import {ToolModeManager} from "./ToolModeManager"
+
+/**
+ * Shows the active tool mode above the wrist of the non-dominant hand, so
+ * the user always knows what pinching will do. Children of the indicator
+ * named after a mode, e.g. "Erase", are only shown in that mode.
+ */
+@component
+export class ToolModeIndicator extends BaseScriptComponent {
+  @input
+  @hint("Root of the indicator, hidden while the hand is not tracked")
+  indicator!: SceneObject
+  @input
+  @allowUndefined
+  @hint("Text showing the name of the active mode")
+  label: Text | undefined
+  @input
+  @hint("Height of the indicator above the wrist, in cm")
+  heightOffset: number = 4
+
+  private modes = ToolModeManager.getInstance()
+  private handInputData = HandInputData.getInstance()
+
+  // Keep track of "Unsubscribe" functions when adding callbacks to tool mode events, to ensure proper cleanup on destroy
+  private unsubscribeBag: unsubscribe[] = []
+
+  onAwake(): void {
+    this.indicator.enabled = false
+    this.unsubscribeBag.push(
+      this.modes.onModeChanged.add((event) => this.refresh(event.current)),
+    )
+    this.createEvent("OnStartEvent").bind(() =>
+      this.refresh(this.modes.activeMode),
+    )
+    this.createEvent("UpdateEvent").bind(() => this.updateAnchor())
+    this.createEvent("OnDisableEvent").bind(() => {
+      this.indicator.enabled = false
+    })
+    this.createEvent("OnDestroyEvent").bind(() => {
+      this.unsubscribeBag.forEach((unsubscribe) => unsubscribe())
+      this.unsubscribeBag = []
+    })
+  }
+
+  private refresh(mode: ToolMode | null): void {
+    if (this.label !== undefined) {
+      this.label.text = mode?.name ?? ""
+    }
+    for (let i = 0; i < this.indicator.getChildrenCount(); i++) {
+      const child = this.indicator.getChild(i)
+      if (this.modes.getModes().some((other) => other.name === child.name)) {
+        child.enabled = child.name === mode?.name
+      }
+    }
+  }
+
+  private updateAnchor(): void {
+    const hand = this.handInputData.getNonDominantHand()
+    const visible = hand.isTracked() && this.modes.activeMode !== null
+    this.indicator.enabled = visible
+    if (!visible) {
+      return
+    }
+    placeFacingCamera(
+      this.indicator.getTransform(),
+      hand.wrist.position.add(vec3.up().uniformScale(this.heightOffset)),
+    )
+  }
+}
@@ -0,0 +1,213 @@
+import {Interactable} from "SpectaclesInteractionKit/Components/Interaction/Interactable/Interactable"
+import {InteractableManipulation} from "SpectaclesInteractionKit/Components/Interaction/InteractableManipulation/InteractableManipulation"
+import {Singleton} from "SpectaclesInteractionKit/Decorators/Singleton"
+import Event, {
+  PublicApi,
+  unsubscribe,
+} from "SpectaclesInteractionKit/Utils/Event"
+import NativeLogger from "SpectaclesInteractionKit/Utils/NativeLogger"
+import {
+  LandscapeObjectRegistry,
+  PlacedObject,
+} from "../Core/LandscapeObjectRegistry"
+import {ToolMode} from "./ToolMode"
+
+const TAG = "ToolModeManager"
+
+export type ToolModeChangedEventArg = {
+  previous: ToolMode | null
+  current: ToolMode | null
+}
+
+export type ObjectTappedEventArg = {
+  placedObject: PlacedObject
+  /**
+   * The mode that was active when the object was tapped.
+   */
+  mode: ToolMode | null
+}
+
+/**
+ * Keeps track of the tool modes and which one is active. Switching modes
+ * exits the previous one before entering the next, and decides whether
+ * pinching a placed object grabs it or only taps it.
+ *
+ * Until a mode is chosen no mode is active and placed objects can be grabbed,
+ * as before modes existed.
+ */
+@Singleton
+export class ToolModeManager {
+  public static getInstance: () => ToolModeManager
+
+  private registry = LandscapeObjectRegistry.getInstance()
+
+  // Modes in registration order, which is the order they cycle in
+  private modes: ToolMode[] = []
+  private active: ToolMode | null = null
+
+  // Keep track of "Unsubscribe" functions per placed object, to ensure proper cleanup on removal
+  private unsubscribeBags: Map<string, unsubscribe[]> = new Map()
+
+  // Native Logging
+  private log = new NativeLogger(TAG)
+
+  private onModeChangedEvent = new Event<ToolModeChangedEventArg>()
+  /**
+   * Called after the active mode has changed
+   */
+  onModeChanged: PublicApi<ToolModeChangedEventArg> =
+    this.onModeChangedEvent.publicApi()
+
+  private onObjectTappedEvent = new Event<ObjectTappedEventArg>()
+  /**
+   * Called when the user pinches and releases a placed object
+   */
+  onObjectTapped: PublicApi<ObjectTappedEventArg> =
+    this.onObjectTappedEvent.publicApi()
+
+  constructor() {
+    this.registry.getAll().forEach((placedObject) => this.track(placedObject))
+    this.registry.onObjectAdded.add((placedObject) => this.track(placedObject))
+    this.registry.onObjectRemoved.add((placedObject) =>
+      this.untrack(placedObject),
+    )
+    this.registry.onObjectReplaced.add((event) => {
+      this.untrack(event.previous)
+      this.track(event.placedObject)
+    })
+  }
+
+  /**
+   * Adds a mode that can be switched to.
+   *
+   * @returns a function that removes the mode again, exiting it if it is active.
+   */
+  register(mode: ToolMode): unsubscribe {
+    if (this.findMode(mode.name) !== null) {
+      this.log.w(`Replacing tool mode ${mode.name}`)
+      this.modes = this.modes.filter((other) => other.name !== mode.name)
+    }
+    this.modes.push(mode)
+    return () => {
+      if (this.active === mode) {
+        this.setActive(null)
+      }
+      this.modes = this.modes.filter((other) => other !== mode)
+    }
+  }
+
+  getModes(): ToolMode[] {
+    return this.modes.slice()
+  }
+
+  get activeMode(): ToolMode | null {
+    return this.active
+  }
+
+  /**
+   * Whether pinching an object grabs it in the active mode, or only taps it.
+   */
+  get allowsManipulation(): boolean {
+    return this.active?.allowsManipulation ?? true
+  }
+
+  isActive(name: string): boolean {
+    return this.active !== null && this.active.name === name
+  }
+
+  /**
+   * Switches to the mode with the given name.
+   *
+   * @returns false if no such mode is registered.
+   */
+  setMode(name: string): boolean {
+    const mode = this.findMode(name)
+    if (mode === null) {
+      this.log.w(`Unknown tool mode ${name}`)
+      return false
+    }
+    this.setActive(mode)
+    return true
+  }
+
+  /**
+   * Switches to the next registered mode, wrapping around after the last.
+   */
+  nextMode(): void {
+    if (this.modes.length === 0) {
+      return
+    }
+    const index = this.active !== null ? this.modes.indexOf(this.active) + 1 : 0
+    this.setActive(this.modes[index % this.modes.length])
+  }
+
+  private setActive(mode: ToolMode | null): void {
+    const previous = this.active
+    if (mode === previous) {
+      return
+    }
+
+    previous?.exit()
+    this.active = mode
+    this.registry
+      .getAll()
+      .forEach((placedObject) => this.applyManipulation(placedObject))
+    mode?.enter()
+
+    this.log.d(`Tool mode ${mode?.name ?? "none"}`)
+    this.onModeChangedEvent.invoke({previous: previous, current: mode})
+  }
+
+  private applyManipulation(placedObject: PlacedObject): void {
+    const manipulation = placedObject.sceneObject.getComponent(
+      InteractableManipulation.getTypeName(),
+    )
+    if (!isNull(manipulation)) {
+      manipulation.enabled = this.allowsManipulation
+    }
+  }
+
+  private track(placedObject: PlacedObject): void {
+    this.applyManipulation(placedObject)
+    if (this.unsubscribeBags.has(placedObject.id)) {
+      return
+    }
+
+    const interactable = placedObject.sceneObject.getComponent(
+      Interactable.getTypeName(),
+    )
+    if (isNull(interactable)) {
+      return
+    }
+    this.unsubscribeBags.set(placedObject.id, [
+      interactable.onTriggerEnd.add(() =>
+        this.onObjectTappedEvent.invoke({
+          placedObject: placedObject,
+          mode: this.active,
+        }),
+      ),
+    ])
+  }
+
+  private untrack(placedObject: PlacedObject): void {
+    this.unsubscribeBags.get(placedObject.id)?.forEach((unsubscribe) => {
+      unsubscribe()
+    })
+    this.unsubscribeBags.delete(placedObject.id)
+
+    // The instance may go back to the PrefabPool, so leave it grabbable
+    if (isNull(placedObject.sceneObject)) {
+      return
+    }
+    const manipulation = placedObject.sceneObject.getComponent(
+      InteractableManipulation.getTypeName(),
+    )
+    if (!isNull(manipulation)) {
+      manipulation.enabled = true
+    }
+  }
+
+  private findMode(name: string): ToolMode | null {
+    return this.modes.find((mode) => mode.name === name) ?? null
+  }
+}
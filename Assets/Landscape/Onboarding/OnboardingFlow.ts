@@ -0,0 +1,279 @@
+import {Billboard} from "SpectaclesInteractionKit/Components/Interaction/Billboard/Billboard"
+import {Headlock} from "SpectaclesInteractionKit/Components/Interaction/Headlock/Headlock"
+import {Interactable} from "SpectaclesInteractionKit/Components/Interaction/Interactable/Interactable"
+import {InteractorInputType} from "SpectaclesInteractionKit/Core/Interactor/Interactor"
+import WorldCameraFinderProvider from "SpectaclesInteractionKit/Providers/CameraProvider/WorldCameraFinderProvider"
+import {unsubscribe} from "SpectaclesInteractionKit/Utils/Event"
+import NativeLogger from "SpectaclesInteractionKit/Utils/NativeLogger"
+import StateMachine from "SpectaclesInteractionKit/Utils/StateMachine"
+import {ToolPickerBehavior} from "../../objectSpawner"
+import {ManipulationTracker} from "../Core/ManipulationTracker"
+import {hasRotated} from "../Core/TransformSnapshot"
+import {LandscapePersistence} from "../LandscapePersistence"
+import {placeFacingCamera} from "../Utils/FaceCamera"
+
+const TAG = "OnboardingFlow"
+
+enum OnboardingStep {
+  Grab = "Grab",
+  Place = "Place",
+  Rotate = "Rotate",
+  Save = "Save",
+  Done = "Done",
+  Idle = "Idle",
+}
+
+enum OnboardingSignal {
+  ToolTaken = "ToolTaken",
+  Placed = "Placed",
+  Rotated = "Rotated",
+  Saved = "Saved",
+}
+
+/**
+ * Walks new users through building their first landscape: taking an object
+ * from the tool picker, placing it, turning it with both hands and saving.
+ * Every step waits for the real action rather than a button press, and shows
+ * a hint card kept in view by a Headlock or Billboard on the card.
+ *
+ * Completion is remembered in persistent storage so the tutorial only starts
+ * on its own once. It can be skipped or replayed at any time.
+ */
+@component
+export class OnboardingFlow extends BaseScriptComponent {
+  @input
+  toolPicker!: ToolPickerBehavior
+  @input
+  persistence!: LandscapePersistence
+  @input
+  @hint("Hint card shown during the tutorial")
+  card!: SceneObject
+  @input
+  @hint("Text on the card showing the current hint")
+  cardText!: Text
+  @input
+  @widget(
+    new ComboBoxWidget([
+      new ComboBoxItem("Headlock", "Headlock"),
+      new ComboBoxItem("Billboard", "Billboard"),
+    ]),
+  )
+  @hint(
+    "Headlock follows the head. Billboard places the card in front of the user and turns it to face them.",
+  )
+  anchor: string = "Headlock"
+  @input
+  @hint("Distance of a billboarded card from the camera, in cm")
+  cardDistance: number = 60
+  @input
+  @hint("Key the completion flag is stored under in persistent storage")
+  storageKey: string = "landscape.onboarding"
+  @ui.group_start("Hints")
+  @input
+  grabHint: string = "Pinch an object on the tool picker and pull it off"
+  @input
+  placeHint: string = "Let go to place it in your landscape"
+  @input
+  rotateHint: string = "Grab an object with both hands and turn it"
+  @input
+  saveHint: string = "Save your landscape"
+  @input
+  doneHint: string = "You're all set!"
+  @input
+  @hint("Seconds the last hint stays up before the card hides")
+  doneDuration: number = 3
+  @ui.group_end
+  private tracker = ManipulationTracker.getInstance()
+  private store = global.persistentStorageSystem.store
+  private camera = WorldCameraFinderProvider.getInstance()
+
+  private stateMachine!: StateMachine
+  private hideEvent!: DelayedCallbackEvent
+  // Ids of objects grabbed with both hands during their current manipulation
+  private twoHanded: Set<string> = new Set()
+
+  // Native Logging
+  private log = new NativeLogger(TAG)
+
+  // Keep track of "Unsubscribe" functions when adding callbacks to tool picker, tracker and persistence events, to ensure proper cleanup on destroy
+  private unsubscribeBag: unsubscribe[] = []
+
+  onAwake(): void {
+    this.stateMachine = new StateMachine(TAG)
+    this.addSteps()
+    this.hideEvent = this.createEvent("DelayedCallbackEvent")
+    this.hideEvent.bind(() => {
+      // The tutorial may have been replayed while the last hint was up
+      if (this.stateMachine.currentState?.name === OnboardingStep.Done) {
+        this.stateMachine.enterState(OnboardingStep.Idle)
+      }
+    })
+    this.stateMachine.enterState(OnboardingStep.Idle)
+
+    this.createEvent("OnStartEvent").bind(() => {
+      this.unsubscribeBag.push(
+        this.toolPicker.onToolTaken.add(() =>
+          this.stateMachine.sendSignal(OnboardingSignal.ToolTaken),
+        ),
+        this.tracker.onManipulationStarted.add((event) =>
+          this.twoHanded.delete(event.placedObject.id),
+        ),
+        this.tracker.onManipulationUpdated.add((event) => {
+          const interactable = event.placedObject.sceneObject.getComponent(
+            Interactable.getTypeName(),
+          )
+          if (
+            interactable !== null &&
+            (interactable.triggeringInteractor &
+              InteractorInputType.BothHands) ===
+              InteractorInputType.BothHands
+          ) {
+            this.twoHanded.add(event.placedObject.id)
+          }
+        }),
+        this.tracker.onManipulationEnded.add((event) => {
+          const id = event.placedObject.id
+          this.stateMachine.sendSignal(OnboardingSignal.Placed)
+          if (
+            this.twoHanded.has(id) &&
+            hasRotated(event.startPose, event.endPose)
+          ) {
+            this.stateMachine.sendSignal(OnboardingSignal.Rotated)
+          }
+          this.twoHanded.delete(id)
+        }),
+        // Autosaves happen without the user, so only their own saves count
+        this.persistence.onSaved.add((event) => {
+          if (!event.automatic) {
+            this.stateMachine.sendSignal(OnboardingSignal.Saved)
+          }
+        }),
+      )
+
+      if (!this.isComplete()) {
+        this.replay()
+      }
+    })
+    this.createEvent("OnDestroyEvent").bind(() => {
+      this.unsubscribeBag.forEach((unsubscribe) => unsubscribe())
+      this.unsubscribeBag = []
+      this.stateMachine.destroy()
+    })
+  }
+
+  /**
+   * Returns true if the user has finished or skipped the tutorial before.
+   */
+  isComplete(): boolean {
+    return this.store.getBool(this.storageKey)
+  }
+
+  /**
+   * Ends the tutorial and remembers it as done. Can be bound to a
+   * PinchButton on the card.
+   */
+  skip(): void {
+    this.markComplete()
+    this.stateMachine.enterState(OnboardingStep.Idle)
+  }
+
+  /**
+   * Starts the tutorial over from the first step. Can be bound to a
+   * PinchButton.
+   */
+  replay(): void {
+    this.twoHanded.clear()
+    this.stateMachine.enterState(OnboardingStep.Grab)
+  }
+
+  private addSteps(): void {
+    this.addStep(
+      OnboardingStep.Grab,
+      () => this.grabHint,
+      OnboardingSignal.ToolTaken,
+      OnboardingStep.Place,
+    )
+    this.addStep(
+      OnboardingStep.Place,
+      () => this.placeHint,
+      OnboardingSignal.Placed,
+      OnboardingStep.Rotate,
+    )
+    this.addStep(
+      OnboardingStep.Rotate,
+      () => this.rotateHint,
+      OnboardingSignal.Rotated,
+      OnboardingStep.Save,
+    )
+    this.addStep(
+      OnboardingStep.Save,
+      () => this.saveHint,
+      OnboardingSignal.Saved,
+      OnboardingStep.Done,
+    )
+
+    this.stateMachine.addState({
+      name: OnboardingStep.Done,
+      onEnter: () => {
+        this.markComplete()
+        this.showHint(this.doneHint)
+        this.hideEvent.reset(this.doneDuration)
+      },
+    })
+    this.stateMachine.addState({
+      name: OnboardingStep.Idle,
+      onEnter: () => {
+        this.card.enabled = false
+      },
+    })
+  }
+
+  private addStep(
+    step: OnboardingStep,
+    getHint: () => string,
+    signal: OnboardingSignal,
+    nextStep: OnboardingStep,
+  ): void {
+    this.stateMachine.addState({
+      name: step,
+      onEnter: () => {
+        this.log.d(`Step ${step}`)
+        this.showHint(getHint())
+      },
+      transitions: [
+        {
+          nextStateName: nextStep,
+          checkOnSignal: (received: string) => received === signal,
+        },
+      ],
+    })
+  }
+
+  private showHint(hint: string): void {
+    this.cardText.text = hint
+    if (this.card.enabled) {
+      return
+    }
+
+    const useHeadlock = this.anchor === "Headlock"
+    const headlock = this.card.getComponent(Headlock.getTypeName())
+    if (headlock !== null) {
+      headlock.enabled = useHeadlock
+    }
+    const billboard = this.card.getComponent(Billboard.getTypeName())
+    if (billboard !== null) {
+      billboard.enabled = !useHeadlock
+    }
+    if (!useHeadlock) {
+      placeFacingCamera(
+        this.card.getTransform(),
+        this.camera.getForwardPosition(this.cardDistance),
+      )
+    }
+    this.card.enabled = true
+  }
+
+  private markComplete(): void {
+    this.store.putBool(this.storageKey, true)
+  }
+}
@@ -0,0 +1,37 @@
+import {PrefabCatalog} from "../Core/PrefabCatalog"
+import {PaletteItem} from "./PaletteItem"
+
+/**
+ * A named group of palette assets, e.g. a content pack. Every
+ * {@link PaletteItem} on a child SceneObject belongs to the category.
+ */
+@component
+export class PaletteCategory extends BaseScriptComponent {
+  @input
+  categoryName: string = "Nature"
+
+  private catalog = PrefabCatalog.getInstance()
+
+  onAwake(): void {
+    this.getItems().forEach((item) => {
+      this.catalog.register(item.prefab, item.getMetadata(this.categoryName))
+    })
+  }
+
+  /**
+   * Returns the items of this category, in hierarchy order.
+   */
+  getItems(): PaletteItem[] {
+    const items: PaletteItem[] = []
+    const sceneObject = this.getSceneObject()
+    for (let i = 0; i < sceneObject.getChildrenCount(); i++) {
+      const item = sceneObject
+        .getChild(i)
+        .getComponent(PaletteItem.getTypeName())
+      if (!isNull(item)) {
+        items.push(item)
+      }
+    }
+    return items
+  }
+}
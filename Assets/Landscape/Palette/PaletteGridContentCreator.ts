@@ -0,0 +1,221 @@
+import {
+  Interactable,
+  InteractableEventArgs,
+} from "SpectaclesInteractionKit/Components/Interaction/Interactable/Interactable"
+import {ScrollView} from "SpectaclesInteractionKit/Components/UI/ScrollView/ScrollView"
+import WorldCameraFinderProvider from "SpectaclesInteractionKit/Providers/CameraProvider/WorldCameraFinderProvider"
+import {
+  Interactor,
+  InteractorInputType,
+} from "SpectaclesInteractionKit/Core/Interactor/Interactor"
+import {InteractorEvent} from "SpectaclesInteractionKit/Core/Interactor/InteractorEvent"
+import {HandInputData} from "SpectaclesInteractionKit/Providers/HandInputData/HandInputData"
+import {unsubscribe} from "SpectaclesInteractionKit/Utils/Event"
+import {PrefabCatalog} from "../Core/PrefabCatalog"
+import {LandscapeSpawner} from "../Spawning/LandscapeSpawner"
+import {PaletteCategory} from "./PaletteCategory"
+import {PaletteItem} from "./PaletteItem"
+import {PaletteTile} from "./PaletteTile"
+
+const TAG = "PaletteGridContentCreator"
+
+// Distance in front of the camera assets spawn at when no hand is tracked, in cm
+const FALLBACK_SPAWN_DISTANCE = 40
+
+/**
+ * Fills a ScrollView with one tile per asset of the selected palette
+ * category. Pinching a tile spawns the asset at the pinching hand and grabs
+ * it with the same pinch, so it can be carried into the landscape.
+ */
+@component
+export class PaletteGridContentCreator extends BaseScriptComponent {
+  @input
+  scrollView!: ScrollView
+  @input
+  tilePrefab!: ObjectPrefab
+  @input
+  categories: PaletteCategory[] = []
+  @input
+  @allowUndefined
+  @hint("Text showing the name of the selected category")
+  categoryLabel: Text | undefined
+  @input
+  columns: number = 3
+  @input("vec2", "{5.4, 5.4}")
+  @hint("Spacing between tiles in ScreenTransform units")
+  cellSize: vec2 = new vec2(5.4, 5.4)
+
+  private catalog = PrefabCatalog.getInstance()
+  private spawner = LandscapeSpawner.getInstance()
+  private handInputData = HandInputData.getInstance()
+  private camera = WorldCameraFinderProvider.getInstance()
+
+  private tiles: SceneObject[] = []
+  private categoryIndex = 0
+
+  onAwake(): void {
+    if (this.categories.length === 0) {
+      throw new Error(`${TAG}: categories array is empty!`)
+    }
+
+    // Wait for OnStart so the categories have registered their items
+    this.createEvent("OnStartEvent").bind(() => {
+      this.showCategory(0)
+    })
+  }
+
+  /**
+   * Shows the tiles of the category at the given index.
+   */
+  showCategory(index: number): void {
+    const count = this.categories.length
+    this.categoryIndex = ((index % count) + count) % count
+    const category = this.categories[this.categoryIndex]
+
+    if (this.categoryLabel !== undefined) {
+      this.categoryLabel.text = category.categoryName
+    }
+    this.createTiles(category.getItems())
+  }
+
+  /**
+   * Shows the next category, wrapping around after the last one.
+   */
+  nextCategory(): void {
+    this.showCategory(this.categoryIndex + 1)
+  }
+
+  /**
+   * Shows the previous category, wrapping around before the first one.
+   */
+  previousCategory(): void {
+    this.showCategory(this.categoryIndex - 1)
+  }
+
+  private createTiles(items: PaletteItem[]): void {
+    this.tiles.forEach((tile) => tile.destroy())
+    this.tiles = []
+
+    const sceneObj = this.getSceneObject()
+    const paletteTileTypeName = PaletteTile.getTypeName()
+
+    for (let i = 0; i < items.length; i++) {
+      const item = items[i]
+      const tile = this.tilePrefab.instantiate(sceneObj)
+      const column = i % this.columns
+      const row = Math.floor(i / this.columns)
+      const screenTransform = tile.getComponent("Component.ScreenTransform")
+      screenTransform.offsets.setCenter(
+        new vec2(
+          (column - (this.columns - 1) / 2) * this.cellSize.x,
+          -row * this.cellSize.y,
+        ),
+      )
+      tile.enabled = true
+
+      const paletteTile: PaletteTile | null =
+        tile.getComponent(paletteTileTypeName)
+      if (paletteTile !== null) {
+        paletteTile.init(this.catalog.getMetadata(item.prefab), (event) =>
+          this.spawnIntoHand(item.prefab, event),
+        )
+      }
+      this.tiles.push(tile)
+    }
+
+    this.scrollView.recomputeBoundaries()
+  }
+
+  private spawnIntoHand(prefab: ObjectPrefab, event: InteractorEvent): void {
+    const metadata = this.catalog.getMetadata(prefab)
+    const placedObject = this.spawner.spawn(prefab, {
+      position: this.getSpawnPosition(event.interactor),
+      rotation: quat.quatIdentity(),
+      scale: vec3.one().uniformScale(metadata.defaultScale),
+    })
+
+    const interactable: Interactable | null =
+      placedObject.sceneObject.getComponent(Interactable.getTypeName())
+    if (interactable !== null) {
+      this.grab(interactable, event.interactable, event.interactor)
+    }
+  }
+
+  // The interactor keeps targeting the tile until the pinch ends, so the
+  // instance is sent the trigger events of the tile for that interactor,
+  // which makes its InteractableManipulation follow the pinch.
+  private grab(
+    interactable: Interactable,
+    tile: Interactable,
+    interactor: Interactor,
+  ): void {
+    const eventArgs: InteractableEventArgs = {
+      interactor: interactor,
+      target: interactable,
+      propagationPhase: "Target",
+      stopPropagation: () => {},
+    }
+    interactable.triggerStart(eventArgs)
+
+    const unsubscribeBag: unsubscribe[] = []
+    const release = () => {
+      unsubscribeBag.forEach((unsubscribeCallback) => unsubscribeCallback())
+    }
+    const isGrabbing = () =>
+      !isNull(interactable) &&
+      (interactable.triggeringInteractor & interactor.inputType) !== 0
+
+    unsubscribeBag.push(
+      tile.onTriggerUpdate.add((event) => {
+        if (event.interactor !== interactor) {
+          return
+        }
+        if (!isGrabbing()) {
+          release()
+          return
+        }
+        // Once the interactor targets the instance itself, it gets its
+        // events from the InteractionManager
+        if (interactor.currentInteractable !== interactable) {
+          interactable.triggerUpdate(eventArgs)
+        }
+      }),
+    )
+    unsubscribeBag.push(
+      tile.onInteractorTriggerEnd.add((event) => {
+        if (event.interactor === interactor) {
+          if (isGrabbing()) {
+            interactable.triggerEnd(eventArgs)
+          }
+          release()
+        }
+      }),
+    )
+    unsubscribeBag.push(
+      tile.onTriggerCanceled.add((event) => {
+        if (event.interactor === interactor) {
+          if (isGrabbing()) {
+            interactable.triggerCanceled(eventArgs)
+          }
+          release()
+        }
+      }),
+    )
+  }
+
+  private getSpawnPosition(interactor: Interactor): vec3 {
+    if ((interactor.inputType & InteractorInputType.BothHands) !== 0) {
+      const hand = this.handInputData.getHand(
+        interactor.inputType === InteractorInputType.LeftHand
+          ? "left"
+          : "right",
+      )
+      if (hand.isTracked()) {
+        return hand.indexTip.position
+          .add(hand.thumbTip.position)
+          .uniformScale(0.5)
+      }
+    }
+    return this.camera.getForwardPosition(FALLBACK_SPAWN_DISTANCE)
+  }
+}
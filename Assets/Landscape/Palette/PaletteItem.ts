@@ -0,0 +1,56 @@
+import {PrefabMetadata} from "../Core/PrefabCatalog"
+
+/**
+ * Describes one asset in the palette. Place it on a child of a
+ * {@link PaletteCategory} to add the asset to that category.
+ */
+@component
+export class PaletteItem extends BaseScriptComponent {
+  @input
+  prefab!: ObjectPrefab
+  @input
+  @hint("Name shown on the palette tile. Leave empty to use the prefab name.")
+  displayName: string = ""
+  @input
+  @allowUndefined
+  thumbnail: Texture | undefined
+  @input
+  @hint("Uniform scale applied when the asset is spawned from the palette")
+  defaultScale: number = 1
+  @input
+  @hint(
+    "Surfaces the asset may be placed on, e.g. Ground or Water. Leave empty to allow every surface.",
+  )
+  allowedSurfaces: string[] = []
+  @input
+  @hint("Surface the asset forms for assets placed on top of it, e.g. Water")
+  surfaceName: string = "Object"
+  @input
+  @hint(
+    "Names or categories of the assets this asset may overlap. Leave empty to forbid every overlap.",
+  )
+  canOverlap: string[] = []
+  @input
+  @widget(new SliderWidget(0, 90, 5))
+  @hint(
+    "Largest angle, in degrees, the asset tilts to follow the surface it is dropped on",
+  )
+  maxTilt: number = 0
+
+  /**
+   * Returns the catalog metadata described by this item.
+   */
+  getMetadata(category: string): PrefabMetadata {
+    return {
+      displayName:
+        this.displayName.length > 0 ? this.displayName : this.prefab.name,
+      category: category,
+      defaultScale: this.defaultScale,
+      allowedSurfaces: this.allowedSurfaces,
+      surfaceName: this.surfaceName,
+      canOverlap: this.canOverlap,
+      maxTilt: this.maxTilt,
+      thumbnail: this.thumbnail ?? null,
+    }
+  }
+}
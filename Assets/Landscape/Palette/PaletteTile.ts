@@ -0,0 +1,47 @@
+import {Interactable} from "SpectaclesInteractionKit/Components/Interaction/Interactable/Interactable"
+import {InteractorEvent} from "SpectaclesInteractionKit/Core/Interactor/InteractorEvent"
+import {validate} from "SpectaclesInteractionKit/Utils/validate"
+import {PrefabMetadata} from "../Core/PrefabCatalog"
+
+/**
+ * A single tile of the palette grid. Shows the asset's name and thumbnail and
+ * notifies the grid when a pinch on it starts, so the asset can be grabbed
+ * by the same pinch.
+ */
+@component
+export class PaletteTile extends BaseScriptComponent {
+  @input
+  label!: Text
+  @input
+  @allowUndefined
+  thumbnail: Image | undefined
+
+  private interactable: Interactable | null = null
+
+  /**
+   * Fills in the tile for an asset.
+   *
+   * @param metadata - the asset to present.
+   * @param onPicked - called when a pinch on the tile starts.
+   */
+  init(
+    metadata: PrefabMetadata,
+    onPicked: (event: InteractorEvent) => void,
+  ): void {
+    this.label.text = metadata.displayName
+
+    if (this.thumbnail !== undefined) {
+      this.thumbnail.enabled = metadata.thumbnail !== null
+      if (metadata.thumbnail !== null) {
+        this.thumbnail.mainMaterial = this.thumbnail.mainMaterial.clone()
+        this.thumbnail.mainPass.baseTex = metadata.thumbnail
+      }
+    }
+
+    this.interactable = this.getSceneObject().getComponent(
+      Interactable.getTypeName(),
+    )
+    validate(this.interactable, "PaletteTile requires an Interactable")
+    this.interactable.onInteractorTriggerStart.add((event) => onPicked(event))
+  }
+}
@@ -0,0 +1,290 @@
+import {InteractableManipulation} from "SpectaclesInteractionKit/Components/Interaction/InteractableManipulation/InteractableManipulation"
+import {unsubscribe} from "SpectaclesInteractionKit/Utils/Event"
+import LineRenderer from "SpectaclesInteractionKit/Utils/views/LineRenderer/LineRenderer"
+import {
+  ExclusionZoneRegistry,
+  PolylineExclusionZone,
+} from "../Core/ExclusionZones"
+import {
+  isVec3Record,
+  recordToVec3,
+  Vec3Record,
+  vec3ToRecord,
+} from "../Core/LandscapeDocument"
+import {PrefabCatalog} from "../Core/PrefabCatalog"
+import {PrefabPool} from "../Core/PrefabPool"
+import {sampleAtSpacing, sampleCatmullRom} from "./Spline"
+
+// Number of spline samples between two control points
+const SAMPLES_PER_SEGMENT = 8
+
+// Height of the ribbon above the control points, in cm
+const RIBBON_HEIGHT_OFFSET = 0.3
+
+export type PathRecord = {
+  id: string
+  points: Vec3Record[]
+  /**
+   * Width of the ribbon and of the exclusion zone around the path, in cm.
+   */
+  width: number
+  /**
+   * Prefab repeated along the path, e.g. fence posts, or null for none.
+   */
+  propPrefabName: string | null
+  /**
+   * Distance between two props along the path, in cm.
+   */
+  propSpacing: number
+  /**
+   * Sideways distance of the props from the center of the path, in cm.
+   */
+  propOffset: number
+}
+
+/**
+ * Returns true if the value has the shape of a {@link PathRecord}, e.g. when
+ * loading it from a document.
+ */
+export function isPathRecord(value: unknown): value is PathRecord {
+  if (value === null || typeof value !== "object") {
+    return false
+  }
+  const record = value as {[key: string]: unknown}
+  return (
+    typeof record.id === "string" &&
+    Array.isArray(record.points) &&
+    record.points.every(isVec3Record) &&
+    typeof record.width === "number" &&
+    (record.propPrefabName === null ||
+      typeof record.propPrefabName === "string") &&
+    typeof record.propSpacing === "number" &&
+    typeof record.propOffset === "number"
+  )
+}
+
+/**
+ * Called when the user finished dragging a control point handle.
+ */
+export type PathEditedCallback = (before: PathRecord, after: PathRecord) => void
+
+/**
+ * A path drawn across the landscape, e.g. a road, river or fence. Renders
+ * the Catmull-Rom spline through its control points as a ribbon, repeats its
+ * prop prefab along it and keeps scattered and placed objects off it through
+ * an exclusion zone.
+ */
+export class LandscapePath {
+  private catalog = PrefabCatalog.getInstance()
+  private pool = PrefabPool.getInstance()
+  private zones = ExclusionZoneRegistry.getInstance()
+
+  private root: SceneObject
+  private ribbon: LineRenderer | null = null
+  private props: SceneObject[] = []
+  private handles: SceneObject[] = []
+  private removeZone: unsubscribe | null = null
+  private handlesVisible = false
+
+  // Keep track of "Unsubscribe" functions per handle, to ensure proper cleanup when handles are removed
+  private handleUnsubscribeBags: unsubscribe[][] = []
+
+  constructor(
+    private record: PathRecord,
+    parent: SceneObject,
+    private material: Material,
+    private handlePrefab: ObjectPrefab | null,
+    private onEdited: PathEditedCallback,
+  ) {
+    this.root = global.scene.createSceneObject(record.id)
+    this.root.setParent(parent)
+    this.rebuild(true)
+  }
+
+  get id(): string {
+    return this.record.id
+  }
+
+  getRecord(): PathRecord {
+    return {...this.record, points: [...this.record.points]}
+  }
+
+  setRecord(record: PathRecord): void {
+    this.record = {...record, points: [...record.points]}
+    this.rebuild(true)
+  }
+
+  /**
+   * Shows or hides the control point handles, e.g. while the path tool is
+   * active.
+   */
+  setHandlesVisible(visible: boolean): void {
+    this.handlesVisible = visible
+    this.handles.forEach((handle) => (handle.enabled = visible))
+  }
+
+  destroy(): void {
+    this.removeZone?.()
+    this.removeZone = null
+    this.releaseProps()
+    this.handleUnsubscribeBags.forEach((bag) =>
+      bag.forEach((unsubscribe) => unsubscribe()),
+    )
+    this.handleUnsubscribeBags = []
+    this.ribbon?.destroy()
+    this.root.destroy()
+  }
+
+  private getControlPoints(): vec3[] {
+    return this.record.points.map(recordToVec3)
+  }
+
+  // Props are only rebuilt once an edit is done, so dragging a handle stays cheap
+  private rebuild(withProps: boolean): void {
+    const polyline = sampleCatmullRom(
+      this.getControlPoints(),
+      SAMPLES_PER_SEGMENT,
+    )
+    this.updateRibbon(polyline)
+    this.updateZone(polyline)
+    this.updateHandles()
+    if (withProps) {
+      this.updateProps(polyline)
+    }
+  }
+
+  private updateRibbon(polyline: vec3[]): void {
+    if (polyline.length < 2) {
+      this.ribbon?.setEnabled(false)
+      return
+    }
+
+    const offset = new vec3(0, RIBBON_HEIGHT_OFFSET, 0)
+    const points = polyline.map((point) => point.add(offset))
+    if (this.ribbon === null) {
+      this.ribbon = new LineRenderer({
+        material: this.material,
+        points: points,
+        startWidth: this.record.width,
+        endWidth: this.record.width,
+      })
+      this.ribbon.getSceneObject().setParent(this.root)
+    } else {
+      this.ribbon.points = points
+      this.ribbon.startWidth = this.record.width
+      this.ribbon.endWidth = this.record.width
+    }
+    this.ribbon.setEnabled(true)
+  }
+
+  private updateZone(polyline: vec3[]): void {
+    this.removeZone?.()
+    this.removeZone = this.zones.add(
+      new PolylineExclusionZone(
+        polyline.map((point) => new vec2(point.x, point.z)),
+        this.record.width / 2,
+        true,
+      ),
+    )
+  }
+
+  private updateProps(polyline: vec3[]): void {
+    this.releaseProps()
+    const prefab =
+      this.record.propPrefabName !== null
+        ? this.catalog.findByName(this.record.propPrefabName)
+        : null
+    if (prefab === null) {
+      return
+    }
+
+    for (const sample of sampleAtSpacing(polyline, this.record.propSpacing)) {
+      const side = sample.tangent.cross(vec3.up()).normalize()
+      const prop = this.pool.acquire(prefab, this.root)
+      // Props follow the path, they are not placed objects
+      this.setManipulable(prop, false)
+      const transform = prop.getTransform()
+      transform.setWorldPosition(
+        sample.position.add(side.uniformScale(this.record.propOffset)),
+      )
+      transform.setWorldRotation(quat.lookAt(sample.tangent, vec3.up()))
+      this.props.push(prop)
+    }
+  }
+
+  private releaseProps(): void {
+    const prefab =
+      this.record.propPrefabName !== null
+        ? this.catalog.findByName(this.record.propPrefabName)
+        : null
+    this.props.forEach((prop) => {
+      if (prefab !== null) {
+        this.setManipulable(prop, true)
+        this.pool.release(prefab, prop)
+      } else {
+        prop.destroy()
+      }
+    })
+    this.props = []
+  }
+
+  private setManipulable(prop: SceneObject, manipulable: boolean): void {
+    const manipulation = prop.getComponent(
+      InteractableManipulation.getTypeName(),
+    )
+    if (!isNull(manipulation)) {
+      manipulation.enabled = manipulable
+    }
+  }
+
+  private updateHandles(): void {
+    if (this.handlePrefab === null) {
+      return
+    }
+
+    const points = this.getControlPoints()
+    while (this.handles.length < points.length) {
+      this.handles.push(this.createHandle(this.handles.length))
+    }
+    while (this.handles.length > points.length) {
+      this.handleUnsubscribeBags.pop()!.forEach((unsubscribe) => unsubscribe())
+      this.handles.pop()!.destroy()
+    }
+    points.forEach((point, index) =>
+      this.handles[index].getTransform().setWorldPosition(point),
+    )
+  }
+
+  private createHandle(index: number): SceneObject {
+    const handle = this.handlePrefab!.instantiate(this.root)
+    handle.enabled = this.handlesVisible
+
+    const unsubscribeBag: unsubscribe[] = []
+    const manipulation = handle.getComponent(
+      InteractableManipulation.getTypeName(),
+    )
+    if (!isNull(manipulation)) {
+      let before: PathRecord | null = null
+      unsubscribeBag.push(
+        manipulation.onManipulationStart.add(() => {
+          before = this.getRecord()
+        }),
+        manipulation.onManipulationUpdate.add(() => {
+          this.record.points[index] = vec3ToRecord(
+            handle.getTransform().getWorldPosition(),
+          )
+          this.rebuild(false)
+        }),
+        manipulation.onManipulationEnd.add(() => {
+          this.rebuild(true)
+          if (before !== null) {
+            this.onEdited(before, this.getRecord())
+            before = null
+          }
+        }),
+      )
+    }
+    this.handleUnsubscribeBags.push(unsubscribeBag)
+    return handle
+  }
+}
@@ -0,0 +1,25 @@
+import {LandscapeCommand} from "../History/LandscapeCommand"
+import {PathRecord} from "./LandscapePath"
+import {PathTool} from "./PathTool"
+
+/**
+ * Changes a path between two states, e.g. before and after adding or
+ * dragging a control point. A null state means the path does not exist.
+ */
+export class PathCommand implements LandscapeCommand {
+  constructor(
+    readonly label: string,
+    private tool: PathTool,
+    private pathId: string,
+    private before: PathRecord | null,
+    private after: PathRecord | null,
+  ) {}
+
+  execute(): void {
+    this.tool.setPath(this.pathId, this.after)
+  }
+
+  undo(): void {
+    this.tool.setPath(this.pathId, this.before)
+  }
+}
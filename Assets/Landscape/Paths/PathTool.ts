@@ -0,0 +1,299 @@
+import {HandInputData} from "SpectaclesInteractionKit/Providers/HandInputData/HandInputData"
+import {unsubscribe} from "SpectaclesInteractionKit/Utils/Event"
+import NativeLogger from "SpectaclesInteractionKit/Utils/NativeLogger"
+import {isDescendantOf} from "SpectaclesInteractionKit/Utils/SceneObjectUtils"
+import {vec3ToRecord} from "../Core/LandscapeDocument"
+import {LandscapeObjectRegistry} from "../Core/LandscapeObjectRegistry"
+import {isSectionObject, LandscapeSections} from "../Core/LandscapeSections"
+import {PrefabCatalog} from "../Core/PrefabCatalog"
+import {LandscapeHistory} from "../History/LandscapeHistory"
+import {HandRaycaster} from "../Utils/HandRaycaster"
+import {isPathRecord, LandscapePath, PathRecord} from "./LandscapePath"
+import {PathCommand} from "./PathCommand"
+
+const TAG = "PathTool"
+
+const SECTION_NAME = "paths"
+
+type PathsRecord = {
+  paths: PathRecord[]
+}
+
+/**
+ * Draws roads, rivers and fences across the landscape. Pinching the ground
+ * with the dominant hand adds a control point to the path being drawn, and
+ * the handles of the control points can be dragged to reshape any path. Each
+ * path is drawn as a ribbon along a Catmull-Rom spline, optionally lined with
+ * props, and keeps scattered and placed objects off it. Paths are saved with
+ * the landscape as the "paths" section, and every edit can be undone.
+ *
+ * Width and props apply to paths started afterwards.
+ */
+@component
+export class PathTool extends BaseScriptComponent {
+  @input
+  ribbonMaterial!: Material
+  @input
+  @hint("Width of the ribbon, and of the strip kept free of objects, in cm")
+  width: number = 10
+  @input
+  @allowUndefined
+  @hint(
+    "Prefab with an InteractableManipulation shown on each control point, to drag it",
+  )
+  handlePrefab: ObjectPrefab | undefined
+  @ui.group_start("Props")
+  @input
+  @allowUndefined
+  @hint(
+    "Prefab repeated along the path, e.g. fence posts. Must be registered in the PrefabCatalog to be saved.",
+  )
+  propPrefab: ObjectPrefab | undefined
+  @input
+  @hint("Distance between two props along the path, in cm")
+  propSpacing: number = 20
+  @input
+  @hint(
+    "Sideways distance of the props from the center of the path, in cm. Negative values place them on the left.",
+  )
+  propOffset: number = 0
+  @ui.group_end
+  private raycaster = new HandRaycaster()
+  private handInputData = HandInputData.getInstance()
+  private registry = LandscapeObjectRegistry.getInstance()
+  private catalog = PrefabCatalog.getInstance()
+  private history = LandscapeHistory.getInstance()
+  private sections = LandscapeSections.getInstance()
+
+  private paths: Map<string, LandscapePath> = new Map()
+  private activePathId: string | null = null
+  private nextId = 1
+
+  private unsubscribeSection: unsubscribe | null = null
+
+  // Keep track of "Unsubscribe" functions when adding callbacks to hand events, to ensure proper cleanup on destroy
+  private unsubscribeBag: unsubscribe[] = []
+
+  // Native Logging
+  private log = new NativeLogger(TAG)
+
+  onAwake(): void {
+    if (this.propPrefab !== undefined) {
+      this.catalog.register(this.propPrefab)
+    }
+
+    this.unsubscribeBag.push(
+      this.handInputData
+        .getDominantHand()
+        .onPinchDown.add(() => this.addPoint()),
+    )
+    this.unsubscribeSection = this.sections.register({
+      name: SECTION_NAME,
+      save: (): PathsRecord => ({
+        paths: [...this.paths.values()].map((path) => path.getRecord()),
+      }),
+      load: (data) => this.loadPaths(data),
+    })
+    this.createEvent("OnEnableEvent").bind(() => this.setHandlesVisible(true))
+    this.createEvent("OnDisableEvent").bind(() => {
+      this.finishPath()
+      this.setHandlesVisible(false)
+    })
+    this.createEvent("OnDestroyEvent").bind(() => {
+      this.unsubscribeBag.forEach((unsubscribe) => unsubscribe())
+      this.unsubscribeBag = []
+      this.unsubscribeSection?.()
+      this.unsubscribeSection = null
+      this.paths.forEach((path) => path.destroy())
+      this.paths.clear()
+    })
+  }
+
+  getPaths(): PathRecord[] {
+    return [...this.paths.values()].map((path) => path.getRecord())
+  }
+
+  /**
+   * Stops adding points to the current path, so the next pinch starts a new
+   * one. Can be bound to a PinchButton.
+   */
+  finishPath(): void {
+    this.activePathId = null
+  }
+
+  /**
+   * Removes the path being drawn, or the last drawn one, as an undoable edit.
+   * Can be bound to a PinchButton.
+   */
+  deletePath(): void {
+    const id = this.activePathId ?? [...this.paths.keys()].pop() ?? null
+    if (id === null) {
+      return
+    }
+    this.history.execute(
+      new PathCommand(
+        `Delete path ${id}`,
+        this,
+        id,
+        this.paths.get(id)!.getRecord(),
+        null,
+      ),
+    )
+  }
+
+  /**
+   * Removes every path as a single undoable edit. Can be bound to a
+   * PinchButton.
+   */
+  clearPaths(): void {
+    if (this.paths.size === 0) {
+      return
+    }
+    this.history.beginGroup("Clear paths")
+    for (const path of [...this.paths.values()]) {
+      this.history.execute(
+        new PathCommand(
+          `Delete path ${path.id}`,
+          this,
+          path.id,
+          path.getRecord(),
+          null,
+        ),
+      )
+    }
+    this.history.endGroup()
+  }
+
+  /**
+   * Creates, replaces or removes a path, e.g. from a {@link PathCommand}.
+   *
+   * @param record - the new state of the path, or null to remove it.
+   */
+  setPath(id: string, record: PathRecord | null): void {
+    const path = this.paths.get(id)
+    if (record === null) {
+      path?.destroy()
+      this.paths.delete(id)
+      if (this.activePathId === id) {
+        this.activePathId = null
+      }
+      return
+    }
+
+    if (path !== undefined) {
+      path.setRecord(record)
+    } else {
+      this.createPath(record)
+    }
+  }
+
+  private createPath(record: PathRecord): LandscapePath {
+    const path = new LandscapePath(
+      record,
+      this.getSceneObject(),
+      this.ribbonMaterial,
+      this.handlePrefab ?? null,
+      (before, after) =>
+        this.history.record(
+          new PathCommand(
+            `Edit path ${record.id}`,
+            this,
+            record.id,
+            before,
+            after,
+          ),
+        ),
+    )
+    path.setHandlesVisible(this.enabled)
+    this.paths.set(record.id, path)
+    return path
+  }
+
+  private addPoint(): void {
+    if (!this.enabled) {
+      return
+    }
+    const interactor = this.raycaster.getDominantInteractor()
+    if (interactor === null || interactor.currentInteractable !== null) {
+      return
+    }
+
+    this.raycaster.cast(
+      (hit) => {
+        if (hit === null) {
+          return
+        }
+
+        const id = this.activePathId ?? `path_${this.nextId++}`
+        const before = this.paths.get(id)?.getRecord() ?? null
+        const after: PathRecord =
+          before !== null
+            ? {
+                ...before,
+                points: [...before.points, vec3ToRecord(hit.position)],
+              }
+            : this.createRecord(id, hit.position)
+        this.activePathId = id
+        this.history.execute(
+          new PathCommand(
+            before === null ? `Start path ${id}` : `Extend path ${id}`,
+            this,
+            id,
+            before,
+            after,
+          ),
+        )
+      },
+      // Draw on the ground, not on placed objects or the props of other paths
+      (sceneObject) =>
+        this.registry.findContaining(sceneObject) !== null ||
+        isDescendantOf(sceneObject, this.getSceneObject()),
+    )
+  }
+
+  private createRecord(id: string, firstPoint: vec3): PathRecord {
+    return {
+      id: id,
+      points: [vec3ToRecord(firstPoint)],
+      width: this.width,
+      propPrefabName: this.propPrefab?.name ?? null,
+      propSpacing: this.propSpacing,
+      propOffset: this.propOffset,
+    }
+  }
+
+  private loadPaths(data: unknown): void {
+    this.paths.forEach((path) => path.destroy())
+    this.paths.clear()
+    this.activePathId = null
+    this.nextId = 1
+
+    const records =
+      isSectionObject(data) && Array.isArray(data.paths) ? data.paths : []
+    for (const record of records) {
+      if (!isPathRecord(record)) {
+        this.log.w("Skipping invalid path record")
+        continue
+      }
+      if (
+        record.propPrefabName !== null &&
+        this.catalog.findByName(record.propPrefabName) === null
+      ) {
+        this.log.w(
+          `Unknown prop prefab ${record.propPrefabName} for ${record.id}`,
+        )
+      }
+      this.createPath(record)
+
+      // Keep new ids clear of the loaded ones
+      const index = parseInt(record.id.replace("path_", ""))
+      if (!isNaN(index)) {
+        this.nextId = Math.max(this.nextId, index + 1)
+      }
+    }
+  }
+
+  private setHandlesVisible(visible: boolean): void {
+    this.paths.forEach((path) => path.setHandlesVisible(visible))
+  }
+}
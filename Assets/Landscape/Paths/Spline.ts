@@ -0,0 +1,112 @@
+/**
+ * A point along a polyline with the direction the polyline runs in there.
+ */
+export type SplineSample = {
+  position: vec3
+  tangent: vec3
+}
+
+/**
+ * Evaluates the uniform Catmull-Rom segment between p1 and p2.
+ *
+ * @param t - position along the segment, 0 at p1 and 1 at p2.
+ */
+export function catmullRom(
+  p0: vec3,
+  p1: vec3,
+  p2: vec3,
+  p3: vec3,
+  t: number,
+): vec3 {
+  const t2 = t * t
+  const t3 = t2 * t
+  return p1
+    .uniformScale(2)
+    .add(p2.sub(p0).uniformScale(t))
+    .add(
+      p0
+        .uniformScale(2)
+        .sub(p1.uniformScale(5))
+        .add(p2.uniformScale(4))
+        .sub(p3)
+        .uniformScale(t2),
+    )
+    .add(
+      p1
+        .uniformScale(3)
+        .sub(p0)
+        .sub(p2.uniformScale(3))
+        .add(p3)
+        .uniformScale(t3),
+    )
+    .uniformScale(0.5)
+}
+
+/**
+ * Samples the Catmull-Rom spline through the control points. The spline
+ * passes through every control point; the end points are repeated so it
+ * also reaches the first and last one.
+ *
+ * @param samplesPerSegment - number of samples between two control points.
+ * @returns the sampled polyline, or a copy of the control points if there are fewer than 3.
+ */
+export function sampleCatmullRom(
+  points: vec3[],
+  samplesPerSegment: number,
+): vec3[] {
+  if (points.length < 3) {
+    return [...points]
+  }
+
+  const samples: vec3[] = []
+  const last = points.length - 1
+  for (let i = 0; i < last; i++) {
+    const p0 = points[Math.max(0, i - 1)]
+    const p3 = points[Math.min(last, i + 2)]
+    for (let s = 0; s < samplesPerSegment; s++) {
+      samples.push(
+        catmullRom(p0, points[i], points[i + 1], p3, s / samplesPerSegment),
+      )
+    }
+  }
+  samples.push(points[last])
+  return samples
+}
+
+/**
+ * Returns points spaced evenly along a polyline, starting at its first
+ * point.
+ *
+ * @param spacing - distance between two consecutive samples along the polyline, in cm.
+ */
+export function sampleAtSpacing(
+  polyline: vec3[],
+  spacing: number,
+): SplineSample[] {
+  const samples: SplineSample[] = []
+  if (polyline.length < 2 || spacing <= 0) {
+    return samples
+  }
+
+  let untilNext = 0
+  for (let i = 0; i < polyline.length - 1; i++) {
+    const start = polyline[i]
+    const segment = polyline[i + 1].sub(start)
+    const length = segment.length
+    if (length === 0) {
+      continue
+    }
+
+    const tangent = segment.uniformScale(1 / length)
+    let travelled = untilNext
+    while (travelled <= length) {
+      samples.push({
+        position: start.add(tangent.uniformScale(travelled)),
+        tangent: tangent,
+      })
+      travelled += spacing
+    }
+    untilNext = travelled - length
+  }
+  return samples
+}
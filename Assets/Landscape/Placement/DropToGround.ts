@@ -0,0 +1,350 @@
+import {unsubscribe} from "SpectaclesInteractionKit/Utils/Event"
+import {isDescendantOf} from "SpectaclesInteractionKit/Utils/SceneObjectUtils"
+import {aabb} from "SpectaclesInteractionKit/Utils/aabb"
+import {SpringAnimate} from "SpectaclesInteractionKit/Utils/springAnimate"
+import {
+  LandscapeObjectRegistry,
+  PlacedObject,
+} from "../Core/LandscapeObjectRegistry"
+import {
+  ManipulationTracker,
+  PlacementAdjuster,
+  PlacementPriority,
+} from "../Core/ManipulationTracker"
+import {PrefabCatalog} from "../Core/PrefabCatalog"
+import {
+  applyTransform,
+  snapshotsEqual,
+  TransformSnapshot,
+} from "../Core/TransformSnapshot"
+import {getLocalColliderBounds, transformBounds} from "../Utils/ColliderBounds"
+import {isExcludedFromRaycasts} from "../Utils/RaycastExclusions"
+import {alignToNormal} from "./SnapMath"
+
+// Movement larger than this between frames means something else moved a falling object
+const MOVED_EPSILON = 0.01
+const SETTLED_SPEED = 1
+const SETTLED_DISTANCE = 0.1
+
+type SurfaceHit = {
+  position: vec3
+  normal: vec3
+}
+
+type Drop = {
+  placedObject: PlacedObject
+  from: TransformSnapshot
+  to: TransformSnapshot
+  // Null until the first frame, when the object is moved back to where it was released
+  lastPosition: vec3 | null
+  fallSpeed: number
+  // Set once the object hits the surface and bounces
+  spring: SpringAnimate | null
+  settleTime: number
+}
+
+/**
+ * Drops objects released in mid-air onto the surface below them. The landing
+ * pose is decided on release, after snapping and before the placement rules
+ * run, so the rules, the history and other tools only ever see the landed
+ * pose. The object then falls there from the height it was released at and
+ * settles with a small bounce, its colliders resting on the surface.
+ * Prefabs with a max tilt tilt to follow the surface by at most that angle;
+ * others keep their rotation.
+ *
+ * Grabbing a falling object, or moving it any other way, stops its fall.
+ */
+@component
+export class DropToGround extends BaseScriptComponent {
+  @input
+  @hint("How far below the object to look for a surface, in cm")
+  rayLength: number = 500
+  @input
+  @hint(
+    "Objects released closer to the surface than this are put on it without falling, in cm",
+  )
+  minimumHeight: number = 1
+  @input
+  @hint(
+    "Tilt dropped objects to follow the surface they land on, by at most their prefab's max tilt",
+  )
+  alignToSurface: boolean = true
+  @ui.group_start("Motion")
+  @input
+  @hint("Acceleration of falling objects, in cm/s²")
+  gravity: number = 980
+  @input
+  @widget(new SliderWidget(0, 1, 0.05))
+  @hint("Share of the landing speed the object bounces back up with")
+  bounciness: number = 0.2
+  @input
+  @hint("Stiffness of the spring settling the object after it lands")
+  settleStiffness: number = 300
+  @input
+  @hint("Damping of the spring settling the object after it lands")
+  settleDamping: number = 12
+  @input
+  @hint("Longest time an object may take to settle, in seconds")
+  maxSettleTime: number = 1
+  @ui.group_end
+  private registry = LandscapeObjectRegistry.getInstance()
+  private tracker = ManipulationTracker.getInstance()
+  private catalog = PrefabCatalog.getInstance()
+  private probe = Physics.createGlobalProbe()
+
+  private surfaceHits: Map<string, SurfaceHit> = new Map()
+  // Latest pose of each held object before any adjuster ran
+  private releasePoses: Map<string, TransformSnapshot> = new Map()
+  // Collider bounds of each held object in its local space, null for objects without colliders
+  private localBounds: Map<string, aabb | null> = new Map()
+  private drops: Map<string, Drop> = new Map()
+
+  private unsubscribeAdjuster: unsubscribe | null = null
+  private unsubscribeEvents: unsubscribe[] = []
+
+  private adjuster: PlacementAdjuster = {
+    priority: PlacementPriority.Dropping,
+    adjust: (placedObject, pose) => this.landPose(placedObject, pose),
+  }
+
+  onAwake(): void {
+    this.enableDropping()
+    this.createEvent("OnEnableEvent").bind(() => this.enableDropping())
+    this.createEvent("OnDisableEvent").bind(() => this.disableDropping())
+    this.createEvent("OnDestroyEvent").bind(() => this.disableDropping())
+    this.createEvent("UpdateEvent").bind(() => this.updateDrops())
+  }
+
+  private enableDropping(): void {
+    if (this.unsubscribeAdjuster !== null) {
+      return
+    }
+
+    this.unsubscribeAdjuster = this.tracker.addAdjuster(this.adjuster)
+    this.unsubscribeEvents = [
+      this.tracker.onManipulationStarted.add((event) => {
+        this.drops.delete(event.placedObject.id)
+      }),
+      this.tracker.onManipulationUpdated.add((event) => {
+        this.releasePoses.set(event.placedObject.id, event.currentPose)
+        this.updateSurfaceHit(event.placedObject)
+      }),
+      this.tracker.onManipulationEnded.add((event) => {
+        this.startDrop(event.placedObject, event.endPose)
+        this.releasePoses.delete(event.placedObject.id)
+        this.surfaceHits.delete(event.placedObject.id)
+        this.localBounds.delete(event.placedObject.id)
+      }),
+      this.registry.onObjectRemoved.add((placedObject) => {
+        this.drops.delete(placedObject.id)
+      }),
+      this.registry.onObjectReplaced.add((event) => {
+        this.drops.delete(event.placedObject.id)
+      }),
+    ]
+  }
+
+  private disableDropping(): void {
+    this.unsubscribeAdjuster?.()
+    this.unsubscribeAdjuster = null
+    this.unsubscribeEvents.forEach((unsubscribe) => unsubscribe())
+    this.unsubscribeEvents = []
+    this.surfaceHits.clear()
+    this.releasePoses.clear()
+    this.localBounds.clear()
+    // Land every falling object at once, where the rest of the landscape already thinks it is
+    this.drops.forEach((drop) =>
+      applyTransform(drop.placedObject.sceneObject.getTransform(), drop.to),
+    )
+    this.drops.clear()
+  }
+
+  private landPose(
+    placedObject: PlacedObject,
+    pose: TransformSnapshot,
+  ): TransformSnapshot {
+    const hit = this.surfaceHits.get(placedObject.id)
+    if (hit === undefined) {
+      return pose
+    }
+
+    const maxTilt = this.catalog.getMetadata(placedObject.prefab).maxTilt
+    const rotation =
+      this.alignToSurface && maxTilt > 0
+        ? alignToNormal(pose.rotation, hit.normal, maxTilt)
+        : pose.rotation
+    // Rest the bottom of the colliders on the surface rather than the pivot
+    const y =
+      hit.position.y - this.getBottomOffset(placedObject, rotation, pose.scale)
+    return {
+      position: new vec3(pose.position.x, y, pose.position.z),
+      rotation: rotation,
+      scale: pose.scale,
+    }
+  }
+
+  // Offset along world Y from the pivot to the lowest point of the object's colliders, negative when below the pivot
+  private getBottomOffset(
+    placedObject: PlacedObject,
+    rotation: quat,
+    scale: vec3,
+  ): number {
+    if (!this.localBounds.has(placedObject.id)) {
+      this.localBounds.set(
+        placedObject.id,
+        getLocalColliderBounds(placedObject.sceneObject),
+      )
+    }
+    const bounds = this.localBounds.get(placedObject.id) ?? null
+    if (bounds === null) {
+      return 0
+    }
+    return transformBounds(bounds, mat4.compose(vec3.zero(), rotation, scale))
+      .min.y
+  }
+
+  // Raycasts resolve through a callback, so the latest hit is cached during the drag and used on release
+  private updateSurfaceHit(placedObject: PlacedObject): void {
+    const start = placedObject.sceneObject.getTransform().getWorldPosition()
+    const end = start.add(vec3.down().uniformScale(this.rayLength))
+    this.probe.rayCastAll(start, end, (hits: RayCastHit[]) => {
+      // RaycastHits are automatically sorted from nearest to farthest
+      for (const hit of hits) {
+        const sceneObject = hit.collider.getSceneObject()
+        if (
+          !isDescendantOf(sceneObject, placedObject.sceneObject) &&
+          !isExcludedFromRaycasts(sceneObject)
+        ) {
+          this.surfaceHits.set(placedObject.id, {
+            position: hit.position,
+            normal: hit.normal,
+          })
+          return
+        }
+      }
+      this.surfaceHits.delete(placedObject.id)
+    })
+  }
+
+  private startDrop(
+    placedObject: PlacedObject,
+    endPose: TransformSnapshot,
+  ): void {
+    const rawPose = this.releasePoses.get(placedObject.id)
+    if (rawPose === undefined) {
+      return
+    }
+
+    // The pose the object would have had without dropping, e.g. snapped to the grid, at the height it was released
+    const snapped = this.tracker.resolvePose(
+      placedObject,
+      rawPose,
+      PlacementPriority.Dropping,
+    )
+    const from = {
+      ...snapped,
+      position: new vec3(
+        snapped.position.x,
+        rawPose.position.y,
+        snapped.position.z,
+      ),
+    }
+    // Only animate if the end pose is the landing, and not e.g. a rejection sending the object back
+    const landing = this.landPose(placedObject, snapped)
+    if (
+      landing === snapped ||
+      !snapshotsEqual(landing, endPose) ||
+      from.position.y - landing.position.y < this.minimumHeight
+    ) {
+      return
+    }
+
+    this.drops.set(placedObject.id, {
+      placedObject: placedObject,
+      from: from,
+      to: endPose,
+      lastPosition: null,
+      fallSpeed: 0,
+      spring: null,
+      settleTime: 0,
+    })
+  }
+
+  private updateDrops(): void {
+    const deltaTime = getDeltaTime()
+    for (const [id, drop] of Array.from(this.drops.entries())) {
+      const transform = drop.placedObject.sceneObject.getTransform()
+      if (drop.lastPosition === null) {
+        // Other listeners of the release still saw the landed pose
+        transform.setWorldPosition(drop.from.position)
+        transform.setWorldRotation(drop.from.rotation)
+        drop.lastPosition = drop.from.position
+      } else if (
+        transform.getWorldPosition().distance(drop.lastPosition) > MOVED_EPSILON
+      ) {
+        // Moved by an undo, the inspector or another peer
+        this.drops.delete(id)
+        continue
+      }
+
+      if (drop.spring === null) {
+        this.fall(drop, transform, deltaTime)
+      } else if (this.settle(drop, drop.spring, transform, deltaTime)) {
+        applyTransform(transform, drop.to)
+        this.drops.delete(id)
+      }
+    }
+  }
+
+  private fall(drop: Drop, transform: Transform, deltaTime: number): void {
+    const lastPosition = drop.lastPosition ?? drop.from.position
+    drop.fallSpeed += this.gravity * deltaTime
+    const y = lastPosition.y - drop.fallSpeed * deltaTime
+    if (y <= drop.to.position.y) {
+      drop.spring = new SpringAnimate(
+        this.settleStiffness,
+        this.settleDamping,
+        1,
+      )
+      drop.spring.velocity = vec3
+        .up()
+        .uniformScale(drop.fallSpeed * this.bounciness)
+      transform.setWorldPosition(drop.to.position)
+      transform.setWorldRotation(drop.to.rotation)
+      drop.lastPosition = drop.to.position
+      return
+    }
+
+    const position = new vec3(lastPosition.x, y, lastPosition.z)
+    const progress =
+      (drop.from.position.y - y) / (drop.from.position.y - drop.to.position.y)
+    transform.setWorldPosition(position)
+    transform.setWorldRotation(
+      quat.slerp(drop.from.rotation, drop.to.rotation, progress),
+    )
+    drop.lastPosition = position
+  }
+
+  /**
+   * @returns true once the object has come to rest.
+   */
+  private settle(
+    drop: Drop,
+    spring: SpringAnimate,
+    transform: Transform,
+    deltaTime: number,
+  ): boolean {
+    const position = spring.evaluate(
+      drop.lastPosition ?? drop.to.position,
+      drop.to.position,
+    )
+    drop.settleTime += deltaTime
+    transform.setWorldPosition(position)
+    drop.lastPosition = position
+    return (
+      drop.settleTime >= this.maxSettleTime ||
+      (spring.velocity.length < SETTLED_SPEED &&
+        position.distance(drop.to.position) < SETTLED_DISTANCE)
+    )
+  }
+}
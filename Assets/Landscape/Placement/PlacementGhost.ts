@@ -0,0 +1,57 @@
+import {applyTransform, TransformSnapshot} from "../Core/TransformSnapshot"
+import {getComponentsInHierarchy} from "../Utils/SceneObjectUtils"
+
+/**
+ * A non-interactive copy of a prefab used to preview where an object will
+ * end up.
+ */
+export class PlacementGhost {
+  private sceneObject: SceneObject
+
+  /**
+   * @param prefab - the prefab to preview.
+   * @param material - optional material applied to every mesh of the ghost.
+   */
+  constructor(prefab: ObjectPrefab, material?: Material) {
+    this.sceneObject = prefab.instantiate(null)
+    this.sceneObject.name = `${prefab.name} (Ghost)`
+
+    // The copy must not be grabbed, targeted or hit by placement raycasts
+    getComponentsInHierarchy(
+      this.sceneObject,
+      "Component.ScriptComponent",
+    ).forEach((script) => {
+      script.enabled = false
+    })
+    getComponentsInHierarchy(
+      this.sceneObject,
+      "Physics.ColliderComponent",
+    ).forEach((collider) => {
+      collider.enabled = false
+    })
+
+    if (material !== undefined) {
+      getComponentsInHierarchy(
+        this.sceneObject,
+        "Component.RenderMeshVisual",
+      ).forEach((visual) => {
+        visual.clearMaterials()
+        visual.addMaterial(material)
+      })
+    }
+  }
+
+  setPose(pose: TransformSnapshot): void {
+    applyTransform(this.sceneObject.getTransform(), pose)
+  }
+
+  setVisible(visible: boolean): void {
+    this.sceneObject.enabled = visible
+  }
+
+  destroy(): void {
+    if (!isNull(this.sceneObject)) {
+      this.sceneObject.destroy()
+    }
+  }
+}
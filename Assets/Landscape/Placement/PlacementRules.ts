@@ -0,0 +1,216 @@
+import {InteractableColorFeedback} from "SpectaclesInteractionKit/Components/Helpers/InteractableColorFeedback"
+import Event, {
+  PublicApi,
+  unsubscribe,
+} from "SpectaclesInteractionKit/Utils/Event"
+import {PlacedObject} from "../Core/LandscapeObjectRegistry"
+import {
+  ManipulationTracker,
+  PlacementAdjuster,
+  PlacementPriority,
+} from "../Core/ManipulationTracker"
+import {TransformSnapshot} from "../Core/TransformSnapshot"
+import {DeleteCommand} from "../History/DeleteCommand"
+import {LandscapeHistory} from "../History/LandscapeHistory"
+import {forEachInHierarchy} from "../Utils/SceneObjectUtils"
+import {PlacementValidator, PlacementVerdict} from "./PlacementValidator"
+
+export type PlacementCorrectedEventArg = {
+  placedObject: PlacedObject
+  verdict: PlacementVerdict
+  /**
+   * True if the object was moved to a nearby valid spot, false if it was
+   * sent back to where it was grabbed or removed.
+   */
+  nudged: boolean
+  /**
+   * True if the object was removed from the landscape instead, because it
+   * was dragged off a spawn pad and has no earlier spot to go back to.
+   */
+  removed: boolean
+}
+
+/**
+ * Prevents objects from being placed where the placement rules forbid it,
+ * e.g. inside another object or on a surface their prefab is not allowed on.
+ * Invalid poses are shown in red through the object's
+ * InteractableColorFeedback while it is dragged. On release the object is
+ * nudged to the nearest valid spot or sent back to where it was grabbed.
+ * Objects dragged straight off a spawn pad were never placed, so they are
+ * removed instead of being sent back.
+ */
+@component
+export class PlacementRules extends BaseScriptComponent {
+  @input
+  @widget(
+    new ComboBoxWidget([
+      new ComboBoxItem("Nudge", "Nudge"),
+      new ComboBoxItem("Reject", "Reject"),
+    ]),
+  )
+  @hint(
+    "What happens to objects released at an invalid spot. Nudged objects that cannot be moved to a valid spot are rejected.",
+  )
+  invalidAction: string = "Nudge"
+  @input
+  @showIf("invalidAction", "Nudge")
+  @hint("How far objects may be nudged, in cm")
+  nudgeDistance: number = 30
+  @input
+  @showIf("invalidAction", "Nudge")
+  @hint("Distance between the spots tried when nudging, in cm")
+  nudgeStep: number = 5
+  @input("vec4", "{1, 0.2, 0.2, 1}")
+  @widget(new ColorWidget())
+  @hint("Color of objects while they are at an invalid spot")
+  invalidColor: vec4 = new vec4(1, 0.2, 0.2, 1)
+
+  private tracker = ManipulationTracker.getInstance()
+  private history = LandscapeHistory.getInstance()
+  private validator = new PlacementValidator()
+
+  private invalidIds: Set<string> = new Set()
+  // Correction made by the latest run of the adjuster, reported once the release completes
+  private lastCorrection: PlacementCorrectedEventArg | null = null
+
+  private unsubscribeAdjuster: unsubscribe | null = null
+  private unsubscribeEvents: unsubscribe[] = []
+
+  private adjuster: PlacementAdjuster = {
+    priority: PlacementPriority.Rules,
+    adjust: (placedObject, pose) => this.enforce(placedObject, pose),
+  }
+
+  private onPlacementCorrectedEvent = new Event<PlacementCorrectedEventArg>()
+  /**
+   * Called when a released object was nudged or rejected
+   */
+  onPlacementCorrected: PublicApi<PlacementCorrectedEventArg> =
+    this.onPlacementCorrectedEvent.publicApi()
+
+  onAwake(): void {
+    this.enableRules()
+    this.createEvent("OnEnableEvent").bind(() => this.enableRules())
+    this.createEvent("OnDisableEvent").bind(() => this.disableRules())
+    this.createEvent("OnDestroyEvent").bind(() => this.disableRules())
+  }
+
+  /**
+   * Checks whether an object may be placed at a pose.
+   */
+  validate(
+    placedObject: PlacedObject,
+    pose: TransformSnapshot,
+  ): PlacementVerdict {
+    return this.validator.validate(placedObject, pose)
+  }
+
+  private enableRules(): void {
+    if (this.unsubscribeAdjuster !== null) {
+      return
+    }
+
+    this.unsubscribeAdjuster = this.tracker.addAdjuster(this.adjuster)
+    this.unsubscribeEvents = [
+      this.tracker.onManipulationUpdated.add((event) => {
+        // Validate the pose the earlier adjusters, e.g. snapping, would produce
+        const pose = this.tracker.resolvePose(
+          event.placedObject,
+          event.currentPose,
+          PlacementPriority.Rules,
+        )
+        this.setInvalid(
+          event.placedObject,
+          !this.validator.validate(event.placedObject, pose).valid,
+          true,
+        )
+      }),
+      this.tracker.onManipulationEnded.add((event) => {
+        this.setInvalid(event.placedObject, false, false)
+        const correction = this.lastCorrection
+        this.lastCorrection = null
+        if (correction?.placedObject.id === event.placedObject.id) {
+          if (correction.removed) {
+            this.history.execute(new DeleteCommand(event.placedObject))
+          }
+          this.onPlacementCorrectedEvent.invoke(correction)
+        }
+      }),
+    ]
+  }
+
+  private disableRules(): void {
+    this.unsubscribeAdjuster?.()
+    this.unsubscribeAdjuster = null
+    this.unsubscribeEvents.forEach((unsubscribe) => unsubscribe())
+    this.unsubscribeEvents = []
+    this.invalidIds.clear()
+    this.lastCorrection = null
+  }
+
+  private enforce(
+    placedObject: PlacedObject,
+    pose: TransformSnapshot,
+  ): TransformSnapshot {
+    this.lastCorrection = null
+    const verdict = this.validator.validate(placedObject, pose)
+    if (verdict.valid) {
+      return pose
+    }
+
+    const nudged =
+      this.invalidAction === "Nudge"
+        ? this.validator.findValidPose(
+            placedObject,
+            pose,
+            this.nudgeDistance,
+            this.nudgeStep,
+          )
+        : null
+    const startPose = this.tracker.getStartPose(placedObject.id)
+    if (nudged === null && startPose === null) {
+      return pose
+    }
+
+    // Objects pulled off a spawn pad have no placed pose to go back to
+    const removed =
+      nudged === null && this.tracker.isJoinedMidway(placedObject.id)
+    this.lastCorrection = {
+      placedObject: placedObject,
+      verdict: verdict,
+      nudged: nudged !== null,
+      removed: removed,
+    }
+    return nudged ?? (removed ? pose : startPose!)
+  }
+
+  private setInvalid(
+    placedObject: PlacedObject,
+    invalid: boolean,
+    held: boolean,
+  ): void {
+    if (invalid === this.invalidIds.has(placedObject.id)) {
+      return
+    }
+
+    if (invalid) {
+      this.invalidIds.add(placedObject.id)
+    } else {
+      this.invalidIds.delete(placedObject.id)
+    }
+
+    forEachInHierarchy(placedObject.sceneObject, (sceneObject) => {
+      const feedback: InteractableColorFeedback | null =
+        sceneObject.getComponent(InteractableColorFeedback.getTypeName())
+      if (!isNull(feedback)) {
+        feedback.changeColor(
+          invalid
+            ? this.invalidColor
+            : held
+              ? feedback.pinchedColor
+              : feedback.defaultColor,
+        )
+      }
+    })
+  }
+}
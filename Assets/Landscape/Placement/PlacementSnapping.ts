@@ -0,0 +1,189 @@
+import {unsubscribe} from "SpectaclesInteractionKit/Utils/Event"
+import {isDescendantOf} from "SpectaclesInteractionKit/Utils/SceneObjectUtils"
+import {PlacedObject} from "../Core/LandscapeObjectRegistry"
+import {
+  ManipulationTracker,
+  PlacementAdjuster,
+  PlacementPriority,
+} from "../Core/ManipulationTracker"
+import {TransformSnapshot} from "../Core/TransformSnapshot"
+import {isExcludedFromRaycasts} from "../Utils/RaycastExclusions"
+import {PlacementGhost} from "./PlacementGhost"
+import {snapToGridXZ, snapYaw} from "./SnapMath"
+
+/**
+ * Snaps placed objects to a grid, the ground plane or the surface below them
+ * when they are released, and previews the snapped pose with a ghost while
+ * they are dragged.
+ */
+@component
+export class PlacementSnapping extends BaseScriptComponent {
+  @ui.group_start("Grid")
+  @input
+  snapToGrid: boolean = true
+  @input
+  @showIf("snapToGrid", true)
+  @hint("Size of a grid cell on the XZ plane, in cm")
+  gridSize: number = 10
+  @ui.group_end
+  @ui.group_start("Height")
+  @input
+  @hint("Place released objects on a horizontal ground plane")
+  snapToGround: boolean = true
+  @input
+  @showIf("snapToGround", true)
+  @hint("World height of the ground plane, in cm")
+  groundHeight: number = 0
+  @input
+  @hint(
+    "Place released objects on the nearest surface below them. Falls back to the ground plane when nothing is hit.",
+  )
+  snapToSurface: boolean = false
+  @input
+  @showIf("snapToSurface", true)
+  @hint("How far below the object to look for a surface, in cm")
+  surfaceRayLength: number = 200
+  @ui.group_end
+  @ui.group_start("Rotation")
+  @input
+  snapRotation: boolean = false
+  @input
+  @showIf("snapRotation", true)
+  @widget(new SliderWidget(5, 90, 5))
+  @hint("Yaw increment released objects are rotated to, in degrees")
+  yawIncrement: number = 45
+  @ui.group_end
+  @ui.group_start("Preview")
+  @input
+  showGhost: boolean = true
+  @input
+  @showIf("showGhost", true)
+  @hint(
+    "Material applied to the ghost preview. Leave empty to keep the prefab's materials.",
+  )
+  @allowUndefined
+  ghostMaterial: Material | undefined
+  @ui.group_end
+  private tracker = ManipulationTracker.getInstance()
+  private probe = Physics.createGlobalProbe()
+
+  private ghosts: Map<string, PlacementGhost> = new Map()
+  private surfaceHits: Map<string, vec3> = new Map()
+
+  private unsubscribeAdjuster: unsubscribe | null = null
+  private unsubscribeEvents: unsubscribe[] = []
+
+  private adjuster: PlacementAdjuster = {
+    priority: PlacementPriority.Snapping,
+    adjust: (placedObject, pose) => this.snapPose(placedObject, pose),
+  }
+
+  onAwake(): void {
+    this.enableSnapping()
+    this.createEvent("OnEnableEvent").bind(() => this.enableSnapping())
+    this.createEvent("OnDisableEvent").bind(() => this.disableSnapping())
+    this.createEvent("OnDestroyEvent").bind(() => this.disableSnapping())
+  }
+
+  private enableSnapping(): void {
+    if (this.unsubscribeAdjuster !== null) {
+      return
+    }
+
+    this.unsubscribeAdjuster = this.tracker.addAdjuster(this.adjuster)
+    this.unsubscribeEvents = [
+      this.tracker.onManipulationUpdated.add((event) => {
+        this.updateSurfaceHit(event.placedObject)
+        this.updateGhost(event.placedObject, event.currentPose)
+      }),
+      this.tracker.onManipulationEnded.add((event) => {
+        this.clearObject(event.placedObject.id)
+      }),
+    ]
+  }
+
+  private disableSnapping(): void {
+    this.unsubscribeAdjuster?.()
+    this.unsubscribeAdjuster = null
+    this.unsubscribeEvents.forEach((unsubscribe) => unsubscribe())
+    this.unsubscribeEvents = []
+    Array.from(this.ghosts.keys()).forEach((id) => this.clearObject(id))
+  }
+
+  /**
+   * Returns the pose an object would be snapped to if released at the given
+   * pose.
+   */
+  snapPose(
+    placedObject: PlacedObject,
+    pose: TransformSnapshot,
+  ): TransformSnapshot {
+    let position = pose.position
+    if (this.snapToGrid) {
+      position = snapToGridXZ(position, this.gridSize)
+    }
+
+    const surfaceHit = this.snapToSurface
+      ? this.surfaceHits.get(placedObject.id)
+      : undefined
+    if (surfaceHit !== undefined) {
+      position = new vec3(position.x, surfaceHit.y, position.z)
+    } else if (this.snapToGround) {
+      position = new vec3(position.x, this.groundHeight, position.z)
+    }
+
+    return {
+      position: position,
+      rotation: this.snapRotation
+        ? snapYaw(pose.rotation, this.yawIncrement)
+        : pose.rotation,
+      scale: pose.scale,
+    }
+  }
+
+  // Raycasts resolve through a callback, so the latest hit is cached during the drag and used on release
+  private updateSurfaceHit(placedObject: PlacedObject): void {
+    if (!this.snapToSurface) {
+      return
+    }
+
+    const start = placedObject.sceneObject.getTransform().getWorldPosition()
+    const end = start.add(vec3.down().uniformScale(this.surfaceRayLength))
+    this.probe.rayCastAll(start, end, (hits: RayCastHit[]) => {
+      // RaycastHits are automatically sorted from nearest to farthest
+      for (const hit of hits) {
+        const sceneObject = hit.collider.getSceneObject()
+        if (
+          !isDescendantOf(sceneObject, placedObject.sceneObject) &&
+          !isExcludedFromRaycasts(sceneObject)
+        ) {
+          this.surfaceHits.set(placedObject.id, hit.position)
+          return
+        }
+      }
+      this.surfaceHits.delete(placedObject.id)
+    })
+  }
+
+  private updateGhost(placedObject: PlacedObject, pose: TransformSnapshot) {
+    if (!this.showGhost) {
+      return
+    }
+
+    let ghost = this.ghosts.get(placedObject.id)
+    if (ghost === undefined) {
+      ghost = new PlacementGhost(placedObject.prefab, this.ghostMaterial)
+      this.ghosts.set(placedObject.id, ghost)
+    }
+    // Nudging is too costly to run every frame, so the placement rules only run on release and tint the object meanwhile
+    ghost.setPose(
+      this.tracker.resolvePose(placedObject, pose, PlacementPriority.Rules),
+    )
+  }
+
+  private clearObject(id: string): void {
+    this.ghosts.get(id)?.destroy()
+    this.ghosts.delete(id)
+    this.surfaceHits.delete(id)
+  }
+}
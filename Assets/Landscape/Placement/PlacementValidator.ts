@@ -0,0 +1,223 @@
+import {aabb} from "SpectaclesInteractionKit/Utils/aabb"
+import {isDescendantOf} from "SpectaclesInteractionKit/Utils/SceneObjectUtils"
+import {ExclusionZoneRegistry} from "../Core/ExclusionZones"
+import {
+  LandscapeObjectRegistry,
+  PlacedObject,
+} from "../Core/LandscapeObjectRegistry"
+import {GROUND_SURFACE, PrefabCatalog} from "../Core/PrefabCatalog"
+import {TransformSnapshot} from "../Core/TransformSnapshot"
+import {
+  boundsOverlap,
+  getLocalColliderBounds,
+  transformBounds,
+} from "../Utils/ColliderBounds"
+
+// Distance boxes may interpenetrate or float apart and still count as touching, in cm
+const CONTACT_TOLERANCE = 2
+
+export enum PlacementViolation {
+  /**
+   * The object overlaps an object it may not overlap.
+   */
+  Overlap = "Overlap",
+  /**
+   * The object rests on a surface it is not allowed on.
+   */
+  Surface = "Surface",
+  /**
+   * The object stands in an exclusion zone that blocks placement, e.g. on a
+   * path.
+   */
+  Excluded = "Excluded",
+}
+
+export type PlacementVerdict = {
+  valid: boolean
+  violation: PlacementViolation | null
+  /**
+   * The object that is overlapped, or that the object rests on for surface
+   * violations. Null for the ground.
+   */
+  other: PlacedObject | null
+  /**
+   * Name of the surface the object rests on.
+   */
+  surface: string
+}
+
+/**
+ * Checks whether placed objects may be placed at a pose, using the AABBs of
+ * their colliders, the placement rules of their prefabs in the
+ * {@link PrefabCatalog} and the exclusion zones that block placement.
+ */
+export class PlacementValidator {
+  private registry = LandscapeObjectRegistry.getInstance()
+  private catalog = PrefabCatalog.getInstance()
+  private zones = ExclusionZoneRegistry.getInstance()
+
+  // Collider bounds in the root's local space only depend on the prefab
+  private localBounds: Map<ObjectPrefab, aabb | null> = new Map()
+
+  /**
+   * Returns the world AABB of an object's colliders, as if it was at the
+   * given pose.
+   */
+  getWorldBounds(
+    placedObject: PlacedObject,
+    pose?: TransformSnapshot,
+  ): aabb | null {
+    if (!this.localBounds.has(placedObject.prefab)) {
+      this.localBounds.set(
+        placedObject.prefab,
+        getLocalColliderBounds(placedObject.sceneObject),
+      )
+    }
+    const bounds = this.localBounds.get(placedObject.prefab) ?? null
+    if (bounds === null) {
+      return null
+    }
+
+    const matrix =
+      pose !== undefined
+        ? mat4.compose(pose.position, pose.rotation, pose.scale)
+        : placedObject.sceneObject.getTransform().getWorldTransform()
+    return transformBounds(bounds, matrix)
+  }
+
+  validate(
+    placedObject: PlacedObject,
+    pose: TransformSnapshot,
+  ): PlacementVerdict {
+    const metadata = this.catalog.getMetadata(placedObject.prefab)
+    if (
+      this.zones.isPlacementBlocked(new vec2(pose.position.x, pose.position.z))
+    ) {
+      return {
+        valid: false,
+        violation: PlacementViolation.Excluded,
+        other: null,
+        surface: GROUND_SURFACE,
+      }
+    }
+
+    const bounds = this.getWorldBounds(placedObject, pose)
+    if (bounds === null) {
+      return {
+        valid: true,
+        violation: null,
+        other: null,
+        surface: GROUND_SURFACE,
+      }
+    }
+
+    const center = bounds.min.add(bounds.max).uniformScale(0.5)
+    let support: PlacedObject | null = null
+    let supportHeight = -Infinity
+
+    for (const other of this.registry.getAll()) {
+      if (this.isRelated(placedObject, other)) {
+        continue
+      }
+      const otherBounds = this.getWorldBounds(other)
+      if (otherBounds === null) {
+        continue
+      }
+
+      if (
+        boundsOverlap(bounds, otherBounds, CONTACT_TOLERANCE) &&
+        !this.canOverlap(placedObject, other)
+      ) {
+        return {
+          valid: false,
+          violation: PlacementViolation.Overlap,
+          other: other,
+          surface: GROUND_SURFACE,
+        }
+      }
+
+      if (
+        center.x >= otherBounds.min.x &&
+        center.x <= otherBounds.max.x &&
+        center.z >= otherBounds.min.z &&
+        center.z <= otherBounds.max.z &&
+        Math.abs(otherBounds.max.y - bounds.min.y) <= CONTACT_TOLERANCE &&
+        otherBounds.max.y > supportHeight
+      ) {
+        support = other
+        supportHeight = otherBounds.max.y
+      }
+    }
+
+    const surface =
+      support !== null
+        ? this.catalog.getMetadata(support.prefab).surfaceName
+        : GROUND_SURFACE
+    const allowed =
+      metadata.allowedSurfaces.length === 0 ||
+      metadata.allowedSurfaces.indexOf(surface) !== -1
+    return {
+      valid: allowed,
+      violation: allowed ? null : PlacementViolation.Surface,
+      other: support,
+      surface: surface,
+    }
+  }
+
+  /**
+   * Searches rings of increasing radius around the pose for the nearest
+   * position on the XZ plane where the object may be placed.
+   *
+   * @param maxDistance - how far to search, in cm.
+   * @param step - distance between two rings, in cm.
+   * @returns the nearest valid pose, or null if there is none within reach.
+   */
+  findValidPose(
+    placedObject: PlacedObject,
+    pose: TransformSnapshot,
+    maxDistance: number,
+    step: number,
+  ): TransformSnapshot | null {
+    if (this.validate(placedObject, pose).valid) {
+      return pose
+    }
+
+    const rings = Math.ceil(maxDistance / step)
+    for (let ring = 1; ring <= rings; ring++) {
+      const radius = Math.min(ring * step, maxDistance)
+      const samples = Math.max(8, Math.round((2 * Math.PI * radius) / step))
+      for (let sample = 0; sample < samples; sample++) {
+        const angle = (sample / samples) * Math.PI * 2
+        const candidate = {
+          ...pose,
+          position: pose.position.add(
+            new vec3(Math.cos(angle), 0, Math.sin(angle)).uniformScale(radius),
+          ),
+        }
+        if (this.validate(placedObject, candidate).valid) {
+          return candidate
+        }
+      }
+    }
+    return null
+  }
+
+  private isRelated(a: PlacedObject, b: PlacedObject): boolean {
+    return (
+      a.id === b.id ||
+      isDescendantOf(a.sceneObject, b.sceneObject) ||
+      isDescendantOf(b.sceneObject, a.sceneObject)
+    )
+  }
+
+  private canOverlap(a: PlacedObject, b: PlacedObject): boolean {
+    const allows = (allowing: PlacedObject, other: PlacedObject) => {
+      const allowed = this.catalog.getMetadata(allowing.prefab).canOverlap
+      return (
+        allowed.indexOf(other.prefab.name) !== -1 ||
+        allowed.indexOf(this.catalog.getMetadata(other.prefab).category) !== -1
+      )
+    }
+    return allows(a, b) || allows(b, a)
+  }
+}
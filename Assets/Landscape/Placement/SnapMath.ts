@@ -0,0 +1,70 @@
+import {DegToRad} from "SpectaclesInteractionKit/Utils/mathUtils"
+
+/**
+ * Rounds the X and Z components of a position to the nearest grid cell
+ * center. The Y component is left untouched.
+ *
+ * @param position - the world position to snap.
+ * @param cellSize - size of a grid cell in world units. Values <= 0 disable snapping.
+ */
+export function snapToGridXZ(position: vec3, cellSize: number): vec3 {
+  if (cellSize <= 0) {
+    return position
+  }
+  return new vec3(
+    Math.round(position.x / cellSize) * cellSize,
+    position.y,
+    Math.round(position.z / cellSize) * cellSize,
+  )
+}
+
+/**
+ * Returns the heading of a rotation around the world up axis, in radians.
+ */
+export function getYaw(rotation: quat): number {
+  const forward = rotation.multiplyVec3(vec3.forward())
+  return Math.atan2(forward.x, forward.z)
+}
+
+/**
+ * Rotates a rotation around the world up axis so its heading lands on the
+ * nearest multiple of the increment. Pitch and roll are preserved.
+ *
+ * @param rotation - the world rotation to snap.
+ * @param incrementDegrees - the yaw step in degrees. Values <= 0 disable snapping.
+ */
+export function snapYaw(rotation: quat, incrementDegrees: number): quat {
+  if (incrementDegrees <= 0) {
+    return rotation
+  }
+  const increment = incrementDegrees * DegToRad
+  const yaw = getYaw(rotation)
+  const snappedYaw = Math.round(yaw / increment) * increment
+  return quat.angleAxis(snappedYaw - yaw, vec3.up()).multiply(rotation)
+}
+
+/**
+ * Keeps the heading of a rotation but tilts its up axis from world up
+ * towards a surface normal, by at most the given angle.
+ *
+ * @param rotation - the world rotation whose heading is kept.
+ * @param normal - the world normal of the surface.
+ * @param maxTiltDegrees - the largest tilt away from world up, in degrees. 0 keeps the rotation upright.
+ */
+export function alignToNormal(
+  rotation: quat,
+  normal: vec3,
+  maxTiltDegrees: number,
+): quat {
+  const upright = quat.angleAxis(getYaw(rotation), vec3.up())
+  const angle = Math.min(
+    vec3.up().angleTo(normal),
+    Math.max(0, maxTiltDegrees) * DegToRad,
+  )
+  const axis = vec3.up().cross(normal)
+  // A flat surface, or one facing straight down, leaves no axis to tilt around
+  if (angle <= 0 || axis.length < 1e-6) {
+    return upright
+  }
+  return quat.angleAxis(angle, axis.normalize()).multiply(upright)
+}
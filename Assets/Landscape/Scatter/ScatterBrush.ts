@@ -0,0 +1,265 @@
+import {HandInputData} from "SpectaclesInteractionKit/Providers/HandInputData/HandInputData"
+import {unsubscribe} from "SpectaclesInteractionKit/Utils/Event"
+import {SeededRandomNumberGenerator} from "SpectaclesInteractionKit/Utils/SeededRandomNumberGenerator"
+import {ExclusionZoneRegistry} from "../Core/ExclusionZones"
+import {LandscapeObjectRegistry} from "../Core/LandscapeObjectRegistry"
+import {PrefabCatalog} from "../Core/PrefabCatalog"
+import {DeleteCommand} from "../History/DeleteCommand"
+import {LandscapeHistory} from "../History/LandscapeHistory"
+import {LandscapeLayers} from "../Layers/LandscapeLayers"
+import {LandscapeSpawner} from "../Spawning/LandscapeSpawner"
+import {HandRaycaster} from "../Utils/HandRaycaster"
+import {poissonDiskInCircle} from "../Utils/PoissonDisk"
+import {createSeededRandom} from "../Utils/SeededRandom"
+
+// Fraction of the brush radius the hit point has to travel before the next stamp of a stroke
+const STROKE_STAMP_SPACING = 0.5
+
+/**
+ * Paints instances of a set of prefabs around the point the dominant hand's
+ * ray hits while pinching, or erases them in erase mode. Placement is driven
+ * by a seeded random number generator, so the same strokes with the same seed
+ * produce the same result. Objects on hidden or locked layers are not erased.
+ */
+@component
+export class ScatterBrush extends BaseScriptComponent {
+  @input
+  prefabs: ObjectPrefab[] = []
+  @input("int")
+  @hint("Seed of the random number generator")
+  seed: number = 1
+  @input
+  @hint("Remove instances of the brush prefabs instead of painting them")
+  eraseMode: boolean = false
+  @ui.group_start("Brush")
+  @input
+  @hint("Radius of the brush, in cm")
+  radius: number = 30
+  @input
+  @hint("Minimum distance between two painted instances, in cm")
+  spacing: number = 10
+  @input
+  @widget(new SliderWidget(0, 1, 0.05))
+  @hint("Probability of keeping each sampled point at the brush center")
+  density: number = 1
+  @input
+  @widget(new SliderWidget(0, 1, 0.05))
+  @hint(
+    "How much the density fades towards the rim of the brush. 0 is a hard edge, 1 fades out completely.",
+  )
+  falloff: number = 0.5
+  @ui.group_end
+  @ui.group_start("Jitter")
+  @input
+  randomYaw: boolean = true
+  @input
+  minScale: number = 0.8
+  @input
+  maxScale: number = 1.2
+  @ui.group_end
+  @input
+  @allowUndefined
+  @hint(
+    "Optional SceneObject moved to the brush position and scaled to its radius",
+  )
+  cursor: SceneObject | undefined
+
+  private registry = LandscapeObjectRegistry.getInstance()
+  private catalog = PrefabCatalog.getInstance()
+  private zones = ExclusionZoneRegistry.getInstance()
+  private history = LandscapeHistory.getInstance()
+  private layers = LandscapeLayers.getInstance()
+  private spawner = LandscapeSpawner.getInstance()
+  private handInputData = HandInputData.getInstance()
+  private raycaster = new HandRaycaster()
+
+  private rng!: SeededRandomNumberGenerator
+  private random!: () => number
+
+  private isStroking = false
+  private lastStampPosition: vec3 | null = null
+
+  // Keep track of "Unsubscribe" functions when adding callbacks to hand events, to ensure proper cleanup on destroy
+  private unsubscribeBag: unsubscribe[] = []
+
+  onAwake(): void {
+    this.resetSeed(this.seed)
+
+    const hand = this.handInputData.getDominantHand()
+    this.unsubscribeBag.push(
+      hand.onPinchDown.add(() => this.beginStroke()),
+      hand.onPinchUp.add(() => this.endStroke()),
+      hand.onPinchCancel.add(() => this.endStroke()),
+    )
+
+    this.createEvent("UpdateEvent").bind(() => this.onUpdate())
+    this.createEvent("OnDisableEvent").bind(() => {
+      this.endStroke()
+      this.setCursorVisible(false)
+    })
+    this.createEvent("OnDestroyEvent").bind(() => {
+      this.unsubscribeBag.forEach((unsubscribe) => unsubscribe())
+      this.unsubscribeBag = []
+    })
+  }
+
+  /**
+   * Restarts the random sequence, e.g. to reproduce a previous session.
+   */
+  resetSeed(seed: number): void {
+    this.seed = seed
+    this.rng = createSeededRandom(seed)
+    this.random = this.rng.randomRange(0, 1)
+  }
+
+  /**
+   * Paints or erases at a world position, as a single stamp of the brush.
+   */
+  stamp(center: vec3): void {
+    if (this.eraseMode) {
+      this.erase(center)
+    } else {
+      this.paint(center)
+    }
+    this.lastStampPosition = center
+  }
+
+  private onUpdate(): void {
+    if (!this.enabled) {
+      return
+    }
+
+    this.raycaster.cast(
+      (hit) => {
+        this.setCursorVisible(hit !== null)
+        if (hit === null) {
+          return
+        }
+        this.updateCursor(hit.position)
+
+        if (
+          this.isStroking &&
+          (this.lastStampPosition === null ||
+            this.lastStampPosition.distance(hit.position) >=
+              this.radius * STROKE_STAMP_SPACING)
+        ) {
+          this.stamp(hit.position)
+        }
+      },
+      // Paint on the ground, not on top of the objects already placed
+      (sceneObject) => this.registry.findContaining(sceneObject) !== null,
+    )
+  }
+
+  private beginStroke(): void {
+    if (!this.enabled || this.isStroking) {
+      return
+    }
+    // Pinching an object grabs it rather than starting a stroke
+    const interactor = this.raycaster.getDominantInteractor()
+    if (interactor === null || interactor.currentInteractable !== null) {
+      return
+    }
+    this.isStroking = true
+    this.lastStampPosition = null
+    this.history.beginGroup(this.eraseMode ? "Erase" : "Scatter")
+  }
+
+  private endStroke(): void {
+    if (!this.isStroking) {
+      return
+    }
+    this.isStroking = false
+    this.history.endGroup()
+  }
+
+  private paint(center: vec3): void {
+    if (this.prefabs.length === 0) {
+      return
+    }
+
+    const existing = this.getBrushInstances(
+      center,
+      this.radius + this.spacing,
+    ).map((position) => new vec2(position.x, position.z))
+    const points = poissonDiskInCircle(
+      new vec2(center.x, center.z),
+      this.radius,
+      this.spacing,
+      this.random,
+      existing,
+    )
+
+    const pickPrefab = this.rng.randomIntegerRange(0, this.prefabs.length - 1)
+    for (const point of points) {
+      const t = point.distance(new vec2(center.x, center.z)) / this.radius
+      const keepProbability = this.density * (1 - this.falloff * t)
+      if (this.random() >= keepProbability || this.zones.isExcluded(point)) {
+        continue
+      }
+
+      const prefab = this.prefabs[pickPrefab()]
+      const yaw = this.randomYaw ? this.random() * Math.PI * 2 : 0
+      const scale =
+        this.catalog.getMetadata(prefab).defaultScale *
+        (this.minScale + this.random() * (this.maxScale - this.minScale))
+
+      this.spawner.spawn(prefab, {
+        position: new vec3(point.x, center.y, point.y),
+        rotation: quat.angleAxis(yaw, vec3.up()),
+        scale: vec3.one().uniformScale(scale),
+      })
+    }
+  }
+
+  private erase(center: vec3): void {
+    for (const placedObject of this.registry.getAll()) {
+      // Objects on hidden and locked layers cannot be edited
+      if (
+        this.prefabs.indexOf(placedObject.prefab) !== -1 &&
+        this.layers.isEditable(placedObject) &&
+        this.distanceXZ(
+          placedObject.sceneObject.getTransform().getWorldPosition(),
+          center,
+        ) <= this.radius
+      ) {
+        this.history.execute(new DeleteCommand(placedObject))
+      }
+    }
+  }
+
+  private getBrushInstances(center: vec3, range: number): vec3[] {
+    const positions: vec3[] = []
+    for (const placedObject of this.registry.getAll()) {
+      if (this.prefabs.indexOf(placedObject.prefab) === -1) {
+        continue
+      }
+      const position = placedObject.sceneObject
+        .getTransform()
+        .getWorldPosition()
+      if (this.distanceXZ(position, center) <= range) {
+        positions.push(position)
+      }
+    }
+    return positions
+  }
+
+  private distanceXZ(a: vec3, b: vec3): number {
+    return new vec2(a.x, a.z).distance(new vec2(b.x, b.z))
+  }
+
+  private updateCursor(position: vec3): void {
+    if (this.cursor === undefined) {
+      return
+    }
+    const transform = this.cursor.getTransform()
+    transform.setWorldPosition(position)
+    transform.setWorldScale(vec3.one().uniformScale(this.radius))
+  }
+
+  private setCursorVisible(visible: boolean): void {
+    if (this.cursor !== undefined) {
+      this.cursor.enabled = visible
+    }
+  }
+}
@@ -0,0 +1,398 @@
+import {InteractableManipulation} from "SpectaclesInteractionKit/Components/Interaction/InteractableManipulation/InteractableManipulation"
+import {HandInputData} from "SpectaclesInteractionKit/Providers/HandInputData/HandInputData"
+import {unsubscribe} from "SpectaclesInteractionKit/Utils/Event"
+import NativeLogger from "SpectaclesInteractionKit/Utils/NativeLogger"
+import {RadToDeg} from "SpectaclesInteractionKit/Utils/mathUtils"
+import LineRenderer from "SpectaclesInteractionKit/Utils/views/LineRenderer/LineRenderer"
+import {
+  LandscapeObjectRegistry,
+  PlacedObject,
+} from "../Core/LandscapeObjectRegistry"
+import {ManipulationTracker} from "../Core/ManipulationTracker"
+import {
+  captureTransform,
+  snapshotsEqual,
+  TransformSnapshot,
+} from "../Core/TransformSnapshot"
+import {CompositeCommand} from "../History/CompositeCommand"
+import {LandscapeHistory} from "../History/LandscapeHistory"
+import {TransformCommand} from "../History/TransformCommand"
+import {LandscapeLayers} from "../Layers/LandscapeLayers"
+import {ToolModeManager} from "../Modes/ToolModeManager"
+import {HandRaycaster} from "../Utils/HandRaycaster"
+import {pointInPolygon, rectFromCorners} from "../Utils/PolygonMath"
+import {SelectionHighlight} from "./SelectionHighlight"
+import {SelectionManager} from "./SelectionManager"
+
+const TAG = "SelectionController"
+
+// Minimum distance between two recorded lasso points, in cm
+const LASSO_POINT_SPACING = 2
+
+// Height of the marquee outline above the surface it is drawn on, in cm
+const MARQUEE_HEIGHT_OFFSET = 0.5
+
+// How far a held object must move, turn or grow before its release no longer counts as a tap, in cm, degrees and scale ratio
+const DRAG_DISTANCE = 1
+const DRAG_ANGLE = 5
+const DRAG_SCALE = 0.05
+
+type GroupMember = {
+  placedObject: PlacedObject
+  startPose: TransformSnapshot
+  parent: SceneObject | null
+}
+
+/**
+ * Lets the user select placed objects and edit the selection:
+ * - tap a placed object to select it, while pinching with the non-dominant
+ *   hand to add it to or remove it from the selection,
+ * - draw a box or lasso on the ground with the dominant hand's ray while
+ *   marquee selection is enabled,
+ * - move, rotate and scale the whole selection with the pivot handle,
+ * - delete or duplicate the selection.
+ */
+@component
+export class SelectionController extends BaseScriptComponent {
+  @input
+  @hint("Always add tapped objects to the selection instead of replacing it")
+  additive: boolean = false
+  @ui.group_start("Marquee")
+  @input
+  @hint(
+    "Pinching while not targeting an object draws a selection shape on the ground",
+  )
+  marqueeEnabled: boolean = false
+  @input
+  @widget(
+    new ComboBoxWidget([
+      new ComboBoxItem("Box", "Box"),
+      new ComboBoxItem("Lasso", "Lasso"),
+    ]),
+  )
+  marqueeShape: string = "Box"
+  @input
+  @allowUndefined
+  @hint("Material of the marquee outline. Leave empty to hide the outline.")
+  marqueeMaterial: Material | undefined
+  @ui.group_end
+  @input
+  @allowUndefined
+  @hint(
+    "InteractableManipulation moved to the selection's pivot. Manipulating it moves, rotates and scales every selected object.",
+  )
+  pivotHandle: InteractableManipulation | undefined
+  @input("vec3", "{10, 0, 0}")
+  @hint("Offset between duplicated objects and their originals, in cm")
+  duplicateOffset: vec3 = new vec3(10, 0, 0)
+
+  private registry = LandscapeObjectRegistry.getInstance()
+  private selection = SelectionManager.getInstance()
+  private history = LandscapeHistory.getInstance()
+  private layers = LandscapeLayers.getInstance()
+  private tracker = ManipulationTracker.getInstance()
+  private modes = ToolModeManager.getInstance()
+  private handInputData = HandInputData.getInstance()
+  private raycaster = new HandRaycaster()
+
+  private highlights: Map<string, SelectionHighlight> = new Map()
+
+  // Objects moved while held are drags rather than taps
+  private draggedIds: Set<string> = new Set()
+
+  private marqueePoints: vec3[] | null = null
+  private marqueeLine: LineRenderer | null = null
+
+  private groupMembers: GroupMember[] = []
+
+  // Keep track of "Unsubscribe" functions when adding callbacks, to ensure proper cleanup on destroy
+  private unsubscribeBag: unsubscribe[] = []
+
+  // Native Logging
+  private log = new NativeLogger(TAG)
+
+  onAwake(): void {
+    const hand = this.handInputData.getDominantHand()
+    this.unsubscribeBag.push(
+      this.selection.onSelectionChanged.add((event) =>
+        this.updateHighlights(event.selected),
+      ),
+      // Objects registered mid-grab, e.g. dragged off a spawn pad, count as dragged
+      this.tracker.onManipulationStarted.add((event) => {
+        if (event.joinedMidway) {
+          this.draggedIds.add(event.placedObject.id)
+        } else {
+          this.draggedIds.delete(event.placedObject.id)
+        }
+      }),
+      this.tracker.onManipulationUpdated.add((event) => {
+        if (isDrag(event.startPose, event.currentPose)) {
+          this.draggedIds.add(event.placedObject.id)
+        }
+      }),
+      // Taps come from the tool modes, so they also arrive in modes where objects cannot be grabbed
+      this.modes.onObjectTapped.add((event) => {
+        const wasDragged = this.draggedIds.delete(event.placedObject.id)
+        if (!wasDragged) {
+          this.onTap(event.placedObject)
+        }
+      }),
+      this.registry.onObjectRemoved.add((placedObject) => {
+        this.draggedIds.delete(placedObject.id)
+      }),
+      hand.onPinchDown.add(() => this.beginMarquee()),
+      hand.onPinchUp.add(() => this.endMarquee(true)),
+      hand.onPinchCancel.add(() => this.endMarquee(false)),
+    )
+
+    if (this.pivotHandle !== undefined) {
+      this.unsubscribeBag.push(
+        this.pivotHandle.onManipulationStart.add(() => this.beginGroupEdit()),
+        this.pivotHandle.onManipulationEnd.add(() => this.endGroupEdit()),
+      )
+    }
+
+    this.createEvent("UpdateEvent").bind(() => this.onUpdate())
+    this.createEvent("OnDisableEvent").bind(() => this.endMarquee(false))
+    this.createEvent("OnDestroyEvent").bind(() => {
+      this.unsubscribeBag.forEach((unsubscribe) => unsubscribe())
+      this.unsubscribeBag = []
+      this.highlights.forEach((highlight) => highlight.destroy())
+      this.highlights.clear()
+      this.marqueeLine?.destroy()
+    })
+
+    this.updateHighlights(this.selection.getSelected())
+  }
+
+  /**
+   * Deletes the selected objects. Can be bound to a PinchButton.
+   */
+  deleteSelection(): void {
+    this.selection.deleteSelected()
+  }
+
+  /**
+   * Duplicates the selected objects and selects the copies. Can be bound to
+   * a PinchButton.
+   */
+  duplicateSelection(): void {
+    this.selection.duplicateSelected(this.duplicateOffset)
+  }
+
+  /**
+   * Deselects everything. Can be bound to a PinchButton.
+   */
+  clearSelection(): void {
+    this.selection.clear()
+  }
+
+  private isAdditive(): boolean {
+    return this.additive || this.handInputData.getNonDominantHand().isPinching()
+  }
+
+  private onTap(placedObject: PlacedObject): void {
+    if (!this.enabled || !this.layers.isEditable(placedObject)) {
+      return
+    }
+    if (this.isAdditive()) {
+      this.selection.toggle(placedObject)
+    } else {
+      this.selection.select(placedObject)
+    }
+  }
+
+  private onUpdate(): void {
+    if (this.marqueePoints !== null) {
+      this.updateMarquee()
+    }
+    this.updatePivotHandle()
+  }
+
+  private updateHighlights(selected: PlacedObject[]): void {
+    this.highlights.forEach((highlight, id) => {
+      // Replaced objects, e.g. swapped to another prefab variant, get a new highlight
+      if (selected.indexOf(highlight.placedObject) === -1) {
+        highlight.destroy()
+        this.highlights.delete(id)
+      }
+    })
+
+    for (const placedObject of selected) {
+      if (this.highlights.has(placedObject.id)) {
+        continue
+      }
+      const highlight = new SelectionHighlight(placedObject)
+      if (!highlight.hasOutline) {
+        this.log.w(
+          `${placedObject.prefab.name} has no InteractableOutlineFeedback to highlight the selection with`,
+        )
+      }
+      this.highlights.set(placedObject.id, highlight)
+    }
+  }
+
+  private beginMarquee(): void {
+    if (!this.enabled || !this.marqueeEnabled) {
+      return
+    }
+    // Pinching an object grabs it rather than starting a marquee
+    const interactor = this.raycaster.getDominantInteractor()
+    if (interactor === null || interactor.currentInteractable !== null) {
+      return
+    }
+    this.marqueePoints = []
+  }
+
+  private updateMarquee(): void {
+    this.raycaster.cast(
+      (hit) => {
+        const points = this.marqueePoints
+        if (hit === null || points === null) {
+          return
+        }
+
+        if (this.marqueeShape === "Box" && points.length > 0) {
+          // A box only needs the corner where the pinch started and the current one
+          points[1] = hit.position
+        } else if (
+          points.length === 0 ||
+          points[points.length - 1].distance(hit.position) >=
+            LASSO_POINT_SPACING
+        ) {
+          points.push(hit.position)
+        }
+        this.updateMarqueeLine(points)
+      },
+      (sceneObject) => this.registry.findContaining(sceneObject) !== null,
+    )
+  }
+
+  private endMarquee(apply: boolean): void {
+    const points = this.marqueePoints
+    this.marqueePoints = null
+    this.marqueeLine?.setEnabled(false)
+    if (!apply || points === null || points.length < 2) {
+      return
+    }
+
+    const polygon = this.getMarqueePolygon(points)
+    const inside = this.registry.getAll().filter((placedObject) => {
+      if (!this.layers.isEditable(placedObject)) {
+        return false
+      }
+      const position = placedObject.sceneObject
+        .getTransform()
+        .getWorldPosition()
+      return pointInPolygon(new vec2(position.x, position.z), polygon)
+    })
+
+    this.selection.setSelection(
+      this.isAdditive() ? [...this.selection.getSelected(), ...inside] : inside,
+    )
+  }
+
+  // The marquee is drawn on the ground, so its shape is evaluated on the XZ plane
+  private getMarqueePolygon(points: vec3[]): vec2[] {
+    const polygon = points.map((point) => new vec2(point.x, point.z))
+    return this.marqueeShape === "Box"
+      ? rectFromCorners(polygon[0], polygon[polygon.length - 1])
+      : polygon
+  }
+
+  private updateMarqueeLine(points: vec3[]): void {
+    if (this.marqueeMaterial === undefined || points.length < 2) {
+      return
+    }
+
+    const height = Math.max(...points.map((point) => point.y))
+    const outline = this.getMarqueePolygon(points).map(
+      (point) => new vec3(point.x, height + MARQUEE_HEIGHT_OFFSET, point.y),
+    )
+    outline.push(outline[0])
+
+    if (this.marqueeLine === null) {
+      this.marqueeLine = new LineRenderer({
+        material: this.marqueeMaterial,
+        points: outline,
+        startWidth: 0.3,
+        endWidth: 0.3,
+      })
+      this.marqueeLine.getSceneObject().setParent(this.getSceneObject())
+    } else {
+      this.marqueeLine.points = outline
+    }
+    this.marqueeLine.setEnabled(true)
+  }
+
+  private updatePivotHandle(): void {
+    if (this.pivotHandle === undefined || this.groupMembers.length > 0) {
+      return
+    }
+
+    const handle = this.pivotHandle.getSceneObject()
+    const pivot = this.selection.getPivot()
+    handle.enabled = pivot !== null
+    if (pivot !== null) {
+      const transform = handle.getTransform()
+      transform.setWorldPosition(pivot)
+      transform.setWorldRotation(quat.quatIdentity())
+      transform.setWorldScale(vec3.one())
+    }
+  }
+
+  // Parent the selection to the handle while it is manipulated, so InteractableManipulation moves them as one
+  private beginGroupEdit(): void {
+    if (this.pivotHandle === undefined) {
+      return
+    }
+
+    const handle = this.pivotHandle.getSceneObject()
+    // Objects on layers hidden or locked since they were selected stay put
+    this.groupMembers = this.selection
+      .getSelected()
+      .filter((placedObject) => this.layers.isEditable(placedObject))
+      .map((placedObject) => ({
+        placedObject: placedObject,
+        startPose: captureTransform(placedObject.sceneObject.getTransform()),
+        parent: placedObject.sceneObject.getParent(),
+      }))
+    this.groupMembers.forEach((member) =>
+      member.placedObject.sceneObject.setParentPreserveWorldTransform(handle),
+    )
+  }
+
+  private endGroupEdit(): void {
+    const commands: TransformCommand[] = []
+    for (const member of this.groupMembers) {
+      const sceneObject = member.placedObject.sceneObject
+      sceneObject.setParentPreserveWorldTransform(member.parent)
+      const endPose = captureTransform(sceneObject.getTransform())
+      if (!snapshotsEqual(member.startPose, endPose)) {
+        commands.push(
+          new TransformCommand(
+            member.placedObject.id,
+            member.startPose,
+            endPose,
+          ),
+        )
+      }
+    }
+    this.groupMembers = []
+
+    if (commands.length > 0) {
+      this.history.record(new CompositeCommand("Transform Selection", commands))
+    }
+  }
+}
+
+// Pinch jitter moves a held object slightly, so only clear movement makes a drag
+function isDrag(start: TransformSnapshot, current: TransformSnapshot): boolean {
+  const angle =
+    2 * Math.acos(Math.min(1, Math.abs(start.rotation.dot(current.rotation))))
+  return (
+    start.position.distance(current.position) >= DRAG_DISTANCE ||
+    angle * RadToDeg >= DRAG_ANGLE ||
+    Math.abs(current.scale.x / start.scale.x - 1) >= DRAG_SCALE
+  )
+}
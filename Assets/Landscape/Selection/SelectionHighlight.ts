@@ -0,0 +1,69 @@
+import {InteractableOutlineFeedback} from "SpectaclesInteractionKit/Components/Helpers/InteractableOutlineFeedback"
+import {Interactable} from "SpectaclesInteractionKit/Components/Interaction/Interactable/Interactable"
+import {unsubscribe} from "SpectaclesInteractionKit/Utils/Event"
+import {PlacedObject} from "../Core/LandscapeObjectRegistry"
+import {forEachInHierarchy} from "../Utils/SceneObjectUtils"
+
+/**
+ * Keeps the outline of a placed object's InteractableOutlineFeedback visible
+ * while it is selected. The feedback removes its outline when hover ends, so
+ * the outline is restored right after.
+ */
+export class SelectionHighlight {
+  private feedbacks: InteractableOutlineFeedback[] = []
+
+  // Keep track of "Unsubscribe" functions when adding callbacks to interactable events, to ensure proper cleanup
+  private unsubscribeBag: unsubscribe[] = []
+
+  constructor(readonly placedObject: PlacedObject) {
+    forEachInHierarchy(placedObject.sceneObject, (sceneObject) => {
+      const feedback: InteractableOutlineFeedback | null =
+        sceneObject.getComponent(InteractableOutlineFeedback.getTypeName())
+      if (isNull(feedback)) {
+        return
+      }
+      this.feedbacks.push(feedback)
+
+      const interactable: Interactable | null = sceneObject.getComponent(
+        Interactable.getTypeName(),
+      )
+      if (!isNull(interactable)) {
+        // Added after the feedback's own callbacks, so these run last
+        this.unsubscribeBag.push(
+          interactable.onHoverExit.add(() => this.show()),
+          interactable.onTriggerCanceled.add(() => this.show()),
+        )
+      }
+    })
+    this.show()
+  }
+
+  /**
+   * Returns false if the placed object has no InteractableOutlineFeedback.
+   */
+  get hasOutline(): boolean {
+    return this.feedbacks.length > 0
+  }
+
+  /**
+   * Removes the outline and stops keeping it visible.
+   */
+  destroy(): void {
+    this.unsubscribeBag.forEach((unsubscribe) => unsubscribe())
+    this.unsubscribeBag = []
+    this.feedbacks.forEach((feedback) => {
+      if (!isNull(feedback)) {
+        feedback.removeMaterialFromRenderMeshArray()
+      }
+    })
+    this.feedbacks = []
+  }
+
+  private show(): void {
+    this.feedbacks.forEach((feedback) => {
+      if (!isNull(feedback)) {
+        feedback.addMaterialToRenderMeshArray()
+      }
+    })
+  }
+}
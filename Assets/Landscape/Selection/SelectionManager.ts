@@ -0,0 +1,192 @@
+import {Singleton} from "SpectaclesInteractionKit/Decorators/Singleton"
+import Event, {PublicApi} from "SpectaclesInteractionKit/Utils/Event"
+import {
+  LandscapeObjectRegistry,
+  PlacedObject,
+} from "../Core/LandscapeObjectRegistry"
+import {captureTransform} from "../Core/TransformSnapshot"
+import {CompositeCommand} from "../History/CompositeCommand"
+import {DeleteCommand} from "../History/DeleteCommand"
+import {LandscapeHistory} from "../History/LandscapeHistory"
+import {LandscapeSpawner} from "../Spawning/LandscapeSpawner"
+
+export type SelectionChangedEventArg = {
+  selected: PlacedObject[]
+}
+
+/**
+ * Keeps track of which placed objects are selected and applies edits to the
+ * whole selection at once.
+ */
+@Singleton
+export class SelectionManager {
+  public static getInstance: () => SelectionManager
+
+  private registry = LandscapeObjectRegistry.getInstance()
+  private history = LandscapeHistory.getInstance()
+  private spawner = LandscapeSpawner.getInstance()
+
+  // Ids in selection order, so the first selected object stays first
+  private selectedIds: string[] = []
+
+  private onSelectionChangedEvent = new Event<SelectionChangedEventArg>()
+  /**
+   * Called whenever objects are added to or removed from the selection, or a
+   * selected object is replaced
+   */
+  onSelectionChanged: PublicApi<SelectionChangedEventArg> =
+    this.onSelectionChangedEvent.publicApi()
+
+  constructor() {
+    this.registry.onObjectRemoved.add((placedObject) =>
+      this.deselect(placedObject),
+    )
+    // The selection keeps ids, so only listeners holding the previous object need to know
+    this.registry.onObjectReplaced.add((event) => {
+      if (this.isSelected(event.placedObject)) {
+        this.onSelectionChangedEvent.invoke({selected: this.getSelected()})
+      }
+    })
+    this.registry.onCleared.add(() => this.clear())
+  }
+
+  get count(): number {
+    return this.selectedIds.length
+  }
+
+  isSelected(placedObject: PlacedObject): boolean {
+    return this.selectedIds.indexOf(placedObject.id) !== -1
+  }
+
+  /**
+   * Returns the selected objects, in the order they were selected.
+   */
+  getSelected(): PlacedObject[] {
+    const selected: PlacedObject[] = []
+    for (const id of this.selectedIds) {
+      const placedObject = this.registry.getById(id)
+      if (placedObject !== null) {
+        selected.push(placedObject)
+      }
+    }
+    return selected
+  }
+
+  /**
+   * Selects an object.
+   *
+   * @param placedObject - the object to select.
+   * @param additive - keep the current selection instead of replacing it.
+   */
+  select(placedObject: PlacedObject, additive: boolean = false): void {
+    this.setSelection(
+      additive ? [...this.getSelected(), placedObject] : [placedObject],
+    )
+  }
+
+  deselect(placedObject: PlacedObject): void {
+    if (!this.isSelected(placedObject)) {
+      return
+    }
+    this.setSelection(
+      this.getSelected().filter((other) => other.id !== placedObject.id),
+    )
+  }
+
+  /**
+   * Adds the object to the selection, or removes it if it is already selected.
+   */
+  toggle(placedObject: PlacedObject): void {
+    if (this.isSelected(placedObject)) {
+      this.deselect(placedObject)
+    } else {
+      this.select(placedObject, true)
+    }
+  }
+
+  /**
+   * Replaces the selection. Duplicates are ignored.
+   */
+  setSelection(placedObjects: PlacedObject[]): void {
+    const ids: string[] = []
+    for (const placedObject of placedObjects) {
+      if (ids.indexOf(placedObject.id) === -1) {
+        ids.push(placedObject.id)
+      }
+    }
+
+    if (
+      ids.length === this.selectedIds.length &&
+      ids.every((id, index) => this.selectedIds[index] === id)
+    ) {
+      return
+    }
+
+    this.selectedIds = ids
+    this.onSelectionChangedEvent.invoke({selected: this.getSelected()})
+  }
+
+  clear(): void {
+    this.setSelection([])
+  }
+
+  /**
+   * Returns the center of the selected objects' positions, or null if
+   * nothing is selected.
+   */
+  getPivot(): vec3 | null {
+    const selected = this.getSelected()
+    if (selected.length === 0) {
+      return null
+    }
+
+    let sum = vec3.zero()
+    for (const placedObject of selected) {
+      sum = sum.add(placedObject.sceneObject.getTransform().getWorldPosition())
+    }
+    return sum.uniformScale(1 / selected.length)
+  }
+
+  /**
+   * Deletes every selected object as a single undoable edit.
+   */
+  deleteSelected(): void {
+    const selected = this.getSelected()
+    if (selected.length === 0) {
+      return
+    }
+    this.history.execute(
+      new CompositeCommand(
+        "Delete",
+        selected.map((placedObject) => new DeleteCommand(placedObject)),
+      ),
+    )
+  }
+
+  /**
+   * Spawns a copy of every selected object as a single undoable edit and
+   * selects the copies.
+   *
+   * @param offset - world offset applied to the copies so they do not overlap the originals.
+   * @returns the copies.
+   */
+  duplicateSelected(offset: vec3 = vec3.zero()): PlacedObject[] {
+    const selected = this.getSelected()
+    if (selected.length === 0) {
+      return []
+    }
+
+    this.history.beginGroup("Duplicate")
+    const copies = selected.map((placedObject) => {
+      const pose = captureTransform(placedObject.sceneObject.getTransform())
+      return this.spawner.spawn(placedObject.prefab, {
+        ...pose,
+        position: pose.position.add(offset),
+      })
+    })
+    this.history.endGroup()
+
+    this.setSelection(copies)
+    return copies
+  }
+}
@@ -0,0 +1,155 @@
+import {ContainerFrame} from "SpectaclesInteractionKit/Components/UI/ContainerFrame/ContainerFrame"
+import {PinchButton} from "SpectaclesInteractionKit/Components/UI/PinchButton/PinchButton"
+import {ScrollView} from "SpectaclesInteractionKit/Components/UI/ScrollView/ScrollView"
+import {unsubscribe} from "SpectaclesInteractionKit/Utils/Event"
+import {SaveSlot, SaveSlotManager} from "./SaveSlotManager"
+import {SaveSlotRow} from "./SaveSlotRow"
+
+/**
+ * Lists the slots of a {@link SaveSlotManager} in a ScrollView inside a
+ * ContainerFrame, newest first, with buttons to load, duplicate, rename and
+ * delete each one. Loading and deleting lose work, so they wait for the user
+ * to confirm. Renaming opens the system keyboard. Place it on the content of
+ * the ScrollView.
+ */
+@component
+export class SaveSlotBrowser extends BaseScriptComponent {
+  @input
+  manager!: SaveSlotManager
+  @input
+  frame!: ContainerFrame
+  @input
+  scrollView!: ScrollView
+  @input
+  @hint("Prefab with a SaveSlotRow component")
+  rowPrefab!: ObjectPrefab
+  @input
+  @hint("Distance between rows in ScreenTransform units")
+  rowHeight: number = 8
+  @ui.group_start("Confirmation")
+  @input
+  @hint("Dialog shown before loading or deleting a slot")
+  confirmation!: SceneObject
+  @input
+  confirmationText!: Text
+  @input
+  confirmButton!: PinchButton
+  @input
+  cancelButton!: PinchButton
+  @ui.group_end
+  private rows: Map<string, SaveSlotRow> = new Map()
+  private rowObjects: SceneObject[] = []
+  private pendingAction: (() => void) | null = null
+
+  // Keep track of "Unsubscribe" functions when adding callbacks to manager and button events, to ensure proper cleanup on destroy
+  private unsubscribeBag: unsubscribe[] = []
+
+  onAwake(): void {
+    this.confirmation.enabled = false
+    this.createEvent("OnStartEvent").bind(() => {
+      this.unsubscribeBag.push(
+        this.manager.onSlotsChanged.add((slots) => this.createRows(slots)),
+        this.confirmButton.onButtonPinched.add(() => {
+          const action = this.pendingAction
+          this.closeConfirmation()
+          action?.()
+        }),
+        this.cancelButton.onButtonPinched.add(() => this.closeConfirmation()),
+      )
+      this.createRows(this.manager.getSlots())
+    })
+    this.createEvent("OnDestroyEvent").bind(() => {
+      this.unsubscribeBag.forEach((unsubscribe) => unsubscribe())
+      this.unsubscribeBag = []
+    })
+  }
+
+  /**
+   * Shows or hides the browser. Can be bound to a PinchButton.
+   */
+  toggle(): void {
+    const frameObject = this.frame.getSceneObject()
+    frameObject.enabled = !frameObject.enabled
+    this.closeConfirmation()
+  }
+
+  /**
+   * Saves the current landscape into a new slot. Can be bound to a
+   * PinchButton.
+   */
+  saveNew(): void {
+    this.manager.saveNew()
+  }
+
+  private createRows(slots: SaveSlot[]): void {
+    this.rowObjects.forEach((row) => row.destroy())
+    this.rowObjects = []
+    this.rows.clear()
+
+    const sceneObj = this.getSceneObject()
+    const rowTypeName = SaveSlotRow.getTypeName()
+    for (let i = 0; i < slots.length; i++) {
+      const slot = slots[i]
+      const row = this.rowPrefab.instantiate(sceneObj)
+      const screenTransform = row.getComponent("Component.ScreenTransform")
+      screenTransform.offsets.setCenter(new vec2(0, -i * this.rowHeight))
+      row.enabled = true
+      this.rowObjects.push(row)
+
+      const slotRow: SaveSlotRow | null = row.getComponent(rowTypeName)
+      if (slotRow === null) {
+        continue
+      }
+      slotRow.init(slot, {
+        onLoad: () =>
+          this.confirm(
+            `Load "${slot.name}"? Unsaved changes will be lost.`,
+            () => this.manager.load(slot.id),
+          ),
+        onDuplicate: () => this.manager.duplicate(slot.id),
+        onRename: () => this.rename(slot),
+        onDelete: () =>
+          this.confirm(`Delete "${slot.name}"? This cannot be undone.`, () =>
+            this.manager.delete(slot.id),
+          ),
+      })
+      this.rows.set(slot.id, slotRow)
+      this.manager.getThumbnail(slot.id, (texture) => {
+        // Rows may have been rebuilt while the thumbnail was decoding
+        if (this.rows.get(slot.id) === slotRow) {
+          slotRow.setThumbnail(texture)
+        }
+      })
+    }
+
+    this.scrollView.recomputeBoundaries()
+  }
+
+  private confirm(message: string, action: () => void): void {
+    this.confirmationText.text = message
+    this.pendingAction = action
+    this.confirmation.enabled = true
+  }
+
+  private closeConfirmation(): void {
+    this.pendingAction = null
+    this.confirmation.enabled = false
+  }
+
+  private rename(slot: SaveSlot): void {
+    let name = slot.name
+    const options = new TextInputSystem.KeyboardOptions()
+    options.enablePreview = true
+    options.keyboardType = TextInputSystem.KeyboardType.Text
+    options.returnKeyType = TextInputSystem.ReturnKeyType.Done
+    options.initialText = slot.name
+    options.onTextChanged = (text: string) => {
+      name = text
+    }
+    options.onReturnKeyPressed = () => {
+      this.manager.rename(slot.id, name)
+      global.textInputSystem.dismissKeyboard()
+    }
+    global.textInputSystem.requestKeyboard(options)
+  }
+}
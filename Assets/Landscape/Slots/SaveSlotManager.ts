@@ -0,0 +1,304 @@
+import Event, {PublicApi} from "SpectaclesInteractionKit/Utils/Event"
+import NativeLogger from "SpectaclesInteractionKit/Utils/NativeLogger"
+import {
+  LandscapeDocument,
+  parseLandscapeDocument,
+} from "../Core/LandscapeDocument"
+import {LandscapeObjectRegistry} from "../Core/LandscapeObjectRegistry"
+import {LandscapeSerializer} from "../Core/LandscapeSerializer"
+
+const TAG = "SaveSlotManager"
+
+/**
+ * A named landscape saved in persistent storage.
+ */
+export type SaveSlot = {
+  id: string
+  name: string
+  /**
+   * Time of the last save, in milliseconds since the epoch.
+   */
+  savedAt: number
+  objectCount: number
+}
+
+type SlotIndex = {
+  nextId: number
+  slots: SaveSlot[]
+}
+
+/**
+ * Keeps any number of named landscapes in persistent storage, each with a
+ * thumbnail copied from a render target when it is saved, e.g. the output of
+ * a camera looking down on the landscape.
+ *
+ * The slot list is stored under {@link storageKey}, each slot's document and
+ * JPEG thumbnail under keys derived from it.
+ */
+@component
+export class SaveSlotManager extends BaseScriptComponent {
+  @input
+  @hint("Key the slot list is stored under in persistent storage")
+  storageKey: string = "landscape.slots"
+  @input
+  @allowUndefined
+  @hint(
+    "Render target of a camera looking at the landscape, copied into the thumbnail on save",
+  )
+  thumbnailTarget: Texture | undefined
+
+  private registry = LandscapeObjectRegistry.getInstance()
+  private serializer = new LandscapeSerializer()
+  private store = global.persistentStorageSystem.store
+
+  private index: SlotIndex = {nextId: 1, slots: []}
+  // Decoded thumbnails, by slot id
+  private thumbnails: Map<string, Texture> = new Map()
+
+  // Native Logging
+  private log = new NativeLogger(TAG)
+
+  private onSlotsChangedEvent = new Event<SaveSlot[]>()
+  /**
+   * Called whenever a slot is added, changed or deleted
+   */
+  onSlotsChanged: PublicApi<SaveSlot[]> = this.onSlotsChangedEvent.publicApi()
+
+  onAwake(): void {
+    this.readIndex()
+  }
+
+  /**
+   * Returns every slot, most recently saved first.
+   */
+  getSlots(): SaveSlot[] {
+    return this.index.slots
+      .slice()
+      .sort((a, b) => b.savedAt - a.savedAt)
+      .map((slot) => ({...slot}))
+  }
+
+  getSlot(id: string): SaveSlot | null {
+    const slot = this.findSlot(id)
+    return slot !== null ? {...slot} : null
+  }
+
+  /**
+   * Saves the current landscape into a new slot.
+   *
+   * @param name - name of the slot, "Landscape" followed by a number by default.
+   */
+  saveNew(name?: string): SaveSlot {
+    const number = this.index.nextId++
+    const slot: SaveSlot = {
+      id: `slot_${number}`,
+      name: name ?? `Landscape ${number}`,
+      savedAt: 0,
+      objectCount: 0,
+    }
+    this.index.slots.push(slot)
+    this.write(slot)
+    return {...slot}
+  }
+
+  /**
+   * Saves the current landscape over an existing slot, keeping its name.
+   *
+   * @returns false if there is no slot with this id.
+   */
+  saveTo(id: string): boolean {
+    const slot = this.findSlot(id)
+    if (slot === null) {
+      return false
+    }
+    this.write(slot)
+    return true
+  }
+
+  /**
+   * Replaces the current landscape with the one saved in a slot.
+   *
+   * @returns true if the slot was found and loaded.
+   */
+  load(id: string): boolean {
+    const key = this.getDocumentKey(id)
+    if (this.findSlot(id) === null || !this.store.has(key)) {
+      return false
+    }
+
+    let document: LandscapeDocument
+    try {
+      document = parseLandscapeDocument(this.store.getString(key))
+    } catch (error) {
+      this.log.e(`Failed to read slot ${id}: ${error}`)
+      return false
+    }
+
+    this.registry.clear()
+    const placedObjects = this.serializer.deserialize(document)
+    this.log.d(`Loaded ${placedObjects.length} objects from slot ${id}`)
+    return true
+  }
+
+  /**
+   * Copies a slot, thumbnail included, into a new slot named after it.
+   *
+   * @returns the new slot, or null if there is no slot with this id.
+   */
+  duplicate(id: string): SaveSlot | null {
+    const source = this.findSlot(id)
+    if (source === null) {
+      return null
+    }
+
+    const copy: SaveSlot = {
+      ...source,
+      id: `slot_${this.index.nextId++}`,
+      name: `${source.name} copy`,
+    }
+    this.copyKey(this.getDocumentKey(id), this.getDocumentKey(copy.id))
+    this.copyKey(this.getThumbnailKey(id), this.getThumbnailKey(copy.id))
+    const thumbnail = this.thumbnails.get(id)
+    if (thumbnail !== undefined) {
+      this.thumbnails.set(copy.id, thumbnail)
+    }
+
+    this.index.slots.push(copy)
+    this.writeIndex()
+    return {...copy}
+  }
+
+  /**
+   * @returns false if there is no slot with this id or the name is empty.
+   */
+  rename(id: string, name: string): boolean {
+    const slot = this.findSlot(id)
+    const trimmed = name.trim()
+    if (slot === null || trimmed.length === 0) {
+      return false
+    }
+    slot.name = trimmed
+    this.writeIndex()
+    return true
+  }
+
+  /**
+   * Deletes a slot with its document and thumbnail. The landscape in the
+   * scene is left untouched.
+   *
+   * @returns false if there is no slot with this id.
+   */
+  delete(id: string): boolean {
+    if (this.findSlot(id) === null) {
+      return false
+    }
+    this.index.slots = this.index.slots.filter((slot) => slot.id !== id)
+    this.store.remove(this.getDocumentKey(id))
+    this.store.remove(this.getThumbnailKey(id))
+    this.thumbnails.delete(id)
+    this.writeIndex()
+    return true
+  }
+
+  /**
+   * Looks up the thumbnail of a slot. Stored thumbnails are decoded
+   * asynchronously the first time they are asked for.
+   *
+   * @param onLoaded - called with the thumbnail, or null if the slot has none.
+   */
+  getThumbnail(id: string, onLoaded: (texture: Texture | null) => void): void {
+    const cached = this.thumbnails.get(id)
+    if (cached !== undefined) {
+      onLoaded(cached)
+      return
+    }
+
+    const key = this.getThumbnailKey(id)
+    if (!this.store.has(key)) {
+      onLoaded(null)
+      return
+    }
+    Base64.decodeTextureAsync(
+      this.store.getString(key),
+      (texture) => {
+        this.thumbnails.set(id, texture)
+        onLoaded(texture)
+      },
+      () => {
+        this.log.w(`Failed to decode the thumbnail of slot ${id}`)
+        onLoaded(null)
+      },
+    )
+  }
+
+  private write(slot: SaveSlot): void {
+    const document = this.serializer.serialize()
+    this.store.putString(this.getDocumentKey(slot.id), JSON.stringify(document))
+    slot.savedAt = document.savedAt
+    slot.objectCount = document.objects.length
+    this.captureThumbnail(slot.id)
+    this.writeIndex()
+    this.log.d(`Saved ${slot.objectCount} objects to slot ${slot.id}`)
+  }
+
+  private captureThumbnail(id: string): void {
+    if (this.thumbnailTarget === undefined) {
+      return
+    }
+
+    // Copy the render target, as it keeps changing with the camera
+    const thumbnail = ProceduralTextureProvider.createFromTexture(
+      this.thumbnailTarget,
+    )
+    this.thumbnails.set(id, thumbnail)
+    Base64.encodeTextureAsync(
+      thumbnail,
+      (encoded) => {
+        // The slot may have been deleted while encoding
+        if (this.findSlot(id) !== null) {
+          this.store.putString(this.getThumbnailKey(id), encoded)
+        }
+      },
+      () => this.log.w(`Failed to encode the thumbnail of slot ${id}`),
+      CompressionQuality.LowQuality,
+      EncodingType.Jpg,
+    )
+  }
+
+  private readIndex(): void {
+    if (!this.store.has(this.storageKey)) {
+      return
+    }
+    try {
+      const index = JSON.parse(this.store.getString(this.storageKey))
+      if (Number.isInteger(index.nextId) && Array.isArray(index.slots)) {
+        this.index = index
+      }
+    } catch (error) {
+      this.log.e(`Failed to read the save slots: ${error}`)
+    }
+  }
+
+  private writeIndex(): void {
+    this.store.putString(this.storageKey, JSON.stringify(this.index))
+    this.onSlotsChangedEvent.invoke(this.getSlots())
+  }
+
+  private copyKey(from: string, to: string): void {
+    if (this.store.has(from)) {
+      this.store.putString(to, this.store.getString(from))
+    }
+  }
+
+  private findSlot(id: string): SaveSlot | null {
+    return this.index.slots.find((slot) => slot.id === id) ?? null
+  }
+
+  private getDocumentKey(id: string): string {
+    return `${this.storageKey}.${id}`
+  }
+
+  private getThumbnailKey(id: string): string {
+    return `${this.storageKey}.${id}.thumbnail`
+  }
+}
@@ -0,0 +1,80 @@
+import {PinchButton} from "SpectaclesInteractionKit/Components/UI/PinchButton/PinchButton"
+import {unsubscribe} from "SpectaclesInteractionKit/Utils/Event"
+import {SaveSlot} from "./SaveSlotManager"
+
+/**
+ * What the buttons of a {@link SaveSlotRow} do.
+ */
+export type SaveSlotRowActions = {
+  onLoad: () => void
+  onDuplicate: () => void
+  onRename: () => void
+  onDelete: () => void
+}
+
+/**
+ * A single row of the save slot browser. Shows the slot's name, save time,
+ * object count and thumbnail, and forwards its buttons to the browser.
+ */
+@component
+export class SaveSlotRow extends BaseScriptComponent {
+  @input
+  label!: Text
+  @input
+  @hint("Text showing the save time and object count")
+  details!: Text
+  @input
+  @allowUndefined
+  thumbnail: Image | undefined
+  @input
+  loadButton!: PinchButton
+  @input
+  duplicateButton!: PinchButton
+  @input
+  renameButton!: PinchButton
+  @input
+  deleteButton!: PinchButton
+
+  // Keep track of "Unsubscribe" functions when adding callbacks to button events, to ensure proper cleanup on destroy
+  private unsubscribeBag: unsubscribe[] = []
+
+  onAwake(): void {
+    this.createEvent("OnDestroyEvent").bind(() => {
+      this.unsubscribeBag.forEach((unsubscribe) => unsubscribe())
+      this.unsubscribeBag = []
+    })
+  }
+
+  /**
+   * Fills in the row for a slot.
+   */
+  init(slot: SaveSlot, actions: SaveSlotRowActions): void {
+    this.label.text = slot.name
+    this.details.text = `${formatTimestamp(slot.savedAt)} · ${slot.objectCount} objects`
+    this.setThumbnail(null)
+
+    this.unsubscribeBag.push(
+      this.loadButton.onButtonPinched.add(() => actions.onLoad()),
+      this.duplicateButton.onButtonPinched.add(() => actions.onDuplicate()),
+      this.renameButton.onButtonPinched.add(() => actions.onRename()),
+      this.deleteButton.onButtonPinched.add(() => actions.onDelete()),
+    )
+  }
+
+  setThumbnail(texture: Texture | null): void {
+    if (this.thumbnail === undefined) {
+      return
+    }
+    this.thumbnail.enabled = texture !== null
+    if (texture !== null) {
+      this.thumbnail.mainMaterial = this.thumbnail.mainMaterial.clone()
+      this.thumbnail.mainPass.baseTex = texture
+    }
+  }
+}
+
+function formatTimestamp(time: number): string {
+  const date = new Date(time)
+  const pad = (value: number) => value.toString().padStart(2, "0")
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`
+}
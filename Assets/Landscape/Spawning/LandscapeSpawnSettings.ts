@@ -0,0 +1,33 @@
+import {PrefabPool} from "../Core/PrefabPool"
+import {EvictionPolicy, LandscapeSpawner} from "./LandscapeSpawner"
+
+/**
+ * Configures the instance budget and pooling of the {@link LandscapeSpawner}
+ * from the Inspector.
+ */
+@component
+export class LandscapeSpawnSettings extends BaseScriptComponent {
+  @input
+  @hint("Maximum number of objects placed in the landscape at once")
+  instanceBudget: number = 150
+  @input
+  @hint("Which object is removed when placing another would exceed the budget")
+  @widget(
+    new ComboBoxWidget([
+      new ComboBoxItem("Oldest Untouched", "OldestUntouched"),
+      new ComboBoxItem("Oldest Placed", "OldestPlaced"),
+      new ComboBoxItem("None", "None"),
+    ]),
+  )
+  evictionPolicy: string = "OldestUntouched"
+  @input
+  @hint("Maximum number of idle instances kept for reuse per prefab")
+  maxPooledPerPrefab: number = 20
+
+  onAwake(): void {
+    const spawner = LandscapeSpawner.getInstance()
+    spawner.instanceBudget = this.instanceBudget
+    spawner.evictionPolicy = this.evictionPolicy as EvictionPolicy
+    PrefabPool.getInstance().maxPooledPerPrefab = this.maxPooledPerPrefab
+  }
+}
@@ -0,0 +1,208 @@
+import {Singleton} from "SpectaclesInteractionKit/Decorators/Singleton"
+import Event, {PublicApi} from "SpectaclesInteractionKit/Utils/Event"
+import NativeLogger from "SpectaclesInteractionKit/Utils/NativeLogger"
+import {
+  LandscapeObjectRegistry,
+  PlacedObject,
+} from "../Core/LandscapeObjectRegistry"
+import {ManipulationTracker} from "../Core/ManipulationTracker"
+import {PrefabPool} from "../Core/PrefabPool"
+import {applyTransform, TransformSnapshot} from "../Core/TransformSnapshot"
+import {CompositeCommand} from "../History/CompositeCommand"
+import {DeleteCommand} from "../History/DeleteCommand"
+import {LandscapeCommand} from "../History/LandscapeCommand"
+import {LandscapeHistory} from "../History/LandscapeHistory"
+import {SpawnCommand} from "../History/SpawnCommand"
+
+const TAG = "LandscapeSpawner"
+
+const DEFAULT_INSTANCE_BUDGET = 150
+
+/**
+ * Decides which placed object makes room when the instance budget is hit.
+ */
+export enum EvictionPolicy {
+  /**
+   * Remove the object that was grabbed or placed the longest time ago.
+   */
+  OldestUntouched = "OldestUntouched",
+  /**
+   * Remove the object that was placed first.
+   */
+  OldestPlaced = "OldestPlaced",
+  /**
+   * Never remove objects, only report that the budget was exceeded.
+   */
+  None = "None",
+}
+
+export type BudgetReachedEventArg = {
+  budget: number
+  count: number
+  /**
+   * The object removed to make room, or null if nothing was removed.
+   */
+  evicted: PlacedObject | null
+}
+
+/**
+ * Creates placed objects from pooled prefab instances and keeps the number of
+ * placed objects within a global budget.
+ */
+@Singleton
+export class LandscapeSpawner {
+  public static getInstance: () => LandscapeSpawner
+
+  private registry = LandscapeObjectRegistry.getInstance()
+  private history = LandscapeHistory.getInstance()
+  private pool = PrefabPool.getInstance()
+  private tracker = ManipulationTracker.getInstance()
+
+  private placedAt: Map<string, number> = new Map()
+  private touchedAt: Map<string, number> = new Map()
+  private touchCounter = 0
+
+  // Native Logging
+  private log = new NativeLogger(TAG)
+
+  /**
+   * Maximum number of objects placed in the landscape at once.
+   */
+  instanceBudget = DEFAULT_INSTANCE_BUDGET
+
+  evictionPolicy = EvictionPolicy.OldestUntouched
+
+  private onBudgetReachedEvent = new Event<BudgetReachedEventArg>()
+  /**
+   * Called whenever placing an object would exceed the instance budget
+   */
+  onBudgetReached: PublicApi<BudgetReachedEventArg> =
+    this.onBudgetReachedEvent.publicApi()
+
+  constructor() {
+    this.registry.onObjectAdded.add((placedObject) => {
+      this.placedAt.set(placedObject.id, this.nextTouch())
+      this.touch(placedObject)
+    })
+    this.registry.onObjectRemoved.add((placedObject) => {
+      this.placedAt.delete(placedObject.id)
+      this.touchedAt.delete(placedObject.id)
+    })
+    this.tracker.onManipulationStarted.add((event) =>
+      this.touch(event.placedObject),
+    )
+    this.tracker.onManipulationEnded.add((event) =>
+      this.touch(event.placedObject),
+    )
+  }
+
+  /**
+   * Returns a pooled instance of the prefab that is not yet part of the
+   * landscape, e.g. stock waiting on a spawn pad. Pass it to
+   * {@link place} once the user places it.
+   */
+  acquire(prefab: ObjectPrefab, parent: SceneObject | null): SceneObject {
+    return this.pool.acquire(prefab, parent)
+  }
+
+  /**
+   * Returns an instance obtained from {@link acquire} that was never placed.
+   */
+  release(prefab: ObjectPrefab, sceneObject: SceneObject): void {
+    this.pool.release(prefab, sceneObject)
+  }
+
+  /**
+   * Adds an instance to the landscape, evicting older objects if the budget
+   * is exceeded, and records the spawn so it can be undone.
+   *
+   * @param sceneObject - the instance, usually obtained from {@link acquire}.
+   * @param prefab - the prefab it was instantiated from.
+   * @returns the placed object.
+   */
+  place(sceneObject: SceneObject, prefab: ObjectPrefab): PlacedObject {
+    const evictions = this.makeRoom()
+
+    const placedObject = this.registry.add(sceneObject, prefab)
+    const spawnCommand = new SpawnCommand(placedObject)
+    this.history.record(
+      evictions.length > 0
+        ? new CompositeCommand(spawnCommand.label, [...evictions, spawnCommand])
+        : spawnCommand,
+    )
+    return placedObject
+  }
+
+  /**
+   * Spawns a prefab directly into the landscape at the given pose.
+   *
+   * @param prefab - the prefab to spawn.
+   * @param pose - the world pose of the new object.
+   * @returns the placed object.
+   */
+  spawn(prefab: ObjectPrefab, pose: TransformSnapshot): PlacedObject {
+    const sceneObject = this.acquire(prefab, null)
+    applyTransform(sceneObject.getTransform(), pose)
+    return this.place(sceneObject, prefab)
+  }
+
+  private makeRoom(): LandscapeCommand[] {
+    const evictions: LandscapeCommand[] = []
+
+    let count = this.registry.count
+    while (count >= this.instanceBudget) {
+      const evicted = this.findEvictionCandidate()
+      this.onBudgetReachedEvent.invoke({
+        budget: this.instanceBudget,
+        count: count,
+        evicted: evicted,
+      })
+      if (evicted === null) {
+        this.log.w(`Instance budget of ${this.instanceBudget} exceeded`)
+        break
+      }
+
+      const deleteCommand = new DeleteCommand(evicted)
+      deleteCommand.execute()
+      evictions.push(deleteCommand)
+      count--
+    }
+
+    return evictions
+  }
+
+  private findEvictionCandidate(): PlacedObject | null {
+    if (this.evictionPolicy === EvictionPolicy.None) {
+      return null
+    }
+
+    const timestamps =
+      this.evictionPolicy === EvictionPolicy.OldestPlaced
+        ? this.placedAt
+        : this.touchedAt
+
+    let candidate: PlacedObject | null = null
+    let oldest = Infinity
+    for (const placedObject of this.registry.getAll()) {
+      // Never pull an object out of the user's hand
+      if (this.tracker.isManipulating(placedObject.id)) {
+        continue
+      }
+      const timestamp = timestamps.get(placedObject.id) ?? 0
+      if (timestamp < oldest) {
+        oldest = timestamp
+        candidate = placedObject
+      }
+    }
+    return candidate
+  }
+
+  private touch(placedObject: PlacedObject): void {
+    this.touchedAt.set(placedObject.id, this.nextTouch())
+  }
+
+  // A counter rather than getTime() so objects touched in the same frame still have a strict order
+  private nextTouch(): number {
+    return ++this.touchCounter
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * State of a spawn pad whose tool has been picked up.
+ */
+export type PickupStatus = {
+  /**
+   * Seconds since the tool was picked up.
+   */
+  elapsed: number
+  /**
+   * Distance between the tool and its pad, in cm. Infinity once the tool
+   * has been taken.
+   */
+  distance: number
+  /**
+   * True once the tool has been pulled far enough off its pad to be placed
+   * in the landscape.
+   */
+  taken: boolean
+}
+
+/**
+ * Decides when an empty spawn pad receives a new tool.
+ */
+export interface RespawnPolicy {
+  /**
+   * Called every frame while the pad is empty.
+   *
+   * @returns true to spawn a new tool on the pad.
+   */
+  shouldRespawn(status: PickupStatus): boolean
+}
+
+/**
+ * Restocks the pad as soon as its tool is grabbed.
+ */
+export class GrabStartRespawnPolicy implements RespawnPolicy {
+  shouldRespawn(): boolean {
+    return true
+  }
+}
+
+/**
+ * Restocks the pad once its tool has been pulled far enough away to be
+ * placed in the landscape.
+ */
+export class DistanceRespawnPolicy implements RespawnPolicy {
+  shouldRespawn(status: PickupStatus): boolean {
+    return status.taken
+  }
+}
+
+/**
+ * Restocks the pad a fixed time after its tool was picked up.
+ */
+export class DelayRespawnPolicy implements RespawnPolicy {
+  /**
+   * @param delay - seconds to wait after the pickup.
+   */
+  constructor(private delay: number) {}
+
+  shouldRespawn(status: PickupStatus): boolean {
+    return status.elapsed >= this.delay
+  }
+}
+
+/**
+ * Never restocks the pad, so each tool can only be taken once.
+ */
+export class NeverRespawnPolicy implements RespawnPolicy {
+  shouldRespawn(): boolean {
+    return false
+  }
+}
@@ -0,0 +1,351 @@
+import {Interactable} from "SpectaclesInteractionKit/Components/Interaction/Interactable/Interactable"
+import {unsubscribe} from "SpectaclesInteractionKit/Utils/Event"
+import NativeLogger from "SpectaclesInteractionKit/Utils/NativeLogger"
+import {
+  quatToRecord,
+  recordToQuat,
+  recordToVec3,
+  vec3ToRecord,
+} from "../Core/LandscapeDocument"
+import {
+  LandscapeObjectRegistry,
+  PlacedObject,
+} from "../Core/LandscapeObjectRegistry"
+import {ManipulationTracker} from "../Core/ManipulationTracker"
+import {PrefabCatalog} from "../Core/PrefabCatalog"
+import {PrefabPool} from "../Core/PrefabPool"
+import {
+  applyTransform,
+  captureTransform,
+  snapshotsEqual,
+  TransformSnapshot,
+} from "../Core/TransformSnapshot"
+import {LandscapeHistory} from "../History/LandscapeHistory"
+import {forEachInHierarchy} from "../Utils/SceneObjectUtils"
+import {VariantRegistry} from "../Variants/VariantRegistry"
+import {VariantSwapper} from "../Variants/VariantSwapper"
+import {SyncTransform} from "./SyncMessage"
+import {
+  SyncLockChangedEventArg,
+  SyncObjectChangedEventArg,
+  SyncReplica,
+} from "./SyncReplica"
+import {SyncTransport} from "./SyncTransport"
+
+const TAG = "LandscapeSync"
+
+/**
+ * Shares the landscape with the other users of a session. Spawns, deletes,
+ * transforms and variant swaps made here are sent through a
+ * {@link SyncTransport}, and the other users' changes are applied to the
+ * scene. Objects are locked while a user holds them: they cannot be grabbed
+ * by anyone else until they are let go.
+ *
+ * Call {@link connect} with the session's transport, or with a
+ * LoopbackTransport to try it without a network.
+ */
+@component
+export class LandscapeSync extends BaseScriptComponent {
+  @input
+  @hint(
+    "Id of this user in the session. Leave empty to pick a random one on connect.",
+  )
+  peerId: string = ""
+  @input
+  @hint("Seconds between transform messages while an object is being moved")
+  transformInterval: number = 0.1
+
+  private registry = LandscapeObjectRegistry.getInstance()
+  private tracker = ManipulationTracker.getInstance()
+  private history = LandscapeHistory.getInstance()
+  private swapper = VariantSwapper.getInstance()
+  private variants = VariantRegistry.getInstance()
+  private catalog = PrefabCatalog.getInstance()
+  private pool = PrefabPool.getInstance()
+
+  private replica: SyncReplica | null = null
+  // Object whose change from another user is being applied, so the change is not sent back
+  private remoteObjectId: string | null = null
+  private lastTransformTimes: Map<string, number> = new Map()
+  // Interactables disabled because another user holds their object
+  private blockedInteractables: Map<string, Interactable[]> = new Map()
+
+  // Native Logging
+  private log = new NativeLogger(TAG)
+
+  // Keep track of "Unsubscribe" functions when adding callbacks to landscape and replica events, to ensure proper cleanup on disconnect
+  private unsubscribeBag: unsubscribe[] = []
+
+  onAwake(): void {
+    this.createEvent("OnDestroyEvent").bind(() => this.disconnect())
+  }
+
+  /**
+   * Joins a session. The objects already placed here are sent to the other
+   * users, and the users already in the session send theirs.
+   *
+   * @returns the replica holding the shared state.
+   */
+  connect(transport: SyncTransport): SyncReplica {
+    this.disconnect()
+    if (this.peerId.length === 0) {
+      this.peerId = Math.random().toString(36).slice(2, 8)
+    }
+    this.registry.setIdPrefix(this.peerId)
+
+    const replica = new SyncReplica(this.peerId, transport)
+    this.replica = replica
+    this.unsubscribeBag.push(
+      replica.onObjectChanged.add((event) => this.applyRemoteChange(event)),
+      replica.onLockChanged.add((event) => this.onLockChanged(event)),
+      // Other objects changed as a side effect, e.g. evicted to stay within the instance budget, are still sent
+      this.registry.onObjectAdded.add((placedObject) => {
+        if (placedObject.id !== this.remoteObjectId) {
+          this.publishSpawn(placedObject)
+        }
+      }),
+      this.registry.onObjectRemoved.add((placedObject) => {
+        if (placedObject.id !== this.remoteObjectId) {
+          replica.delete(placedObject.id)
+        }
+      }),
+      this.swapper.onVariantApplied.add((event) => {
+        if (event.placedObject.id !== this.remoteObjectId) {
+          replica.setVariant(
+            event.placedObject.id,
+            event.placedObject.prefab.name,
+            event.material?.name ?? null,
+          )
+        }
+      }),
+      this.tracker.onManipulationStarted.add((event) =>
+        replica.lock(event.placedObject.id),
+      ),
+      this.tracker.onManipulationUpdated.add((event) => {
+        const id = event.placedObject.id
+        const now = getTime()
+        if (
+          replica.getLockOwner(id) === this.peerId &&
+          now - (this.lastTransformTimes.get(id) ?? -Infinity) >=
+            this.transformInterval
+        ) {
+          this.lastTransformTimes.set(id, now)
+          replica.setTransform(id, toSyncTransform(event.currentPose))
+        }
+      }),
+      this.tracker.onManipulationEnded.add((event) => {
+        const id = event.placedObject.id
+        if (replica.getLockOwner(id) === this.peerId) {
+          replica.setTransform(id, toSyncTransform(event.endPose))
+        } else {
+          // Another user won the object while it was being grabbed here
+          this.restoreTransform(event.placedObject)
+        }
+        this.lastTransformTimes.delete(id)
+        replica.unlock(id)
+      }),
+      // Undo, redo and tools other than grabbing move objects without manipulation events
+      this.history.onHistoryChanged.add(() => this.publishMovedObjects()),
+    )
+
+    this.registry
+      .getAll()
+      .forEach((placedObject) => this.publishSpawn(placedObject))
+    replica.join()
+    this.log.d(`Connected as ${this.peerId}`)
+    return replica
+  }
+
+  /**
+   * Leaves the session, releasing every object held here.
+   */
+  disconnect(): void {
+    if (this.replica === null) {
+      return
+    }
+    this.replica.leave()
+    this.replica.destroy()
+    this.replica = null
+
+    this.unsubscribeBag.forEach((unsubscribe) => unsubscribe())
+    this.unsubscribeBag = []
+    Array.from(this.blockedInteractables.keys()).forEach((id) =>
+      this.setBlocked(id, false),
+    )
+    this.lastTransformTimes.clear()
+    this.registry.setIdPrefix("")
+  }
+
+  get isConnected(): boolean {
+    return this.replica !== null
+  }
+
+  private publishSpawn(placedObject: PlacedObject): void {
+    this.replica?.spawn(
+      placedObject.id,
+      placedObject.prefab.name,
+      toSyncTransform(
+        captureTransform(placedObject.sceneObject.getTransform()),
+      ),
+      this.swapper.captureState(placedObject).material?.name ?? null,
+    )
+  }
+
+  private publishMovedObjects(): void {
+    const replica = this.replica
+    if (replica === null || this.remoteObjectId !== null) {
+      return
+    }
+    for (const placedObject of this.registry.getAll()) {
+      const id = placedObject.id
+      const state = replica.getState(id)
+      const owner = replica.getLockOwner(id)
+      if (
+        state === null ||
+        this.tracker.isManipulating(id) ||
+        (owner !== null && owner !== this.peerId)
+      ) {
+        continue
+      }
+      const pose = captureTransform(placedObject.sceneObject.getTransform())
+      if (!snapshotsEqual(pose, fromSyncTransform(state.transform))) {
+        replica.setTransform(id, toSyncTransform(pose))
+      }
+    }
+  }
+
+  private applyRemoteChange(event: SyncObjectChangedEventArg): void {
+    const {objectId, state} = event
+    this.remoteObjectId = objectId
+    try {
+      const placedObject = this.registry.getById(objectId)
+
+      if (!state.alive) {
+        if (placedObject !== null) {
+          this.setBlocked(objectId, false)
+          // Hidden rather than pooled, as commands in the local history may still use the instance
+          this.registry.remove(objectId)
+          if (!isNull(placedObject.sceneObject)) {
+            placedObject.sceneObject.enabled = false
+          }
+        }
+        return
+      }
+
+      const prefab = this.catalog.findByName(state.prefabName)
+      if (prefab === null) {
+        this.log.w(
+          `Cannot sync ${objectId}: unknown prefab ${state.prefabName}`,
+        )
+        return
+      }
+      const material =
+        state.materialName !== null
+          ? this.variants.findMaterial(prefab, state.materialName)
+          : null
+
+      if (placedObject === null) {
+        const sceneObject = this.pool.acquire(prefab, null)
+        applyTransform(
+          sceneObject.getTransform(),
+          fromSyncTransform(state.transform),
+        )
+        const spawned = this.registry.add(sceneObject, prefab, objectId)
+        if (material !== null) {
+          this.swapper.applyVariant(objectId, {
+            prefab: prefab,
+            sceneObject: spawned.sceneObject,
+            material: material,
+          })
+        }
+        // The object may have been grabbed by its owner before it arrived here
+        const owner = this.replica?.getLockOwner(objectId) ?? null
+        this.setBlocked(objectId, owner !== null && owner !== this.peerId)
+        return
+      }
+
+      if (!this.tracker.isManipulating(objectId)) {
+        applyTransform(
+          placedObject.sceneObject.getTransform(),
+          fromSyncTransform(state.transform),
+        )
+      }
+
+      const current = this.swapper.captureState(placedObject)
+      if (current.prefab !== prefab) {
+        // The old instance is only disabled, as commands in the local history may still use it
+        this.swapper.applyVariant(objectId, {
+          prefab: prefab,
+          sceneObject: this.swapper.createInstance(prefab),
+          material: material,
+        })
+      } else if (current.material !== material) {
+        this.swapper.applyVariant(objectId, {...current, material: material})
+      }
+    } finally {
+      this.remoteObjectId = null
+    }
+  }
+
+  private onLockChanged(event: SyncLockChangedEventArg): void {
+    this.setBlocked(
+      event.objectId,
+      event.owner !== null && event.owner !== this.peerId,
+    )
+  }
+
+  // Disabling the interactables also ends a grab in progress
+  private setBlocked(objectId: string, blocked: boolean): void {
+    if (!blocked) {
+      this.blockedInteractables
+        .get(objectId)
+        ?.forEach((interactable) => (interactable.enabled = true))
+      this.blockedInteractables.delete(objectId)
+      return
+    }
+
+    const placedObject = this.registry.getById(objectId)
+    if (placedObject === null || this.blockedInteractables.has(objectId)) {
+      return
+    }
+    // Only touch interactables that are enabled, so e.g. locked layers stay locked
+    const interactables: Interactable[] = []
+    forEachInHierarchy(placedObject.sceneObject, (sceneObject) => {
+      for (const interactable of sceneObject.getComponents(
+        Interactable.getTypeName(),
+      )) {
+        if (interactable.enabled) {
+          interactable.enabled = false
+          interactables.push(interactable)
+        }
+      }
+    })
+    this.blockedInteractables.set(objectId, interactables)
+  }
+
+  private restoreTransform(placedObject: PlacedObject): void {
+    const state = this.replica?.getState(placedObject.id) ?? null
+    if (state !== null && state.alive) {
+      applyTransform(
+        placedObject.sceneObject.getTransform(),
+        fromSyncTransform(state.transform),
+      )
+    }
+  }
+}
+
+function toSyncTransform(pose: TransformSnapshot): SyncTransform {
+  return {
+    position: vec3ToRecord(pose.position),
+    rotation: quatToRecord(pose.rotation),
+    scale: vec3ToRecord(pose.scale),
+  }
+}
+
+function fromSyncTransform(transform: SyncTransform): TransformSnapshot {
+  return {
+    position: recordToVec3(transform.position),
+    rotation: recordToQuat(transform.rotation),
+    scale: recordToVec3(transform.scale),
+  }
+}
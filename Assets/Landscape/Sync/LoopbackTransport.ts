@@ -0,0 +1,91 @@
+import Event, {PublicApi} from "SpectaclesInteractionKit/Utils/Event"
+import {SyncMessage} from "./SyncMessage"
+import {SyncTransport} from "./SyncTransport"
+
+type QueuedMessage = {
+  recipient: LoopbackTransport
+  json: string
+}
+
+/**
+ * In-process stand-in for a network, connecting any number of
+ * {@link LoopbackTransport}s. Messages are queued until {@link flush}, so
+ * tests can interleave the peers' changes and check that they converge
+ * without any network service.
+ */
+export class LoopbackNetwork {
+  private transports: LoopbackTransport[] = []
+  private queue: QueuedMessage[] = []
+
+  /**
+   * @param autoFlush - deliver every message as soon as it is sent, e.g. to mirror a landscape inside one lens.
+   */
+  constructor(private autoFlush: boolean = false) {}
+
+  createTransport(): LoopbackTransport {
+    const transport = new LoopbackTransport(this)
+    this.transports.push(transport)
+    return transport
+  }
+
+  get pendingCount(): number {
+    return this.queue.length
+  }
+
+  /**
+   * Delivers every queued message, including the ones sent while
+   * delivering.
+   *
+   * @param random - when given, delivers the queue in a random order drawn from it, to exercise reordering.
+   */
+  flush(random?: () => number): void {
+    while (this.queue.length > 0) {
+      const index =
+        random !== undefined
+          ? Math.min(
+              this.queue.length - 1,
+              Math.floor(random() * this.queue.length),
+            )
+          : 0
+      const queued = this.queue.splice(index, 1)[0]
+      queued.recipient.receive(JSON.parse(queued.json))
+    }
+  }
+
+  /**
+   * Queues a message for every transport but the sender. Messages go through
+   * JSON like on a real network, so peers never share objects.
+   */
+  broadcast(sender: LoopbackTransport, message: SyncMessage): void {
+    const json = JSON.stringify(message)
+    for (const transport of this.transports) {
+      if (transport !== sender) {
+        this.queue.push({recipient: transport, json: json})
+      }
+    }
+    if (this.autoFlush) {
+      this.flush()
+    }
+  }
+}
+
+/**
+ * Transport to the other peers of a {@link LoopbackNetwork}.
+ */
+export class LoopbackTransport implements SyncTransport {
+  private onMessageEvent = new Event<SyncMessage>()
+  /**
+   * Called for every message received from another peer
+   */
+  readonly onMessage: PublicApi<SyncMessage> = this.onMessageEvent.publicApi()
+
+  constructor(private network: LoopbackNetwork) {}
+
+  send(message: SyncMessage): void {
+    this.network.broadcast(this, message)
+  }
+
+  receive(message: SyncMessage): void {
+    this.onMessageEvent.invoke(message)
+  }
+}
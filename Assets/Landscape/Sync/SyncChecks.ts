@@ -0,0 +1,151 @@
+import {SeededRandomNumberGenerator} from "SpectaclesInteractionKit/Utils/SeededRandomNumberGenerator"
+import {expect, SelfCheck} from "../Checks/SelfCheck"
+import {LoopbackNetwork} from "./LoopbackTransport"
+import {SyncTransform} from "./SyncMessage"
+import {SyncReplica} from "./SyncReplica"
+
+// Delivery orders tried per check
+const SHUFFLED_RUNS = 20
+
+function createTransform(x: number): SyncTransform {
+  return {position: [x, 0, 0], rotation: [1, 0, 0, 0], scale: [1, 1, 1]}
+}
+
+// Objects and lock owners, in a form that can be compared across replicas
+function describe(replica: SyncReplica, objectIds: string[]): string {
+  const objects = Array.from(replica.getObjects().entries()).sort(([a], [b]) =>
+    a < b ? -1 : a > b ? 1 : 0,
+  )
+  const owners = objectIds.map((objectId) => replica.getLockOwner(objectId))
+  return JSON.stringify({objects: objects, owners: owners})
+}
+
+function expectConverged(replicas: SyncReplica[], objectIds: string[]): void {
+  const expected = describe(replicas[0], objectIds)
+  for (const replica of replicas) {
+    expect(
+      describe(replica, objectIds) === expected,
+      `${replica.peerId} diverged from ${replicas[0].peerId}`,
+    )
+  }
+}
+
+// Runs a scenario once per delivery order, with a seeded order so failures can be replayed
+function forEachDeliveryOrder(
+  scenario: (network: LoopbackNetwork, flush: () => void) => void,
+): void {
+  for (let seed = 1; seed <= SHUFFLED_RUNS; seed++) {
+    const random = new SeededRandomNumberGenerator(seed).randomRange(0, 1)
+    const network = new LoopbackNetwork()
+    try {
+      scenario(network, () => network.flush(random))
+    } catch (error) {
+      throw new Error(`delivery order ${seed}: ${error}`)
+    }
+  }
+}
+
+/**
+ * Checks that replicas connected by a {@link LoopbackNetwork} agree on the
+ * landscape whatever order their messages arrive in.
+ */
+export const SYNC_CHECKS: SelfCheck[] = [
+  {
+    name: "Replicas converge on concurrent edits",
+    run: () =>
+      forEachDeliveryOrder((network, flush) => {
+        const a = new SyncReplica("a", network.createTransport())
+        const b = new SyncReplica("b", network.createTransport())
+        const c = new SyncReplica("c", network.createTransport())
+
+        a.spawn("a1", "Tree", createTransform(1), null)
+        b.spawn("b1", "Rock", createTransform(2), "Moss")
+        flush()
+        a.setTransform("b1", createTransform(3))
+        b.setTransform("b1", createTransform(4))
+        c.setVariant("a1", "Tree", "Autumn")
+        b.delete("a1")
+        c.setTransform("a1", createTransform(5))
+        flush()
+
+        expectConverged([a, b, c], ["a1", "b1"])
+        expect(
+          !a.getObjects().has("a1"),
+          "the deleted object should stay deleted",
+        )
+      }),
+  },
+  {
+    name: "Replicas agree on the owner of concurrent locks",
+    run: () =>
+      forEachDeliveryOrder((network, flush) => {
+        const a = new SyncReplica("a", network.createTransport())
+        const b = new SyncReplica("b", network.createTransport())
+        a.spawn("x", "Tree", createTransform(0), null)
+        flush()
+
+        a.lock("x")
+        b.lock("x")
+        flush()
+        expectConverged([a, b], ["x"])
+        expect(a.getLockOwner("x") !== null, "someone should own the object")
+
+        a.leave()
+        flush()
+        expect(
+          b.getLockOwner("x") === "b",
+          "the lock should pass to b once a has left",
+        )
+      }),
+  },
+  {
+    name: "Late joiners catch up through snapshots",
+    run: () =>
+      forEachDeliveryOrder((network, flush) => {
+        const a = new SyncReplica("a", network.createTransport())
+        const b = new SyncReplica("b", network.createTransport())
+        a.spawn("a1", "Tree", createTransform(1), null)
+        b.spawn("b1", "Rock", createTransform(2), null)
+        b.lock("a1")
+        flush()
+        a.delete("b1")
+        flush()
+
+        const c = new SyncReplica("c", network.createTransport())
+        c.spawn("c1", "Flower", createTransform(3), null)
+        a.setTransform("a1", createTransform(4))
+        c.join()
+        b.setVariant("a1", "Tree", "Autumn")
+        flush()
+
+        expectConverged([a, b, c], ["a1", "b1", "c1"])
+        expect(c.getObjects().size === 2, "c should see a1 and c1")
+        expect(c.getLockOwner("a1") === "b", "c should see b holding a1")
+      }),
+  },
+  {
+    name: "Replicas drop malformed messages",
+    run: () => {
+      const replica = new SyncReplica(
+        "a",
+        new LoopbackNetwork().createTransport(),
+      )
+      replica.receive(null)
+      replica.receive({type: "spawn", senderId: "b", sequence: 1, clock: 1})
+      replica.receive({
+        type: "snapshot",
+        senderId: "b",
+        sequence: 1,
+        clock: 1,
+        recipientId: "a",
+        objects: [null],
+        locks: [],
+        sequences: {},
+      })
+      expect(
+        replica.getObjects().size === 0,
+        "malformed messages should not create objects",
+      )
+    },
+  },
+]
@@ -0,0 +1,280 @@
+import {
+  isQuatRecord,
+  isVec3Record,
+  QuatRecord,
+  Vec3Record,
+} from "../Core/LandscapeDocument"
+
+/**
+ * World-space pose of a placed object, in the records of the landscape
+ * document so messages stay JSON-serializable.
+ */
+export type SyncTransform = {
+  position: Vec3Record
+  rotation: QuatRecord
+  scale: Vec3Record
+}
+
+/**
+ * Logical time of a change. Stamps are totally ordered: by Lamport clock
+ * first, then by peer id, so every peer picks the same winner for concurrent
+ * changes.
+ */
+export type SyncStamp = {
+  clock: number
+  peerId: string
+}
+
+type SyncMessageHeader = {
+  senderId: string
+  /**
+   * Position of the message among the sender's messages, starting at 1.
+   * Receivers apply each sender's messages in this order and drop repeats.
+   * Hello and snapshot messages are not part of the order and carry the
+   * sequence of the sender's latest message instead.
+   */
+  sequence: number
+  /**
+   * Lamport clock of the sender when the message was sent.
+   */
+  clock: number
+}
+
+export type SpawnMessage = SyncMessageHeader & {
+  type: "spawn"
+  objectId: string
+  prefabName: string
+  transform: SyncTransform
+  materialName: string | null
+}
+
+export type TransformMessage = SyncMessageHeader & {
+  type: "transform"
+  objectId: string
+  transform: SyncTransform
+}
+
+export type DeleteMessage = SyncMessageHeader & {
+  type: "delete"
+  objectId: string
+}
+
+export type VariantMessage = SyncMessageHeader & {
+  type: "variant"
+  objectId: string
+  prefabName: string
+  materialName: string | null
+}
+
+export type LockMessage = SyncMessageHeader & {
+  type: "lock"
+  objectId: string
+}
+
+export type UnlockMessage = SyncMessageHeader & {
+  type: "unlock"
+  objectId: string
+}
+
+/**
+ * Sent when a peer leaves the session, so the others release its locks.
+ */
+export type LeaveMessage = SyncMessageHeader & {
+  type: "leave"
+}
+
+/**
+ * Sent when a peer joins the session, so the others send it a snapshot of
+ * the changes it missed.
+ */
+export type HelloMessage = SyncMessageHeader & {
+  type: "hello"
+}
+
+/**
+ * An object of a snapshot, with the stamp of the change behind each field.
+ */
+export type SyncObjectRecord = {
+  objectId: string
+  alive: boolean
+  prefabName: string
+  transform: SyncTransform
+  materialName: string | null
+  aliveStamp: SyncStamp
+  transformStamp: SyncStamp
+  variantStamp: SyncStamp
+}
+
+export type SyncLockRecord = {
+  objectId: string
+  peerId: string
+  stamp: SyncStamp
+}
+
+/**
+ * Everything the sender knows, sent in reply to a {@link HelloMessage}. It
+ * covers the sender's messages up to its sequence and the messages of other
+ * peers up to the sequences listed.
+ */
+export type SnapshotMessage = SyncMessageHeader & {
+  type: "snapshot"
+  recipientId: string
+  objects: SyncObjectRecord[]
+  locks: SyncLockRecord[]
+  /**
+   * Last sequence the sender applied from each other peer, by peer id.
+   */
+  sequences: {[peerId: string]: number}
+}
+
+export type SyncMessage =
+  | SpawnMessage
+  | TransformMessage
+  | DeleteMessage
+  | VariantMessage
+  | LockMessage
+  | UnlockMessage
+  | LeaveMessage
+  | HelloMessage
+  | SnapshotMessage
+
+/**
+ * Returns true if the value is a well-formed sync message. Messages come from
+ * other devices, so check them before use.
+ */
+export function isSyncMessage(value: unknown): value is SyncMessage {
+  if (value === null || typeof value !== "object") {
+    return false
+  }
+  const message = value as {[key: string]: unknown}
+  if (
+    typeof message.senderId !== "string" ||
+    !isCount(message.sequence) ||
+    !isCount(message.clock)
+  ) {
+    return false
+  }
+
+  switch (message.type) {
+    case "spawn":
+      return (
+        typeof message.objectId === "string" &&
+        typeof message.prefabName === "string" &&
+        isSyncTransform(message.transform) &&
+        isMaterialName(message.materialName)
+      )
+    case "transform":
+      return (
+        typeof message.objectId === "string" &&
+        isSyncTransform(message.transform)
+      )
+    case "variant":
+      return (
+        typeof message.objectId === "string" &&
+        typeof message.prefabName === "string" &&
+        isMaterialName(message.materialName)
+      )
+    case "delete":
+    case "lock":
+    case "unlock":
+      return typeof message.objectId === "string"
+    case "leave":
+    case "hello":
+      return true
+    case "snapshot":
+      return (
+        typeof message.recipientId === "string" &&
+        Array.isArray(message.objects) &&
+        message.objects.every(isSyncObjectRecord) &&
+        Array.isArray(message.locks) &&
+        message.locks.every(isSyncLockRecord) &&
+        isSequences(message.sequences)
+      )
+    default:
+      return false
+  }
+}
+
+export function getMessageStamp(message: SyncMessage): SyncStamp {
+  return {clock: message.clock, peerId: message.senderId}
+}
+
+/**
+ * @returns a negative number if a is older than b, a positive number if it is newer and 0 if they are the same stamp.
+ */
+export function compareStamps(a: SyncStamp, b: SyncStamp): number {
+  if (a.clock !== b.clock) {
+    return a.clock - b.clock
+  }
+  return a.peerId < b.peerId ? -1 : a.peerId > b.peerId ? 1 : 0
+}
+
+function isCount(value: unknown): boolean {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0
+}
+
+function isMaterialName(value: unknown): boolean {
+  return value === null || typeof value === "string"
+}
+
+function isSyncTransform(value: unknown): value is SyncTransform {
+  if (value === null || typeof value !== "object") {
+    return false
+  }
+  const transform = value as {[key: string]: unknown}
+  return (
+    isVec3Record(transform.position) &&
+    isQuatRecord(transform.rotation) &&
+    isVec3Record(transform.scale)
+  )
+}
+
+function isSyncStamp(value: unknown): value is SyncStamp {
+  if (value === null || typeof value !== "object") {
+    return false
+  }
+  const stamp = value as {[key: string]: unknown}
+  return isCount(stamp.clock) && typeof stamp.peerId === "string"
+}
+
+function isSyncObjectRecord(value: unknown): value is SyncObjectRecord {
+  if (value === null || typeof value !== "object") {
+    return false
+  }
+  const record = value as {[key: string]: unknown}
+  return (
+    typeof record.objectId === "string" &&
+    typeof record.alive === "boolean" &&
+    typeof record.prefabName === "string" &&
+    isSyncTransform(record.transform) &&
+    isMaterialName(record.materialName) &&
+    isSyncStamp(record.aliveStamp) &&
+    isSyncStamp(record.transformStamp) &&
+    isSyncStamp(record.variantStamp)
+  )
+}
+
+function isSyncLockRecord(value: unknown): value is SyncLockRecord {
+  if (value === null || typeof value !== "object") {
+    return false
+  }
+  const record = value as {[key: string]: unknown}
+  return (
+    typeof record.objectId === "string" &&
+    typeof record.peerId === "string" &&
+    isSyncStamp(record.stamp)
+  )
+}
+
+function isSequences(value: unknown): boolean {
+  if (value === null || typeof value !== "object" || Array.isArray(value)) {
+    return false
+  }
+  const sequences = value as {[peerId: string]: unknown}
+  for (const peerId in sequences) {
+    if (!isCount(sequences[peerId])) {
+      return false
+    }
+  }
+  return true
+}
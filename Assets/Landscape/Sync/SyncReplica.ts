@@ -0,0 +1,625 @@
+import Event, {
+  PublicApi,
+  unsubscribe,
+} from "SpectaclesInteractionKit/Utils/Event"
+import NativeLogger from "SpectaclesInteractionKit/Utils/NativeLogger"
+import {
+  compareStamps,
+  getMessageStamp,
+  isSyncMessage,
+  SnapshotMessage,
+  SyncLockRecord,
+  SyncMessage,
+  SyncObjectRecord,
+  SyncStamp,
+  SyncTransform,
+} from "./SyncMessage"
+import {SyncTransport} from "./SyncTransport"
+
+const TAG = "SyncReplica"
+
+// Distributes Omit over the message union, so each message type keeps its own fields
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown
+  ? Omit<T, K>
+  : never
+
+type SyncMessageBody = DistributiveOmit<
+  SyncMessage,
+  "senderId" | "sequence" | "clock"
+>
+
+const ZERO_STAMP: SyncStamp = {clock: 0, peerId: ""}
+
+/**
+ * Replicated state of a placed object.
+ */
+export type SyncObjectState = {
+  /**
+   * False once the object has been deleted, or while only changes other than
+   * its spawn have arrived.
+   */
+  alive: boolean
+  prefabName: string
+  transform: SyncTransform
+  materialName: string | null
+}
+
+type SyncObjectEntry = SyncObjectState & {
+  aliveStamp: SyncStamp
+  transformStamp: SyncStamp
+  variantStamp: SyncStamp
+}
+
+export type SyncObjectChangedEventArg = {
+  objectId: string
+  state: SyncObjectState
+}
+
+export type SyncLockChangedEventArg = {
+  objectId: string
+  /**
+   * Peer now holding the lock, or null if the object is free.
+   */
+  owner: string | null
+  previousOwner: string | null
+}
+
+/**
+ * One peer's copy of a shared landscape. Local changes are stamped with a
+ * Lamport clock and sent as messages; messages from other peers are applied
+ * in each sender's order, exactly once. Every field of an object (existence,
+ * transform, variant) keeps the change with the newest stamp, so peers that
+ * have received the same messages hold the same state whatever order they
+ * arrived in.
+ *
+ * Objects are locked while a peer manipulates them. Concurrent lock requests
+ * are resolved in favor of the oldest stamp, so every peer agrees on the
+ * owner and the others can give the object up.
+ *
+ * Peers joining a session late call {@link join}; every peer already there
+ * replies with a snapshot of its state, which covers the messages sent
+ * before the new peer arrived.
+ *
+ * The replica only holds data; LandscapeSync applies its changes to the
+ * scene. Tests can connect several replicas with a LoopbackNetwork.
+ */
+export class SyncReplica {
+  private clock = 0
+  private nextSequence = 1
+  private objects: Map<string, SyncObjectEntry> = new Map()
+  // Lock requests not yet released, by object and then by peer
+  private lockClaims: Map<string, Map<string, SyncStamp>> = new Map()
+  // Last sequence applied from each peer
+  private appliedSequences: Map<string, number> = new Map()
+  // Messages that arrived ahead of an earlier message from the same peer
+  private pendingMessages: Map<string, Map<number, SyncMessage>> = new Map()
+
+  private unsubscribeTransport: unsubscribe
+
+  // Native Logging
+  private log = new NativeLogger(TAG)
+
+  private onObjectChangedEvent = new Event<SyncObjectChangedEventArg>()
+  /**
+   * Called when a message from another peer changes an object
+   */
+  onObjectChanged: PublicApi<SyncObjectChangedEventArg> =
+    this.onObjectChangedEvent.publicApi()
+
+  private onLockChangedEvent = new Event<SyncLockChangedEventArg>()
+  /**
+   * Called when the owner of an object's lock changes, locally or remotely
+   */
+  onLockChanged: PublicApi<SyncLockChangedEventArg> =
+    this.onLockChangedEvent.publicApi()
+
+  constructor(
+    readonly peerId: string,
+    private transport: SyncTransport,
+  ) {
+    this.unsubscribeTransport = transport.onMessage.add((message) =>
+      this.receive(message),
+    )
+  }
+
+  /**
+   * Asks the peers already in the session for a snapshot of their state.
+   * Subscribe to {@link onObjectChanged} first, as the snapshots may arrive
+   * right away.
+   */
+  join(): void {
+    this.sendUnsequenced({type: "hello"})
+  }
+
+  /**
+   * Stops receiving messages. Call {@link leave} first to release this
+   * peer's locks on the other peers.
+   */
+  destroy(): void {
+    this.unsubscribeTransport()
+  }
+
+  spawn(
+    objectId: string,
+    prefabName: string,
+    transform: SyncTransform,
+    materialName: string | null,
+  ): void {
+    const stamp = this.tick()
+    const entry = this.getOrCreateEntry(objectId)
+    entry.alive = true
+    entry.aliveStamp = stamp
+    entry.prefabName = prefabName
+    entry.materialName = materialName
+    entry.variantStamp = stamp
+    entry.transform = transform
+    entry.transformStamp = stamp
+    this.send(
+      {
+        type: "spawn",
+        objectId: objectId,
+        prefabName: prefabName,
+        transform: transform,
+        materialName: materialName,
+      },
+      stamp,
+    )
+  }
+
+  setTransform(objectId: string, transform: SyncTransform): void {
+    const stamp = this.tick()
+    const entry = this.getOrCreateEntry(objectId)
+    entry.transform = transform
+    entry.transformStamp = stamp
+    this.send(
+      {type: "transform", objectId: objectId, transform: transform},
+      stamp,
+    )
+  }
+
+  delete(objectId: string): void {
+    const stamp = this.tick()
+    const entry = this.getOrCreateEntry(objectId)
+    entry.alive = false
+    entry.aliveStamp = stamp
+    this.send({type: "delete", objectId: objectId}, stamp)
+  }
+
+  setVariant(
+    objectId: string,
+    prefabName: string,
+    materialName: string | null,
+  ): void {
+    const stamp = this.tick()
+    const entry = this.getOrCreateEntry(objectId)
+    entry.prefabName = prefabName
+    entry.materialName = materialName
+    entry.variantStamp = stamp
+    this.send(
+      {
+        type: "variant",
+        objectId: objectId,
+        prefabName: prefabName,
+        materialName: materialName,
+      },
+      stamp,
+    )
+  }
+
+  /**
+   * Claims an object for this peer, e.g. when the user grabs it. Another peer
+   * may still win a concurrent claim, which {@link onLockChanged} reports.
+   *
+   * @returns false if another peer already holds the object.
+   */
+  lock(objectId: string): boolean {
+    const owner = this.getLockOwner(objectId)
+    if (owner === this.peerId) {
+      return true
+    }
+    if (owner !== null) {
+      return false
+    }
+
+    const stamp = this.tick()
+    this.updateLock(objectId, () =>
+      this.getOrCreateClaims(objectId).set(this.peerId, stamp),
+    )
+    this.send({type: "lock", objectId: objectId}, stamp)
+    return true
+  }
+
+  /**
+   * Releases this peer's claim on an object, whether or not it won the lock.
+   */
+  unlock(objectId: string): void {
+    if (!(this.lockClaims.get(objectId)?.has(this.peerId) ?? false)) {
+      return
+    }
+    const stamp = this.tick()
+    this.updateLock(objectId, () =>
+      this.lockClaims.get(objectId)?.delete(this.peerId),
+    )
+    this.send({type: "unlock", objectId: objectId}, stamp)
+  }
+
+  /**
+   * Tells the other peers that this one is gone, releasing its locks.
+   */
+  leave(): void {
+    const stamp = this.tick()
+    this.releaseClaimsOf(this.peerId)
+    this.send({type: "leave"}, stamp)
+  }
+
+  /**
+   * Returns the peer holding an object, or null if it is free.
+   */
+  getLockOwner(objectId: string): string | null {
+    const claims = this.lockClaims.get(objectId)
+    if (claims === undefined) {
+      return null
+    }
+
+    let owner: string | null = null
+    let ownerStamp: SyncStamp | null = null
+    for (const [peerId, stamp] of Array.from(claims.entries())) {
+      if (ownerStamp === null || compareStamps(stamp, ownerStamp) < 0) {
+        owner = peerId
+        ownerStamp = stamp
+      }
+    }
+    return owner
+  }
+
+  getState(objectId: string): SyncObjectState | null {
+    const entry = this.objects.get(objectId)
+    return entry !== undefined ? toState(entry) : null
+  }
+
+  /**
+   * Returns the state of every object that exists, by id. Replicas that have
+   * received the same messages return the same objects.
+   */
+  getObjects(): Map<string, SyncObjectState> {
+    const result = new Map<string, SyncObjectState>()
+    this.objects.forEach((entry, objectId) => {
+      if (entry.alive) {
+        result.set(objectId, toState(entry))
+      }
+    })
+    return result
+  }
+
+  /**
+   * Handles a message from another peer. Repeats and messages of peers ahead
+   * of their predecessors are held back, so each sender's messages apply in
+   * order and only once. Malformed messages are dropped.
+   */
+  receive(message: unknown): void {
+    if (!isSyncMessage(message)) {
+      this.log.w("Dropping malformed sync message")
+      return
+    }
+    if (message.senderId === this.peerId) {
+      return
+    }
+    if (message.type === "hello") {
+      this.sendSnapshot(message.senderId)
+      return
+    }
+    if (message.type === "snapshot") {
+      if (message.recipientId === this.peerId) {
+        this.applySnapshot(message)
+      }
+      return
+    }
+
+    const sender = message.senderId
+    const expected = (this.appliedSequences.get(sender) ?? 0) + 1
+    if (message.sequence < expected) {
+      return
+    }
+    if (message.sequence > expected) {
+      if (!this.pendingMessages.has(sender)) {
+        this.pendingMessages.set(sender, new Map())
+      }
+      this.pendingMessages.get(sender)!.set(message.sequence, message)
+      return
+    }
+
+    this.applyMessage(message)
+    this.appliedSequences.set(sender, message.sequence)
+    this.applyPending(sender)
+  }
+
+  // Applies the held back messages of a sender that are next in line, and drops the ones already covered
+  private applyPending(sender: string): void {
+    const pending = this.pendingMessages.get(sender)
+    if (pending === undefined) {
+      return
+    }
+
+    let applied = this.appliedSequences.get(sender) ?? 0
+    pending.forEach((_, sequence) => {
+      if (sequence <= applied) {
+        pending.delete(sequence)
+      }
+    })
+    let next = pending.get(applied + 1)
+    while (next !== undefined) {
+      pending.delete(next.sequence)
+      this.applyMessage(next)
+      applied = next.sequence
+      this.appliedSequences.set(sender, applied)
+      next = pending.get(applied + 1)
+    }
+    if (pending.size === 0) {
+      this.pendingMessages.delete(sender)
+    }
+  }
+
+  private sendSnapshot(recipientId: string): void {
+    const objects: SyncObjectRecord[] = []
+    this.objects.forEach((entry, objectId) =>
+      objects.push({objectId: objectId, ...entry}),
+    )
+    const locks: SyncLockRecord[] = []
+    this.lockClaims.forEach((claims, objectId) =>
+      claims.forEach((stamp, peerId) =>
+        locks.push({objectId: objectId, peerId: peerId, stamp: stamp}),
+      ),
+    )
+    const sequences: {[peerId: string]: number} = {}
+    this.appliedSequences.forEach((sequence, peerId) => {
+      sequences[peerId] = sequence
+    })
+
+    this.sendUnsequenced({
+      type: "snapshot",
+      recipientId: recipientId,
+      objects: objects,
+      locks: locks,
+      sequences: sequences,
+    })
+  }
+
+  private applySnapshot(message: SnapshotMessage): void {
+    this.clock = Math.max(this.clock, message.clock)
+
+    // Object fields keep the newest change, so snapshots merge like messages
+    for (const record of message.objects) {
+      const entry = this.getOrCreateEntry(record.objectId)
+      let changed = false
+      if (compareStamps(record.aliveStamp, entry.aliveStamp) > 0) {
+        entry.alive = record.alive
+        entry.aliveStamp = record.aliveStamp
+        changed = true
+      }
+      if (compareStamps(record.transformStamp, entry.transformStamp) > 0) {
+        entry.transform = record.transform
+        entry.transformStamp = record.transformStamp
+        changed = true
+      }
+      if (compareStamps(record.variantStamp, entry.variantStamp) > 0) {
+        entry.prefabName = record.prefabName
+        entry.materialName = record.materialName
+        entry.variantStamp = record.variantStamp
+        changed = true
+      }
+      if (changed) {
+        this.notifyObjectChanged(record.objectId, entry)
+      }
+    }
+
+    // Peers the snapshot has seen more messages of than this replica
+    const sequences: {[peerId: string]: number} = {
+      ...message.sequences,
+      [message.senderId]: message.sequence,
+    }
+    const covered = new Set<string>()
+    for (const peerId in sequences) {
+      if (
+        peerId !== this.peerId &&
+        sequences[peerId] > (this.appliedSequences.get(peerId) ?? 0)
+      ) {
+        covered.add(peerId)
+      }
+    }
+
+    // Their lock claims are replaced by the ones in the snapshot
+    const objectIds = new Set<string>()
+    this.lockClaims.forEach((claims, objectId) => {
+      covered.forEach((peerId) => {
+        if (claims.has(peerId)) {
+          objectIds.add(objectId)
+        }
+      })
+    })
+    const locks = message.locks.filter((lock) => covered.has(lock.peerId))
+    locks.forEach((lock) => objectIds.add(lock.objectId))
+    objectIds.forEach((objectId) =>
+      this.updateLock(objectId, () => {
+        const claims = this.getOrCreateClaims(objectId)
+        covered.forEach((peerId) => claims.delete(peerId))
+        locks
+          .filter((lock) => lock.objectId === objectId)
+          .forEach((lock) => claims.set(lock.peerId, lock.stamp))
+      }),
+    )
+
+    covered.forEach((peerId) => {
+      this.appliedSequences.set(peerId, sequences[peerId])
+      this.applyPending(peerId)
+    })
+  }
+
+  private applyMessage(message: SyncMessage): void {
+    this.clock = Math.max(this.clock, message.clock)
+    const stamp = getMessageStamp(message)
+
+    switch (message.type) {
+      case "spawn": {
+        const entry = this.getOrCreateEntry(message.objectId)
+        let changed = false
+        if (compareStamps(stamp, entry.aliveStamp) > 0) {
+          entry.alive = true
+          entry.aliveStamp = stamp
+          changed = true
+        }
+        if (compareStamps(stamp, entry.transformStamp) > 0) {
+          entry.transform = message.transform
+          entry.transformStamp = stamp
+          changed = true
+        }
+        if (compareStamps(stamp, entry.variantStamp) > 0) {
+          entry.prefabName = message.prefabName
+          entry.materialName = message.materialName
+          entry.variantStamp = stamp
+          changed = true
+        }
+        if (changed) {
+          this.notifyObjectChanged(message.objectId, entry)
+        }
+        break
+      }
+      case "transform": {
+        const entry = this.getOrCreateEntry(message.objectId)
+        if (compareStamps(stamp, entry.transformStamp) > 0) {
+          entry.transform = message.transform
+          entry.transformStamp = stamp
+          this.notifyObjectChanged(message.objectId, entry)
+        }
+        break
+      }
+      case "delete": {
+        const entry = this.getOrCreateEntry(message.objectId)
+        if (compareStamps(stamp, entry.aliveStamp) > 0) {
+          entry.alive = false
+          entry.aliveStamp = stamp
+          this.notifyObjectChanged(message.objectId, entry)
+        }
+        break
+      }
+      case "variant": {
+        const entry = this.getOrCreateEntry(message.objectId)
+        if (compareStamps(stamp, entry.variantStamp) > 0) {
+          entry.prefabName = message.prefabName
+          entry.materialName = message.materialName
+          entry.variantStamp = stamp
+          this.notifyObjectChanged(message.objectId, entry)
+        }
+        break
+      }
+      case "lock":
+        this.updateLock(message.objectId, () =>
+          this.getOrCreateClaims(message.objectId).set(message.senderId, stamp),
+        )
+        break
+      case "unlock":
+        this.updateLock(message.objectId, () =>
+          this.lockClaims.get(message.objectId)?.delete(message.senderId),
+        )
+        break
+      case "leave":
+        this.releaseClaimsOf(message.senderId)
+        break
+    }
+  }
+
+  private releaseClaimsOf(peerId: string): void {
+    for (const [objectId, claims] of Array.from(this.lockClaims.entries())) {
+      if (claims.has(peerId)) {
+        this.updateLock(objectId, () => claims.delete(peerId))
+      }
+    }
+  }
+
+  // Applies a change to an object's claims and reports the owner if it changed
+  private updateLock(objectId: string, change: () => void): void {
+    const previousOwner = this.getLockOwner(objectId)
+    change()
+    if (this.lockClaims.get(objectId)?.size === 0) {
+      this.lockClaims.delete(objectId)
+    }
+    const owner = this.getLockOwner(objectId)
+    if (owner !== previousOwner) {
+      this.onLockChangedEvent.invoke({
+        objectId: objectId,
+        owner: owner,
+        previousOwner: previousOwner,
+      })
+    }
+  }
+
+  private getOrCreateClaims(objectId: string): Map<string, SyncStamp> {
+    let claims = this.lockClaims.get(objectId)
+    if (claims === undefined) {
+      claims = new Map()
+      this.lockClaims.set(objectId, claims)
+    }
+    return claims
+  }
+
+  // Changes can arrive before the object's spawn when they come from another peer than its creator
+  private getOrCreateEntry(objectId: string): SyncObjectEntry {
+    let entry = this.objects.get(objectId)
+    if (entry === undefined) {
+      entry = {
+        alive: false,
+        prefabName: "",
+        transform: {
+          position: [0, 0, 0],
+          rotation: [1, 0, 0, 0],
+          scale: [1, 1, 1],
+        },
+        materialName: null,
+        aliveStamp: ZERO_STAMP,
+        transformStamp: ZERO_STAMP,
+        variantStamp: ZERO_STAMP,
+      }
+      this.objects.set(objectId, entry)
+    }
+    return entry
+  }
+
+  private notifyObjectChanged(objectId: string, entry: SyncObjectEntry): void {
+    this.onObjectChangedEvent.invoke({
+      objectId: objectId,
+      state: toState(entry),
+    })
+  }
+
+  private tick(): SyncStamp {
+    this.clock++
+    return {clock: this.clock, peerId: this.peerId}
+  }
+
+  private send(body: SyncMessageBody, stamp: SyncStamp): void {
+    this.transport.send({
+      ...body,
+      senderId: this.peerId,
+      sequence: this.nextSequence++,
+      clock: stamp.clock,
+    } as SyncMessage)
+  }
+
+  // Hello and snapshot messages stay out of the sender's order, so peers that ignore them never wait for them
+  private sendUnsequenced(body: SyncMessageBody): void {
+    this.transport.send({
+      ...body,
+      senderId: this.peerId,
+      sequence: this.nextSequence - 1,
+      clock: this.clock,
+    } as SyncMessage)
+  }
+}
+
+function toState(entry: SyncObjectEntry): SyncObjectState {
+  return {
+    alive: entry.alive,
+    prefabName: entry.prefabName,
+    transform: entry.transform,
+    materialName: entry.materialName,
+  }
+}
@@ -0,0 +1,20 @@
+import {PublicApi} from "SpectaclesInteractionKit/Utils/Event"
+import {SyncMessage} from "./SyncMessage"
+
+/**
+ * Carries sync messages between the peers of a session, e.g. over a
+ * connected lens session or a websocket. Transports may deliver messages
+ * late, out of order or more than once; {@link SyncReplica} puts each
+ * sender's messages back in order and drops repeats.
+ */
+export interface SyncTransport {
+  /**
+   * Sends a message to every other peer of the session.
+   */
+  send(message: SyncMessage): void
+
+  /**
+   * Called for every message received from another peer.
+   */
+  readonly onMessage: PublicApi<SyncMessage>
+}
@@ -0,0 +1,193 @@
+import {clamp} from "SpectaclesInteractionKit/Utils/mathUtils"
+
+/**
+ * Limits of the number of vertices per side of a heightfield. The upper
+ * limit keeps the mesh rebuilds and the saved document small enough for the
+ * device.
+ */
+export const MIN_HEIGHTFIELD_RESOLUTION = 2
+export const MAX_HEIGHTFIELD_RESOLUTION = 65
+
+// Saved heights are rounded to this many decimals, i.e. 0.01 cm
+const RECORD_PRECISION = 100
+
+/**
+ * JSON-serializable description of a heightfield.
+ */
+export type HeightfieldRecord = {
+  resolution: number
+  size: number
+  heights: number[]
+}
+
+/**
+ * Square grid of heights centered on the origin of the XZ plane. Vertex
+ * (i, j) sits at x = -size / 2 + i * cellSize, z = -size / 2 + j * cellSize.
+ */
+export class Heightfield {
+  readonly resolution: number
+  readonly size: number
+
+  private heights: number[]
+
+  /**
+   * @param resolution - vertices per side, clamped to the supported range.
+   * @param size - width of the square, in cm.
+   */
+  constructor(resolution: number, size: number) {
+    this.resolution = clamp(
+      Math.round(resolution),
+      MIN_HEIGHTFIELD_RESOLUTION,
+      MAX_HEIGHTFIELD_RESOLUTION,
+    )
+    this.size = size
+    this.heights = new Array(this.resolution * this.resolution).fill(0)
+  }
+
+  get cellSize(): number {
+    return this.size / (this.resolution - 1)
+  }
+
+  index(i: number, j: number): number {
+    return j * this.resolution + i
+  }
+
+  getHeight(i: number, j: number): number {
+    return this.heights[
+      this.index(
+        clamp(i, 0, this.resolution - 1),
+        clamp(j, 0, this.resolution - 1),
+      )
+    ]
+  }
+
+  setHeight(i: number, j: number, height: number): void {
+    this.heights[this.index(i, j)] = height
+  }
+
+  /**
+   * Returns the local (x, z) position of a vertex.
+   */
+  getVertexPosition(i: number, j: number): vec2 {
+    return new vec2(
+      -this.size / 2 + i * this.cellSize,
+      -this.size / 2 + j * this.cellSize,
+    )
+  }
+
+  /**
+   * Returns the grid coordinates of a local (x, z) position. The result is
+   * fractional and may lie outside of the grid.
+   */
+  toGrid(point: vec2): vec2 {
+    return new vec2(
+      (point.x + this.size / 2) / this.cellSize,
+      (point.y + this.size / 2) / this.cellSize,
+    )
+  }
+
+  /**
+   * Returns true if the local (x, z) position lies on the heightfield.
+   */
+  contains(point: vec2): boolean {
+    const half = this.size / 2
+    return (
+      point.x >= -half && point.x <= half && point.y >= -half && point.y <= half
+    )
+  }
+
+  /**
+   * Returns the bilinearly interpolated height at a local (x, z) position.
+   * Positions outside of the grid use the height of the nearest edge.
+   */
+  sample(point: vec2): number {
+    const grid = this.toGrid(point)
+    const x = clamp(grid.x, 0, this.resolution - 1)
+    const z = clamp(grid.y, 0, this.resolution - 1)
+    const i = Math.min(Math.floor(x), this.resolution - 2)
+    const j = Math.min(Math.floor(z), this.resolution - 2)
+    const tx = x - i
+    const tz = z - j
+
+    const top = this.getHeight(i, j) * (1 - tx) + this.getHeight(i + 1, j) * tx
+    const bottom =
+      this.getHeight(i, j + 1) * (1 - tx) + this.getHeight(i + 1, j + 1) * tx
+    return top * (1 - tz) + bottom * tz
+  }
+
+  /**
+   * Returns the normal of the surface at a vertex, in local space.
+   */
+  getNormal(i: number, j: number): vec3 {
+    const dx = this.getHeight(i + 1, j) - this.getHeight(i - 1, j)
+    const dz = this.getHeight(i, j + 1) - this.getHeight(i, j - 1)
+    return new vec3(-dx, 2 * this.cellSize, -dz).normalize()
+  }
+
+  /**
+   * Returns a copy of every height, row by row.
+   */
+  getHeights(): number[] {
+    return this.heights.slice()
+  }
+
+  setHeights(heights: number[]): void {
+    if (heights.length !== this.heights.length) {
+      throw new Error(
+        `Expected ${this.heights.length} heights but got ${heights.length}`,
+      )
+    }
+    this.heights = heights.slice()
+  }
+
+  reset(): void {
+    this.heights.fill(0)
+  }
+
+  toRecord(): HeightfieldRecord {
+    return {
+      resolution: this.resolution,
+      size: this.size,
+      heights: this.heights.map(
+        (height) => Math.round(height * RECORD_PRECISION) / RECORD_PRECISION,
+      ),
+    }
+  }
+
+  /**
+   * Loads a saved heightfield, resampling it if it was saved with a
+   * different resolution or size.
+   */
+  loadRecord(record: HeightfieldRecord): void {
+    if (
+      !Number.isInteger(record.resolution) ||
+      record.resolution < MIN_HEIGHTFIELD_RESOLUTION ||
+      record.resolution > MAX_HEIGHTFIELD_RESOLUTION ||
+      typeof record.size !== "number" ||
+      record.size <= 0 ||
+      !Array.isArray(record.heights) ||
+      record.heights.length !== record.resolution * record.resolution ||
+      !record.heights.every((height) => typeof height === "number")
+    ) {
+      throw new Error("Invalid heightfield record")
+    }
+
+    const source = new Heightfield(record.resolution, record.size)
+    source.setHeights(record.heights)
+    if (source.resolution === this.resolution && source.size === this.size) {
+      this.setHeights(record.heights)
+      return
+    }
+
+    for (let j = 0; j < this.resolution; j++) {
+      for (let i = 0; i < this.resolution; i++) {
+        const position = this.getVertexPosition(i, j)
+        this.setHeight(
+          i,
+          j,
+          source.contains(position) ? source.sample(position) : 0,
+        )
+      }
+    }
+  }
+}
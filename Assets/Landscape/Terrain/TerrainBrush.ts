@@ -0,0 +1,136 @@
+import {clamp} from "SpectaclesInteractionKit/Utils/mathUtils"
+import {Heightfield} from "./Heightfield"
+
+export enum TerrainBrushMode {
+  Raise = "Raise",
+  Lower = "Lower",
+  /**
+   * Moves heights towards the average of their neighbors.
+   */
+  Smooth = "Smooth",
+  /**
+   * Moves heights towards the target height of the stroke.
+   */
+  Flatten = "Flatten",
+}
+
+export type TerrainBrushSettings = {
+  mode: TerrainBrushMode
+  /**
+   * Radius of the brush, in cm.
+   */
+  radius: number
+  /**
+   * How fast heights change at the center of the brush, in cm per second.
+   */
+  strength: number
+  /**
+   * How much the strength fades towards the rim of the brush. 0 is a hard
+   * edge, 1 fades out completely.
+   */
+  falloff: number
+  /**
+   * Height flattened towards, in local cm. Only used by Flatten.
+   */
+  targetHeight: number
+  /**
+   * Heights are kept within [-maxHeight, maxHeight].
+   */
+  maxHeight: number
+}
+
+/**
+ * Range of grid vertices changed by a brush stroke, inclusive.
+ */
+export type GridRegion = {
+  minI: number
+  maxI: number
+  minJ: number
+  maxJ: number
+}
+
+/**
+ * Applies one frame of a brush to the heightfield.
+ *
+ * @param heightfield - the heightfield to modify.
+ * @param center - local (x, z) position of the brush.
+ * @param settings - how the brush modifies heights.
+ * @param deltaTime - duration of the frame, in seconds.
+ * @returns the vertices that may have changed, or null if the brush does not touch the heightfield.
+ */
+export function applyTerrainBrush(
+  heightfield: Heightfield,
+  center: vec2,
+  settings: TerrainBrushSettings,
+  deltaTime: number,
+): GridRegion | null {
+  const grid = heightfield.toGrid(center)
+  const gridRadius = settings.radius / heightfield.cellSize
+  const last = heightfield.resolution - 1
+  const region = {
+    minI: Math.max(0, Math.ceil(grid.x - gridRadius)),
+    maxI: Math.min(last, Math.floor(grid.x + gridRadius)),
+    minJ: Math.max(0, Math.ceil(grid.y - gridRadius)),
+    maxJ: Math.min(last, Math.floor(grid.y + gridRadius)),
+  }
+  if (region.minI > region.maxI || region.minJ > region.maxJ) {
+    return null
+  }
+
+  // Smoothing reads the heights from before this frame, so the result does not depend on iteration order
+  const source =
+    settings.mode === TerrainBrushMode.Smooth ? heightfield.getHeights() : null
+  const sourceHeight = (i: number, j: number) =>
+    source![heightfield.index(clamp(i, 0, last), clamp(j, 0, last))]
+
+  const maxStep = settings.strength * deltaTime
+  for (let j = region.minJ; j <= region.maxJ; j++) {
+    for (let i = region.minI; i <= region.maxI; i++) {
+      const t =
+        heightfield.getVertexPosition(i, j).distance(center) / settings.radius
+      if (t > 1) {
+        continue
+      }
+
+      const step = maxStep * (1 - settings.falloff * t)
+      const height = heightfield.getHeight(i, j)
+      let newHeight = height
+      switch (settings.mode) {
+        case TerrainBrushMode.Raise:
+          newHeight = height + step
+          break
+        case TerrainBrushMode.Lower:
+          newHeight = height - step
+          break
+        case TerrainBrushMode.Smooth:
+          newHeight = moveTowards(
+            height,
+            (sourceHeight(i - 1, j) +
+              sourceHeight(i + 1, j) +
+              sourceHeight(i, j - 1) +
+              sourceHeight(i, j + 1)) /
+              4,
+            step,
+          )
+          break
+        case TerrainBrushMode.Flatten:
+          newHeight = moveTowards(height, settings.targetHeight, step)
+          break
+      }
+      heightfield.setHeight(
+        i,
+        j,
+        clamp(newHeight, -settings.maxHeight, settings.maxHeight),
+      )
+    }
+  }
+
+  return region
+}
+
+function moveTowards(value: number, target: number, maxStep: number): number {
+  if (Math.abs(target - value) <= maxStep) {
+    return target
+  }
+  return value + Math.sign(target - value) * maxStep
+}
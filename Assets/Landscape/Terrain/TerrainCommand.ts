@@ -0,0 +1,23 @@
+import {LandscapeCommand} from "../History/LandscapeCommand"
+import {TerrainSurface} from "./TerrainSurface"
+
+/**
+ * Changes the heights of a terrain between two states, e.g. before and
+ * after a sculpting stroke. Placed objects follow the terrain both ways.
+ */
+export class TerrainCommand implements LandscapeCommand {
+  constructor(
+    readonly label: string,
+    private terrain: TerrainSurface,
+    private before: number[],
+    private after: number[],
+  ) {}
+
+  execute(): void {
+    this.terrain.setHeights(this.after)
+  }
+
+  undo(): void {
+    this.terrain.setHeights(this.before)
+  }
+}
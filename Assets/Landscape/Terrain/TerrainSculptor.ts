@@ -0,0 +1,140 @@
+import {Interactable} from "SpectaclesInteractionKit/Components/Interaction/Interactable/Interactable"
+import {DragInteractorEvent} from "SpectaclesInteractionKit/Core/Interactor/InteractorEvent"
+import {unsubscribe} from "SpectaclesInteractionKit/Utils/Event"
+import {LandscapeHistory} from "../History/LandscapeHistory"
+import {TerrainBrushMode} from "./TerrainBrush"
+import {TerrainCommand} from "./TerrainCommand"
+import {TerrainSurface} from "./TerrainSurface"
+
+/**
+ * Sculpts a {@link TerrainSurface} by pinching and dragging on it. Each
+ * stroke can be undone as a single edit.
+ */
+@component
+export class TerrainSculptor extends BaseScriptComponent {
+  @input
+  terrain!: TerrainSurface
+  @input
+  @allowUndefined
+  @hint(
+    "Interactable receiving the drags. Leave empty to use the one on the terrain's SceneObject.",
+  )
+  interactable: Interactable | undefined
+  @input
+  @widget(
+    new ComboBoxWidget([
+      new ComboBoxItem("Raise", "Raise"),
+      new ComboBoxItem("Lower", "Lower"),
+      new ComboBoxItem("Smooth", "Smooth"),
+      new ComboBoxItem("Flatten", "Flatten"),
+    ]),
+  )
+  mode: string = "Raise"
+  @input
+  @hint("Radius of the brush, in cm")
+  radius: number = 15
+  @input
+  @hint(
+    "How fast the terrain changes at the center of the brush, in cm per second",
+  )
+  strength: number = 10
+  @input
+  @widget(new SliderWidget(0, 1, 0.05))
+  @hint(
+    "How much the strength fades towards the rim of the brush. 0 is a hard edge, 1 fades out completely.",
+  )
+  falloff: number = 0.75
+
+  private history = LandscapeHistory.getInstance()
+
+  private strokeBefore: number[] | null = null
+  private targetHeight = 0
+
+  // Keep track of "Unsubscribe" functions when adding callbacks to interactable events, to ensure proper cleanup on destroy
+  private unsubscribeBag: unsubscribe[] = []
+
+  onAwake(): void {
+    this.createEvent("OnStartEvent").bind(() => this.init())
+    this.createEvent("OnDisableEvent").bind(() => this.endStroke())
+    this.createEvent("OnDestroyEvent").bind(() => {
+      this.unsubscribeBag.forEach((unsubscribe) => unsubscribe())
+      this.unsubscribeBag = []
+    })
+  }
+
+  /**
+   * Switches the brush, e.g. from a PinchButton.
+   *
+   * @param mode - Raise, Lower, Smooth or Flatten.
+   */
+  setMode(mode: string): void {
+    this.endStroke()
+    this.mode = mode
+  }
+
+  private init(): void {
+    const interactable =
+      this.interactable ??
+      this.terrain.getSceneObject().getComponent(Interactable.getTypeName())
+    if (isNull(interactable)) {
+      throw new Error(
+        "TerrainSculptor requires an Interactable on the terrain to receive drags.",
+      )
+    }
+
+    this.unsubscribeBag.push(
+      interactable.onDragStart.add((event) => this.beginStroke(event)),
+      interactable.onDragUpdate.add((event) => this.updateStroke(event)),
+      interactable.onDragEnd.add(() => this.endStroke()),
+      interactable.onTriggerCanceled.add(() => this.endStroke()),
+    )
+  }
+
+  private getHitPosition(event: DragInteractorEvent): vec3 | null {
+    return event.interactor.targetHitInfo?.hit.position ?? null
+  }
+
+  private beginStroke(event: DragInteractorEvent): void {
+    const hitPosition = this.getHitPosition(event)
+    if (!this.enabled || hitPosition === null) {
+      return
+    }
+    this.strokeBefore = this.terrain.getHeights()
+    this.targetHeight = this.terrain.getLocalHeightAt(hitPosition)
+  }
+
+  private updateStroke(event: DragInteractorEvent): void {
+    const hitPosition = this.getHitPosition(event)
+    if (this.strokeBefore === null || hitPosition === null) {
+      return
+    }
+
+    this.terrain.applyBrush(
+      hitPosition,
+      {
+        mode: this.mode as TerrainBrushMode,
+        radius: this.radius,
+        strength: this.strength,
+        falloff: this.falloff,
+        targetHeight: this.targetHeight,
+      },
+      getDeltaTime(),
+    )
+  }
+
+  private endStroke(): void {
+    const before = this.strokeBefore
+    if (before === null) {
+      return
+    }
+    this.strokeBefore = null
+    this.terrain.refreshCollider()
+
+    const after = this.terrain.getHeights()
+    if (after.some((height, index) => height !== before[index])) {
+      this.history.record(
+        new TerrainCommand(this.mode, this.terrain, before, after),
+      )
+    }
+  }
+}
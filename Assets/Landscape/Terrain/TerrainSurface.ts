@@ -0,0 +1,325 @@
+import Event, {
+  PublicApi,
+  unsubscribe,
+} from "SpectaclesInteractionKit/Utils/Event"
+import {LandscapeObjectRegistry} from "../Core/LandscapeObjectRegistry"
+import {isSectionObject, LandscapeSections} from "../Core/LandscapeSections"
+import {ManipulationTracker} from "../Core/ManipulationTracker"
+import {Heightfield, HeightfieldRecord} from "./Heightfield"
+import {
+  applyTerrainBrush,
+  GridRegion,
+  TerrainBrushSettings,
+} from "./TerrainBrush"
+
+const SECTION_NAME = "terrain"
+
+export type HeightsChangedEventArg = {
+  /**
+   * The vertices that changed, or null if the whole heightfield changed.
+   */
+  region: GridRegion | null
+}
+
+type GroundedObject = {
+  transform: Transform
+  localPoint: vec2
+  height: number
+}
+
+/**
+ * Sculptable terrain built from a {@link Heightfield}. Creates its own mesh
+ * and collider on this SceneObject, keeps placed objects standing on it when
+ * its heights change, and saves its heights with the landscape.
+ *
+ * The terrain is expected to be rotated around the Y axis only.
+ */
+@component
+export class TerrainSurface extends BaseScriptComponent {
+  @input("int")
+  @widget(new SliderWidget(2, 65, 1))
+  @hint(
+    "Vertices per side of the heightfield. Higher values allow finer detail but cost more to sculpt and save.",
+  )
+  resolution: number = 33
+  @input
+  @hint("Width of the square terrain, in cm")
+  size: number = 200
+  @input
+  @hint(
+    "Heights are kept within this distance above and below the origin, in cm",
+  )
+  maxHeight: number = 50
+  @input
+  material!: Material
+
+  private registry = LandscapeObjectRegistry.getInstance()
+  private tracker = ManipulationTracker.getInstance()
+  private sections = LandscapeSections.getInstance()
+
+  private heightfield!: Heightfield
+  private meshBuilder!: MeshBuilder
+  private collider!: ColliderComponent
+
+  private unsubscribeSection: unsubscribe | null = null
+
+  private onHeightsChangedEvent = new Event<HeightsChangedEventArg>()
+  /**
+   * Called whenever heights of the terrain change
+   */
+  onHeightsChanged: PublicApi<HeightsChangedEventArg> =
+    this.onHeightsChangedEvent.publicApi()
+
+  onAwake(): void {
+    this.heightfield = new Heightfield(this.resolution, this.size)
+
+    const sceneObject = this.getSceneObject()
+    this.meshBuilder = new MeshBuilder([
+      {name: "position", components: 3},
+      {name: "normal", components: 3, normalized: true},
+      {name: "texture0", components: 2},
+    ])
+    this.meshBuilder.topology = MeshTopology.Triangles
+    this.meshBuilder.indexType = MeshIndexType.UInt16
+    this.buildMesh()
+
+    const meshVisual = sceneObject.createComponent("Component.RenderMeshVisual")
+    meshVisual.mesh = this.meshBuilder.getMesh()
+    meshVisual.mainMaterial = this.material
+
+    this.collider = sceneObject.createComponent("Physics.ColliderComponent")
+    this.refreshCollider()
+
+    this.unsubscribeSection = this.sections.register({
+      name: SECTION_NAME,
+      save: () => this.heightfield.toRecord(),
+      load: (data) => {
+        if (data === undefined) {
+          this.heightfield.reset()
+        } else if (isSectionObject(data)) {
+          // Throws if the record is malformed, which resets the section
+          this.heightfield.loadRecord(data as HeightfieldRecord)
+        } else {
+          throw new Error("Invalid terrain section")
+        }
+        this.onHeightfieldReplaced()
+      },
+    })
+    this.createEvent("OnDestroyEvent").bind(() => {
+      this.unsubscribeSection?.()
+      this.unsubscribeSection = null
+    })
+  }
+
+  /**
+   * Returns a copy of the terrain's heights, e.g. to undo a stroke later.
+   */
+  getHeights(): number[] {
+    return this.heightfield.getHeights()
+  }
+
+  /**
+   * Replaces every height of the terrain.
+   *
+   * @param heights - heights returned by {@link getHeights}.
+   * @param groundObjects - move placed objects along with the terrain below them.
+   */
+  setHeights(heights: number[], groundObjects: boolean = true): void {
+    this.modifyHeights(groundObjects, () =>
+      this.heightfield.setHeights(heights),
+    )
+    this.onHeightfieldReplaced()
+  }
+
+  /**
+   * Applies one frame of a brush at a world position, moving placed objects
+   * along with the terrain below them. Call {@link refreshCollider} once the
+   * stroke ends.
+   *
+   * @returns true if the brush touched the terrain.
+   */
+  applyBrush(
+    worldPosition: vec3,
+    settings: Omit<TerrainBrushSettings, "maxHeight">,
+    deltaTime: number,
+  ): boolean {
+    const region = this.modifyHeights(true, () =>
+      applyTerrainBrush(
+        this.heightfield,
+        this.toLocalPoint(worldPosition),
+        {...settings, maxHeight: this.maxHeight},
+        deltaTime,
+      ),
+    )
+    if (region === null) {
+      return false
+    }
+
+    this.updateVertices(region)
+    this.onHeightsChangedEvent.invoke({region: region})
+    return true
+  }
+
+  /**
+   * Returns the height of the terrain below a world position, in local cm,
+   * e.g. as the target of a flatten stroke.
+   */
+  getLocalHeightAt(worldPosition: vec3): number {
+    return this.heightfield.sample(this.toLocalPoint(worldPosition))
+  }
+
+  /**
+   * Returns the world position on the terrain surface below a world
+   * position, or null if the position is not above the terrain.
+   */
+  getSurfacePoint(worldPosition: vec3): vec3 | null {
+    const localPoint = this.toLocalPoint(worldPosition)
+    if (!this.heightfield.contains(localPoint)) {
+      return null
+    }
+    return this.getTransform()
+      .getWorldTransform()
+      .multiplyPoint(
+        new vec3(
+          localPoint.x,
+          this.heightfield.sample(localPoint),
+          localPoint.y,
+        ),
+      )
+  }
+
+  /**
+   * Rebuilds the collider from the current mesh. Rebuilding is expensive, so
+   * sculpting tools call this when a stroke ends rather than every frame.
+   */
+  refreshCollider(): void {
+    const shape = Shape.createMeshShape()
+    shape.mesh = this.meshBuilder.getMesh()
+    this.collider.shape = shape
+  }
+
+  private onHeightfieldReplaced(): void {
+    this.buildMesh()
+    this.refreshCollider()
+    this.onHeightsChangedEvent.invoke({region: null})
+  }
+
+  private toLocalPoint(worldPosition: vec3): vec2 {
+    const local = this.getTransform()
+      .getInvertedWorldTransform()
+      .multiplyPoint(worldPosition)
+    return new vec2(local.x, local.z)
+  }
+
+  // Keeps every root placed object on the terrain at the same height above it while the heights change
+  private modifyHeights<T>(groundObjects: boolean, change: () => T): T {
+    const grounded: GroundedObject[] = []
+    if (groundObjects) {
+      for (const placedObject of this.registry.getAll()) {
+        const parent = placedObject.sceneObject.getParent()
+        if (
+          (parent !== null && this.registry.findContaining(parent) !== null) ||
+          this.tracker.isManipulating(placedObject.id)
+        ) {
+          continue
+        }
+        const transform = placedObject.sceneObject.getTransform()
+        const localPoint = this.toLocalPoint(transform.getWorldPosition())
+        if (this.heightfield.contains(localPoint)) {
+          grounded.push({
+            transform: transform,
+            localPoint: localPoint,
+            height: this.heightfield.sample(localPoint),
+          })
+        }
+      }
+    }
+
+    const result = change()
+
+    const worldTransform = this.getTransform().getWorldTransform()
+    for (const object of grounded) {
+      const delta = this.heightfield.sample(object.localPoint) - object.height
+      if (delta !== 0) {
+        object.transform.setWorldPosition(
+          object.transform
+            .getWorldPosition()
+            .add(worldTransform.multiplyDirection(new vec3(0, delta, 0))),
+        )
+      }
+    }
+    return result
+  }
+
+  private getVertexData(i: number, j: number): number[] {
+    const position = this.heightfield.getVertexPosition(i, j)
+    const normal = this.heightfield.getNormal(i, j)
+    const last = this.heightfield.resolution - 1
+    return [
+      position.x,
+      this.heightfield.getHeight(i, j),
+      position.y,
+      normal.x,
+      normal.y,
+      normal.z,
+      i / last,
+      j / last,
+    ]
+  }
+
+  private buildMesh(): void {
+    if (this.meshBuilder.getIndicesCount() !== 0) {
+      this.meshBuilder.eraseIndices(0, this.meshBuilder.getIndicesCount())
+    }
+    if (this.meshBuilder.getVerticesCount() !== 0) {
+      this.meshBuilder.eraseVertices(0, this.meshBuilder.getVerticesCount())
+    }
+
+    const resolution = this.heightfield.resolution
+    const vertexData: number[] = []
+    for (let j = 0; j < resolution; j++) {
+      for (let i = 0; i < resolution; i++) {
+        vertexData.push(...this.getVertexData(i, j))
+      }
+    }
+
+    // Two counter-clockwise triangles per cell, seen from above
+    const indices: number[] = []
+    for (let j = 0; j < resolution - 1; j++) {
+      for (let i = 0; i < resolution - 1; i++) {
+        const a = this.heightfield.index(i, j)
+        const b = this.heightfield.index(i + 1, j)
+        const c = this.heightfield.index(i, j + 1)
+        const d = this.heightfield.index(i + 1, j + 1)
+        indices.push(a, c, b, b, c, d)
+      }
+    }
+
+    // Do only one call to native layer per buffer to save costs
+    this.meshBuilder.appendVerticesInterleaved(vertexData)
+    this.meshBuilder.appendIndices(indices)
+    this.meshBuilder.updateMesh()
+  }
+
+  private updateVertices(region: GridRegion): void {
+    // Normals depend on the neighbors, so update one vertex beyond the region
+    const last = this.heightfield.resolution - 1
+    for (
+      let j = Math.max(0, region.minJ - 1);
+      j <= Math.min(last, region.maxJ + 1);
+      j++
+    ) {
+      for (
+        let i = Math.max(0, region.minI - 1);
+        i <= Math.min(last, region.maxI + 1);
+        i++
+      ) {
+        this.meshBuilder.setVertexInterleaved(
+          this.heightfield.index(i, j),
+          this.getVertexData(i, j),
+        )
+      }
+    }
+    this.meshBuilder.updateMesh()
+  }
+}
@@ -0,0 +1,115 @@
+import {aabb} from "SpectaclesInteractionKit/Utils/aabb"
+import {forEachInHierarchy} from "./SceneObjectUtils"
+
+/**
+ * Returns the bounds of a collider's shape in the collider's local space, or
+ * null for shapes without fixed bounds.
+ */
+export function getShapeBounds(shape: Shape): aabb | null {
+  if (shape.isOfType("Physics.BoxShape")) {
+    const half = (shape as BoxShape).size.uniformScale(0.5)
+    return {min: half.uniformScale(-1), max: half}
+  }
+  if (shape.isOfType("Physics.SphereShape")) {
+    const radius = (shape as SphereShape).radius
+    return {
+      min: vec3.one().uniformScale(-radius),
+      max: vec3.one().uniformScale(radius),
+    }
+  }
+  if (
+    shape.isOfType("Physics.CapsuleShape") ||
+    shape.isOfType("Physics.CylinderShape")
+  ) {
+    const {radius, length, axis} = shape as CapsuleShape | CylinderShape
+    const half = new vec3(
+      axis === Axis.X ? length / 2 + radius : radius,
+      axis === Axis.Y ? length / 2 + radius : radius,
+      axis === Axis.Z ? length / 2 + radius : radius,
+    )
+    return {min: half.uniformScale(-1), max: half}
+  }
+  if (shape.isOfType("Physics.MeshShape")) {
+    const mesh = (shape as MeshShape).mesh
+    return isNull(mesh) ? null : {min: mesh.aabbMin, max: mesh.aabbMax}
+  }
+  return null
+}
+
+/**
+ * Returns the box containing the given box after transforming it.
+ */
+export function transformBounds(bounds: aabb, matrix: mat4): aabb {
+  let min = new vec3(Infinity, Infinity, Infinity)
+  let max = new vec3(-Infinity, -Infinity, -Infinity)
+  for (let corner = 0; corner < 8; corner++) {
+    const point = matrix.multiplyPoint(
+      new vec3(
+        corner & 1 ? bounds.max.x : bounds.min.x,
+        corner & 2 ? bounds.max.y : bounds.min.y,
+        corner & 4 ? bounds.max.z : bounds.min.z,
+      ),
+    )
+    min = vec3.min(min, point)
+    max = vec3.max(max, point)
+  }
+  return {min: min, max: max}
+}
+
+/**
+ * Returns the box containing every collider in the hierarchy of the root,
+ * in the root's local space, or null if the hierarchy has no colliders.
+ */
+export function getLocalColliderBounds(root: SceneObject): aabb | null {
+  const toRoot = root.getTransform().getInvertedWorldTransform()
+
+  let bounds: aabb | null = null
+  forEachInHierarchy(root, (sceneObject) => {
+    for (const collider of sceneObject.getComponents(
+      "Physics.ColliderComponent",
+    )) {
+      const shapeBounds = getShapeBounds(collider.shape)
+      if (shapeBounds === null) {
+        continue
+      }
+      const colliderBounds = transformBounds(
+        shapeBounds,
+        toRoot.mult(sceneObject.getTransform().getWorldTransform()),
+      )
+      bounds =
+        bounds === null
+          ? colliderBounds
+          : {
+              min: vec3.min(bounds.min, colliderBounds.min),
+              max: vec3.max(bounds.max, colliderBounds.max),
+            }
+    }
+  })
+  return bounds
+}
+
+/**
+ * Returns true if the boxes overlap by more than the margin along every axis.
+ */
+export function boundsOverlap(a: aabb, b: aabb, margin: number = 0): boolean {
+  return (
+    a.min.x + margin < b.max.x &&
+    b.min.x + margin < a.max.x &&
+    a.min.y + margin < b.max.y &&
+    b.min.y + margin < a.max.y &&
+    a.min.z + margin < b.max.z &&
+    b.min.z + margin < a.max.z
+  )
+}
+
+/**
+ * Returns the shortest distance between two boxes, or 0 if they overlap.
+ */
+export function boundsDistance(a: aabb, b: aabb): number {
+  const gap = new vec3(
+    Math.max(0, a.min.x - b.max.x, b.min.x - a.max.x),
+    Math.max(0, a.min.y - b.max.y, b.min.y - a.max.y),
+    Math.max(0, a.min.z - b.max.z, b.min.z - a.max.z),
+  )
+  return gap.length
+}
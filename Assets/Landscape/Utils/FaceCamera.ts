@@ -0,0 +1,16 @@
+import WorldCameraFinderProvider from "SpectaclesInteractionKit/Providers/CameraProvider/WorldCameraFinderProvider"
+
+/**
+ * Moves a floating label or menu to a world position and turns it around the
+ * vertical axis to face the camera.
+ */
+export function placeFacingCamera(transform: Transform, position: vec3): void {
+  transform.setWorldPosition(position)
+  const toCamera = WorldCameraFinderProvider.getInstance()
+    .getWorldPosition()
+    .sub(position)
+  toCamera.y = 0
+  if (toCamera.length > 0) {
+    transform.setWorldRotation(quat.lookAt(toCamera.normalize(), vec3.up()))
+  }
+}
@@ -0,0 +1,100 @@
+import {InteractionManager} from "SpectaclesInteractionKit/Core/InteractionManager/InteractionManager"
+import {
+  Interactor,
+  InteractorInputType,
+} from "SpectaclesInteractionKit/Core/Interactor/Interactor"
+import {HandInputData} from "SpectaclesInteractionKit/Providers/HandInputData/HandInputData"
+import {isExcludedFromRaycasts} from "./RaycastExclusions"
+
+const DEFAULT_MAX_DISTANCE = 500
+
+export type Ray = {
+  origin: vec3
+  direction: vec3
+}
+
+/**
+ * Raycasts the physics world along the dominant hand's targeting ray, for
+ * tools that work on arbitrary surfaces rather than on Interactables.
+ */
+export class HandRaycaster {
+  private probe = Physics.createGlobalProbe()
+  private interactionManager = InteractionManager.getInstance()
+  private handInputData = HandInputData.getInstance()
+
+  /**
+   * @param maxDistance - how far along the ray to look for hits, in cm.
+   */
+  constructor(public maxDistance: number = DEFAULT_MAX_DISTANCE) {}
+
+  /**
+   * Returns the interactor driven by the dominant hand, if any.
+   */
+  getDominantInteractor(): Interactor | null {
+    const inputType =
+      this.handInputData.getDominantHand().handType === "left"
+        ? InteractorInputType.LeftHand
+        : InteractorInputType.RightHand
+    return this.interactionManager.getInteractorsByType(inputType)[0] ?? null
+  }
+
+  /**
+   * Returns the current targeting ray of the dominant hand, or null if the
+   * hand is not targeting.
+   */
+  getRay(): Ray | null {
+    const interactor = this.getDominantInteractor()
+    if (
+      interactor === null ||
+      !interactor.isTargeting() ||
+      interactor.startPoint === null ||
+      interactor.direction === null
+    ) {
+      return null
+    }
+    return {origin: interactor.startPoint, direction: interactor.direction}
+  }
+
+  /**
+   * Casts the dominant hand's ray and reports the nearest hit.
+   *
+   * @param callback - receives the nearest accepted hit, or null if nothing was hit.
+   * @param ignore - optional filter returning true for SceneObjects the ray should pass through, on top of those excluded from every raycast.
+   */
+  cast(
+    callback: (hit: RayCastHit | null) => void,
+    ignore?: (sceneObject: SceneObject) => boolean,
+  ): void {
+    const ray = this.getRay()
+    if (ray === null) {
+      callback(null)
+      return
+    }
+    this.castRay(ray, callback, ignore)
+  }
+
+  /**
+   * Casts an arbitrary ray and reports the nearest hit.
+   */
+  castRay(
+    ray: Ray,
+    callback: (hit: RayCastHit | null) => void,
+    ignore?: (sceneObject: SceneObject) => boolean,
+  ): void {
+    const end = ray.origin.add(ray.direction.uniformScale(this.maxDistance))
+    this.probe.rayCastAll(ray.origin, end, (hits: RayCastHit[]) => {
+      // RaycastHits are automatically sorted from nearest to farthest
+      for (const hit of hits) {
+        const sceneObject = hit.collider.getSceneObject()
+        if (
+          !isExcludedFromRaycasts(sceneObject) &&
+          (ignore === undefined || !ignore(sceneObject))
+        ) {
+          callback(hit)
+          return
+        }
+      }
+      callback(null)
+    })
+  }
+}
@@ -0,0 +1,193 @@
+const DEFAULT_MAX_ATTEMPTS = 30
+
+/**
+ * Region of the plane Poisson-disk points are sampled in.
+ */
+export interface SamplingDomain {
+  contains(point: vec2): boolean
+  /**
+   * Returns a uniformly distributed point inside the domain.
+   */
+  randomPoint(random: () => number): vec2
+}
+
+/**
+ * Generates points inside a circle that are at least `spacing` apart from
+ * each other and from any existing point, using Bridson's algorithm.
+ *
+ * See: https://www.cs.ubc.ca/~rbridson/docs/bridson-siggraph07-poissondisk.pdf
+ *
+ * @param center - center of the circle.
+ * @param radius - radius of the circle.
+ * @param spacing - minimum distance between two points.
+ * @param random - returns uniformly distributed numbers in [0, 1). Pass a seeded generator for reproducible results.
+ * @param existing - points that new points must keep their distance from, e.g. already placed objects.
+ * @param maxAttempts - candidates tried around each point before it is retired.
+ * @returns the new points, not including the existing ones.
+ */
+export function poissonDiskInCircle(
+  center: vec2,
+  radius: number,
+  spacing: number,
+  random: () => number,
+  existing: vec2[] = [],
+  maxAttempts: number = DEFAULT_MAX_ATTEMPTS,
+): vec2[] {
+  if (radius <= 0) {
+    return []
+  }
+
+  return poissonDisk(
+    {
+      contains: (point) => point.distance(center) <= radius,
+      randomPoint: (random) => {
+        const angle = random() * Math.PI * 2
+        const distance = Math.sqrt(random()) * radius
+        return new vec2(
+          center.x + Math.cos(angle) * distance,
+          center.y + Math.sin(angle) * distance,
+        )
+      },
+    },
+    spacing,
+    random,
+    existing,
+    maxAttempts,
+  )
+}
+
+/**
+ * Generates points inside an axis-aligned rectangle, see
+ * {@link poissonDiskInCircle}.
+ *
+ * @param min - corner of the rectangle with the smallest coordinates.
+ * @param max - corner of the rectangle with the largest coordinates.
+ */
+export function poissonDiskInRect(
+  min: vec2,
+  max: vec2,
+  spacing: number,
+  random: () => number,
+  existing: vec2[] = [],
+  maxAttempts: number = DEFAULT_MAX_ATTEMPTS,
+): vec2[] {
+  if (max.x <= min.x || max.y <= min.y) {
+    return []
+  }
+
+  return poissonDisk(
+    {
+      contains: (point) =>
+        point.x >= min.x &&
+        point.x <= max.x &&
+        point.y >= min.y &&
+        point.y <= max.y,
+      randomPoint: (random) =>
+        new vec2(
+          min.x + random() * (max.x - min.x),
+          min.y + random() * (max.y - min.y),
+        ),
+    },
+    spacing,
+    random,
+    existing,
+    maxAttempts,
+  )
+}
+
+/**
+ * Generates points inside an arbitrary domain that are at least `spacing`
+ * apart from each other and from any existing point inside the domain.
+ * Domains that are not connected may only be partially filled, since new
+ * points are grown from the first one.
+ */
+export function poissonDisk(
+  domain: SamplingDomain,
+  spacing: number,
+  random: () => number,
+  existing: vec2[] = [],
+  maxAttempts: number = DEFAULT_MAX_ATTEMPTS,
+): vec2[] {
+  if (spacing <= 0) {
+    return []
+  }
+
+  const cellSize = spacing / Math.SQRT2
+  const grid: Map<string, vec2[]> = new Map()
+  const cellKey = (x: number, y: number) =>
+    `${Math.floor(x / cellSize)},${Math.floor(y / cellSize)}`
+
+  const insert = (point: vec2) => {
+    const key = cellKey(point.x, point.y)
+    const cell = grid.get(key)
+    if (cell === undefined) {
+      grid.set(key, [point])
+    } else {
+      cell.push(point)
+    }
+  }
+
+  const isFarEnough = (point: vec2) => {
+    const cx = Math.floor(point.x / cellSize)
+    const cy = Math.floor(point.y / cellSize)
+    for (let x = cx - 2; x <= cx + 2; x++) {
+      for (let y = cy - 2; y <= cy + 2; y++) {
+        const cell = grid.get(`${x},${y}`)
+        if (cell === undefined) {
+          continue
+        }
+        for (const other of cell) {
+          if (other.distance(point) < spacing) {
+            return false
+          }
+        }
+      }
+    }
+    return true
+  }
+
+  for (const point of existing) {
+    insert(point)
+  }
+
+  const points: vec2[] = []
+  const active: vec2[] = []
+
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    const seed = domain.randomPoint(random)
+    if (isFarEnough(seed)) {
+      insert(seed)
+      points.push(seed)
+      active.push(seed)
+      break
+    }
+  }
+
+  while (active.length > 0) {
+    const activeIndex = Math.floor(random() * active.length)
+    const origin = active[activeIndex]
+
+    let found = false
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      const angle = random() * Math.PI * 2
+      const distance = spacing * (1 + random())
+      const candidate = new vec2(
+        origin.x + Math.cos(angle) * distance,
+        origin.y + Math.sin(angle) * distance,
+      )
+      if (domain.contains(candidate) && isFarEnough(candidate)) {
+        insert(candidate)
+        points.push(candidate)
+        active.push(candidate)
+        found = true
+        break
+      }
+    }
+
+    if (!found) {
+      active.splice(activeIndex, 1)
+    }
+  }
+
+  return points
+}
@@ -0,0 +1,69 @@
+/**
+ * Returns true if the point lies inside the polygon, using the even-odd rule.
+ * The polygon is closed implicitly between its last and first vertex.
+ *
+ * @param point - the point to test.
+ * @param polygon - vertices of the polygon, in order.
+ */
+export function pointInPolygon(point: vec2, polygon: vec2[]): boolean {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i]
+    const b = polygon[j]
+    if (
+      a.y > point.y !== b.y > point.y &&
+      point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x
+    ) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+/**
+ * Returns the four corners of the axis-aligned rectangle spanned by two
+ * opposite corners, in order.
+ */
+export function rectFromCorners(a: vec2, b: vec2): vec2[] {
+  return [a, new vec2(b.x, a.y), b, new vec2(a.x, b.y)]
+}
+
+/**
+ * Returns the area enclosed by a simple polygon, using the shoelace formula.
+ * The polygon is closed implicitly between its last and first vertex.
+ *
+ * @param polygon - vertices of the polygon, in either winding order.
+ */
+export function polygonArea(polygon: vec2[]): number {
+  let twiceArea = 0
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    twiceArea += polygon[j].x * polygon[i].y - polygon[i].x * polygon[j].y
+  }
+  return Math.abs(twiceArea) / 2
+}
+
+/**
+ * Returns the shortest distance between a point and a polyline on the
+ * ground plane.
+ *
+ * @param point - (x, z) position.
+ * @param polyline - (x, z) vertices of the polyline.
+ */
+export function distanceToPolyline(point: vec2, polyline: vec2[]): number {
+  if (polyline.length === 1) {
+    return point.distance(polyline[0])
+  }
+
+  let nearest = Infinity
+  for (let i = 0; i < polyline.length - 1; i++) {
+    const a = polyline[i]
+    const ab = polyline[i + 1].sub(a)
+    const lengthSquared = ab.dot(ab)
+    const t =
+      lengthSquared > 0
+        ? Math.min(1, Math.max(0, point.sub(a).dot(ab) / lengthSquared))
+        : 0
+    nearest = Math.min(nearest, point.distance(a.add(ab.uniformScale(t))))
+  }
+  return nearest
+}
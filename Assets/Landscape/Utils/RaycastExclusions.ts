@@ -0,0 +1,31 @@
+import {unsubscribe} from "SpectaclesInteractionKit/Utils/Event"
+import {isDescendantOf} from "SpectaclesInteractionKit/Utils/SceneObjectUtils"
+
+// Roots of the hierarchies every landscape raycast passes through
+const excludedRoots: SceneObject[] = []
+
+/**
+ * Makes landscape raycasts, e.g. for placing, drawing and measuring, pass
+ * through the hierarchy of the root. Use it for colliders that are not part
+ * of the landscape, like the proxies of the miniature view.
+ *
+ * @returns a function that makes raycasts hit the hierarchy again.
+ */
+export function excludeFromRaycasts(root: SceneObject): unsubscribe {
+  excludedRoots.push(root)
+  return () => {
+    const index = excludedRoots.indexOf(root)
+    if (index !== -1) {
+      excludedRoots.splice(index, 1)
+    }
+  }
+}
+
+/**
+ * Returns true if landscape raycasts should pass through the SceneObject.
+ */
+export function isExcludedFromRaycasts(sceneObject: SceneObject): boolean {
+  return excludedRoots.some(
+    (root) => !isNull(root) && isDescendantOf(sceneObject, root),
+  )
+}
@@ -0,0 +1,35 @@
+/**
+ * Calls the callback for the given SceneObject and every one of its
+ * descendants, depth first.
+ *
+ * @param root - the SceneObject to start from.
+ * @param callback - invoked for each SceneObject in the hierarchy.
+ */
+export function forEachInHierarchy(
+  root: SceneObject,
+  callback: (sceneObject: SceneObject) => void,
+): void {
+  callback(root)
+  for (let i = 0; i < root.getChildrenCount(); i++) {
+    forEachInHierarchy(root.getChild(i), callback)
+  }
+}
+
+/**
+ * Collects every component of the given type on the SceneObject and its
+ * descendants.
+ *
+ * @param root - the SceneObject to search.
+ * @param componentType - the component type name, e.g. "Component.RenderMeshVisual".
+ * @returns the components found, in depth first order.
+ */
+export function getComponentsInHierarchy<K extends keyof ComponentNameMap>(
+  root: SceneObject,
+  componentType: K,
+): ComponentNameMap[K][] {
+  const components: ComponentNameMap[K][] = []
+  forEachInHierarchy(root, (sceneObject) => {
+    components.push(...sceneObject.getComponents(componentType))
+  })
+  return components
+}
@@ -0,0 +1,10 @@
+import {SeededRandomNumberGenerator} from "SpectaclesInteractionKit/Utils/SeededRandomNumberGenerator"
+
+/**
+ * Creates a random number generator for a seed of any value, e.g. one typed
+ * into the Inspector. SeededRandomNumberGenerator throws on seeds that are
+ * not integers, so the seed is rounded first.
+ */
+export function createSeededRandom(seed: number): SeededRandomNumberGenerator {
+  return new SeededRandomNumberGenerator(Math.round(seed))
+}
@@ -0,0 +1,36 @@
+import {LandscapeCommand} from "../History/LandscapeCommand"
+import {VariantState, VariantSwapper} from "./VariantSwapper"
+
+/**
+ * Swaps a placed object between two variants. Both instances are kept until
+ * the command leaves the history, so the swap can be undone and redone.
+ */
+export class VariantCommand implements LandscapeCommand {
+  private applied = false
+
+  constructor(
+    readonly label: string,
+    private swapper: VariantSwapper,
+    private objectId: string,
+    private before: VariantState,
+    private after: VariantState,
+  ) {}
+
+  execute(): void {
+    this.swapper.applyVariant(this.objectId, this.after)
+    this.applied = true
+  }
+
+  undo(): void {
+    this.swapper.applyVariant(this.objectId, this.before)
+    this.applied = false
+  }
+
+  discard(): void {
+    if (this.before.sceneObject === this.after.sceneObject) {
+      return
+    }
+    const unused = this.applied ? this.before : this.after
+    this.swapper.releaseInstance(unused.prefab, unused.sceneObject)
+  }
+}
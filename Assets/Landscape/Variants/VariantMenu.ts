@@ -0,0 +1,173 @@
+import {ScrollView} from "SpectaclesInteractionKit/Components/UI/ScrollView/ScrollView"
+import {unsubscribe} from "SpectaclesInteractionKit/Utils/Event"
+import {aabb} from "SpectaclesInteractionKit/Utils/aabb"
+import {PlacedObject} from "../Core/LandscapeObjectRegistry"
+import {PrefabCatalog} from "../Core/PrefabCatalog"
+import {LandscapeHistory} from "../History/LandscapeHistory"
+import {SelectionManager} from "../Selection/SelectionManager"
+import {getLocalColliderBounds, transformBounds} from "../Utils/ColliderBounds"
+import {placeFacingCamera} from "../Utils/FaceCamera"
+import {VariantCommand} from "./VariantCommand"
+import {VariantRegistry} from "./VariantRegistry"
+import {VariantState, VariantSwapper} from "./VariantSwapper"
+import {VariantTile} from "./VariantTile"
+
+/**
+ * Scroll menu floating above the selected object that lists its prefab and
+ * material variants. Picking one swaps the object in place as an undoable
+ * edit. The menu only shows while exactly one object with variants is
+ * selected. Place it on the content of the menu's ScrollView.
+ */
+@component
+export class VariantMenu extends BaseScriptComponent {
+  @input
+  @hint("Root of the menu, moved above the selected object and hidden with it")
+  menu!: SceneObject
+  @input
+  scrollView!: ScrollView
+  @input
+  @hint("Prefab with a VariantTile component")
+  tilePrefab!: ObjectPrefab
+  @input
+  @hint("Spacing between tiles in ScreenTransform units")
+  rowHeight: number = 4
+  @input
+  @hint("Distance between the top of the object and the menu, in cm")
+  heightOffset: number = 8
+
+  private registry = VariantRegistry.getInstance()
+  private swapper = VariantSwapper.getInstance()
+  private selection = SelectionManager.getInstance()
+  private history = LandscapeHistory.getInstance()
+  private catalog = PrefabCatalog.getInstance()
+
+  private target: PlacedObject | null = null
+  private targetBounds: aabb | null = null
+  private tiles: SceneObject[] = []
+
+  // Keep track of "Unsubscribe" functions when adding callbacks to selection events, to ensure proper cleanup on destroy
+  private unsubscribeBag: unsubscribe[] = []
+
+  onAwake(): void {
+    this.menu.enabled = false
+    this.unsubscribeBag.push(
+      this.selection.onSelectionChanged.add((event) =>
+        this.setTarget(event.selected.length === 1 ? event.selected[0] : null),
+      ),
+    )
+    this.createEvent("UpdateEvent").bind(() => this.updateAnchor())
+    this.createEvent("OnDestroyEvent").bind(() => {
+      this.unsubscribeBag.forEach((unsubscribe) => unsubscribe())
+      this.unsubscribeBag = []
+    })
+  }
+
+  private setTarget(placedObject: PlacedObject | null): void {
+    this.target =
+      placedObject !== null && this.registry.hasVariants(placedObject.prefab)
+        ? placedObject
+        : null
+    this.menu.enabled = this.target !== null
+    if (this.target !== null) {
+      this.targetBounds = getLocalColliderBounds(this.target.sceneObject)
+      this.createTiles(this.target)
+      this.updateAnchor()
+    }
+  }
+
+  private createTiles(placedObject: PlacedObject): void {
+    this.tiles.forEach((tile) => tile.destroy())
+    this.tiles = []
+
+    const current = this.swapper.captureState(placedObject)
+    const entries: {name: string; active: boolean; state: VariantState}[] = []
+    for (const prefab of this.registry.getPrefabVariants(placedObject.prefab)) {
+      entries.push({
+        name: this.catalog.getMetadata(prefab).displayName,
+        active: prefab === current.prefab,
+        state: {
+          prefab: prefab,
+          sceneObject: current.sceneObject,
+          material: current.material,
+        },
+      })
+    }
+    for (const material of this.registry.getMaterialVariants(
+      placedObject.prefab,
+    )) {
+      entries.push({
+        name: material.name,
+        active: material === current.material,
+        state: {...current, material: material},
+      })
+    }
+
+    const sceneObj = this.getSceneObject()
+    const tileTypeName = VariantTile.getTypeName()
+    for (let i = 0; i < entries.length; i++) {
+      const entry = entries[i]
+      const tile = this.tilePrefab.instantiate(sceneObj)
+      const screenTransform = tile.getComponent("Component.ScreenTransform")
+      screenTransform.offsets.setCenter(new vec2(0, -i * this.rowHeight))
+      tile.enabled = true
+
+      const variantTile: VariantTile | null = tile.getComponent(tileTypeName)
+      if (variantTile !== null) {
+        variantTile.init(entry.name, entry.active, () =>
+          this.swap(placedObject, entry.state),
+        )
+      }
+      this.tiles.push(tile)
+    }
+
+    this.scrollView.recomputeBoundaries()
+  }
+
+  private swap(placedObject: PlacedObject, state: VariantState): void {
+    const before = this.swapper.captureState(placedObject)
+    if (state.prefab === before.prefab && state.material === before.material) {
+      return
+    }
+
+    // Swapping the prefab shows a new instance, painting reuses the current one
+    const after = {
+      ...state,
+      sceneObject:
+        state.prefab !== before.prefab
+          ? this.swapper.createInstance(state.prefab)
+          : before.sceneObject,
+    }
+    const label =
+      state.prefab !== before.prefab
+        ? `Swap ${before.prefab.name} to ${state.prefab.name}`
+        : `Paint ${before.prefab.name} ${state.material?.name ?? "default"}`
+    this.history.execute(
+      new VariantCommand(label, this.swapper, placedObject.id, before, after),
+    )
+
+    // Painting keeps the selected object, so refresh the highlighted tile here
+    if (after.sceneObject === before.sceneObject) {
+      this.setTarget(this.target)
+    }
+  }
+
+  private updateAnchor(): void {
+    if (this.target === null || isNull(this.target.sceneObject)) {
+      return
+    }
+
+    const transform = this.target.sceneObject.getTransform()
+    const top =
+      this.targetBounds !== null
+        ? transformBounds(this.targetBounds, transform.getWorldTransform()).max
+            .y
+        : transform.getWorldPosition().y
+    const position = new vec3(
+      transform.getWorldPosition().x,
+      top + this.heightOffset,
+      transform.getWorldPosition().z,
+    )
+
+    placeFacingCamera(this.menu.getTransform(), position)
+  }
+}
@@ -0,0 +1,61 @@
+import {Singleton} from "SpectaclesInteractionKit/Decorators/Singleton"
+
+/**
+ * Prefabs that can stand in for each other, e.g. the seasons of a tree, and
+ * the materials they can be painted with.
+ */
+export type VariantGroup = {
+  name: string
+  prefabs: ObjectPrefab[]
+  materials: Material[]
+}
+
+/**
+ * Maps each prefab to the variants and materials a placed object of that
+ * prefab can be swapped to.
+ */
+@Singleton
+export class VariantRegistry {
+  public static getInstance: () => VariantRegistry
+
+  private groups: Map<ObjectPrefab, VariantGroup> = new Map()
+
+  /**
+   * Registers a group. A prefab belongs to at most one group, so registering
+   * it again moves it to the new group.
+   */
+  register(group: VariantGroup): void {
+    group.prefabs.forEach((prefab) => this.groups.set(prefab, group))
+  }
+
+  getGroup(prefab: ObjectPrefab): VariantGroup | null {
+    return this.groups.get(prefab) ?? null
+  }
+
+  /**
+   * Returns the prefabs an object of the prefab can be swapped to, including
+   * the prefab itself.
+   */
+  getPrefabVariants(prefab: ObjectPrefab): ObjectPrefab[] {
+    return this.getGroup(prefab)?.prefabs ?? []
+  }
+
+  getMaterialVariants(prefab: ObjectPrefab): Material[] {
+    return this.getGroup(prefab)?.materials ?? []
+  }
+
+  findMaterial(prefab: ObjectPrefab, name: string): Material | null {
+    return (
+      this.getMaterialVariants(prefab).find(
+        (material) => material.name === name,
+      ) ?? null
+    )
+  }
+
+  hasVariants(prefab: ObjectPrefab): boolean {
+    const group = this.getGroup(prefab)
+    return (
+      group !== null && (group.prefabs.length > 1 || group.materials.length > 0)
+    )
+  }
+}
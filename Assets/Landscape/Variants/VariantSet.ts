@@ -0,0 +1,30 @@
+import {PrefabCatalog} from "../Core/PrefabCatalog"
+import {VariantRegistry} from "./VariantRegistry"
+
+/**
+ * A variant group authored in the scene, e.g. the seasonal variants of a
+ * tree or the colors of a stone.
+ */
+@component
+export class VariantSet extends BaseScriptComponent {
+  @input
+  groupName: string = "Apple Tree"
+  @input
+  @hint("Prefabs placed objects of this group can be swapped between")
+  prefabs: ObjectPrefab[] = []
+  @input
+  @hint("Materials placed objects of this group can be painted with")
+  materials: Material[] = []
+
+  onAwake(): void {
+    // Swapped objects are saved under their new prefab, so make sure it resolves
+    const catalog = PrefabCatalog.getInstance()
+    this.prefabs.forEach((prefab) => catalog.register(prefab))
+
+    VariantRegistry.getInstance().register({
+      name: this.groupName,
+      prefabs: this.prefabs,
+      materials: this.materials,
+    })
+  }
+}
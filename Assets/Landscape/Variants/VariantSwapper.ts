@@ -0,0 +1,239 @@
+import {Singleton} from "SpectaclesInteractionKit/Decorators/Singleton"
+import Event, {PublicApi} from "SpectaclesInteractionKit/Utils/Event"
+import NativeLogger from "SpectaclesInteractionKit/Utils/NativeLogger"
+import {
+  LandscapeObjectRegistry,
+  PlacedObject,
+} from "../Core/LandscapeObjectRegistry"
+import {
+  isSectionObject,
+  LandscapeSection,
+  LandscapeSections,
+} from "../Core/LandscapeSections"
+import {PrefabPool} from "../Core/PrefabPool"
+import {applyTransform, captureTransform} from "../Core/TransformSnapshot"
+import {getComponentsInHierarchy} from "../Utils/SceneObjectUtils"
+import {VariantRegistry} from "./VariantRegistry"
+
+const TAG = "VariantSwapper"
+
+/**
+ * Which instance and material a placed object shows.
+ */
+export type VariantState = {
+  prefab: ObjectPrefab
+  sceneObject: SceneObject
+  /**
+   * Material painted over the prefab's own materials, or null for those.
+   */
+  material: Material | null
+}
+
+export type VariantAppliedEventArg = {
+  placedObject: PlacedObject
+  material: Material | null
+}
+
+type VariantsRecord = {
+  /**
+   * Names of the painted materials, by object id.
+   */
+  materials: {[id: string]: string}
+}
+
+/**
+ * Swaps placed objects between the prefab and material variants of the
+ * {@link VariantRegistry}. A prefab swap replaces the instance under the same
+ * object id, keeping its transform and selection. Painted materials are
+ * saved with the landscape as the "variants" section; prefab swaps are saved
+ * as the object's prefab.
+ */
+@Singleton
+export class VariantSwapper implements LandscapeSection {
+  public static getInstance: () => VariantSwapper
+
+  readonly name = "variants"
+
+  private registry = LandscapeObjectRegistry.getInstance()
+  private variants = VariantRegistry.getInstance()
+  private pool = PrefabPool.getInstance()
+
+  private materials: Map<string, Material> = new Map()
+  // Material names loaded from a save, resolved once the object and its prefab exist
+  private pendingMaterials: Map<string, string> = new Map()
+  // Materials of each painted visual before it was first painted, so pooled instances can be restored
+  private originalMaterials: Map<RenderMeshVisual, Material> = new Map()
+
+  // Native Logging
+  private log = new NativeLogger(TAG)
+
+  private onVariantAppliedEvent = new Event<VariantAppliedEventArg>()
+  /**
+   * Called after a placed object has been swapped to another variant
+   */
+  onVariantApplied: PublicApi<VariantAppliedEventArg> =
+    this.onVariantAppliedEvent.publicApi()
+
+  constructor() {
+    // Covers loading, undoing deletes and reusing pooled instances alike
+    this.registry.onObjectAdded.add((placedObject) => {
+      this.resolvePendingMaterial(placedObject)
+      this.paint(
+        placedObject.sceneObject,
+        this.materials.get(placedObject.id) ?? null,
+      )
+    })
+    // Removed instances may go back to the PrefabPool, so they lose their paint
+    this.registry.onObjectRemoved.add((placedObject) => {
+      if (!isNull(placedObject.sceneObject)) {
+        this.paint(placedObject.sceneObject, null)
+      }
+    })
+    LandscapeSections.getInstance().register(this)
+  }
+
+  captureState(placedObject: PlacedObject): VariantState {
+    return {
+      prefab: placedObject.prefab,
+      sceneObject: placedObject.sceneObject,
+      material: this.materials.get(placedObject.id) ?? null,
+    }
+  }
+
+  /**
+   * Returns a disabled instance of a prefab variant, ready to be passed to
+   * {@link applyVariant}.
+   */
+  createInstance(prefab: ObjectPrefab): SceneObject {
+    const sceneObject = this.pool.acquire(prefab, null)
+    sceneObject.enabled = false
+    return sceneObject
+  }
+
+  /**
+   * Returns an instance created by {@link createInstance} that is no longer
+   * shown.
+   */
+  releaseInstance(prefab: ObjectPrefab, sceneObject: SceneObject): void {
+    if (!isNull(sceneObject)) {
+      this.paint(sceneObject, null)
+    }
+    this.pool.release(prefab, sceneObject)
+  }
+
+  /**
+   * Makes a placed object show the given variant. The previous instance is
+   * only disabled, so the swap can be undone.
+   *
+   * @returns the placed object after the swap, or null if the id is unknown.
+   */
+  applyVariant(id: string, state: VariantState): PlacedObject | null {
+    let placedObject = this.registry.getById(id)
+    if (placedObject === null) {
+      this.log.w(`Cannot swap the variant of unknown object ${id}`)
+      return null
+    }
+
+    if (state.material !== null) {
+      this.materials.set(id, state.material)
+    } else {
+      this.materials.delete(id)
+    }
+
+    if (placedObject.sceneObject !== state.sceneObject) {
+      placedObject = this.replaceInstance(placedObject, state)
+    } else {
+      this.paint(placedObject.sceneObject, state.material)
+    }
+    this.onVariantAppliedEvent.invoke({
+      placedObject: placedObject,
+      material: state.material,
+    })
+    return placedObject
+  }
+
+  save(): VariantsRecord {
+    const materials: {[id: string]: string} = {}
+    this.materials.forEach((material, id) => {
+      if (this.registry.getById(id) !== null) {
+        materials[id] = material.name
+      }
+    })
+    return {materials: materials}
+  }
+
+  load(data: unknown): void {
+    this.materials.clear()
+    this.pendingMaterials.clear()
+    const materials: {[id: string]: unknown} =
+      isSectionObject(data) && isSectionObject(data.materials)
+        ? data.materials
+        : {}
+    for (const id in materials) {
+      const name = materials[id]
+      if (typeof name === "string") {
+        this.pendingMaterials.set(id, name)
+      }
+    }
+  }
+
+  private resolvePendingMaterial(placedObject: PlacedObject): void {
+    const name = this.pendingMaterials.get(placedObject.id)
+    if (name === undefined) {
+      return
+    }
+    this.pendingMaterials.delete(placedObject.id)
+
+    const material = this.variants.findMaterial(placedObject.prefab, name)
+    if (material === null) {
+      this.log.w(`Unknown material ${name} for ${placedObject.id}`)
+      return
+    }
+    this.materials.set(placedObject.id, material)
+  }
+
+  // Replaces the instance under the same id, so commands and saves referring to the id keep working
+  private replaceInstance(
+    placedObject: PlacedObject,
+    state: VariantState,
+  ): PlacedObject {
+    const previous = placedObject.sceneObject
+    const next = state.sceneObject
+
+    next.setParent(previous.getParent())
+    applyTransform(
+      next.getTransform(),
+      captureTransform(previous.getTransform()),
+    )
+
+    // Objects parented to this one follow it to the new instance
+    for (let i = previous.getChildrenCount() - 1; i >= 0; i--) {
+      const child = previous.getChild(i)
+      if (this.registry.getBySceneObject(child) !== null) {
+        child.setParentPreserveWorldTransform(next)
+      }
+    }
+
+    this.paint(next, state.material)
+    previous.enabled = false
+    next.enabled = true
+    return this.registry.replace(placedObject.id, next, state.prefab)!
+  }
+
+  private paint(sceneObject: SceneObject, material: Material | null): void {
+    for (const visual of getComponentsInHierarchy(
+      sceneObject,
+      "Component.RenderMeshVisual",
+    )) {
+      const original = this.originalMaterials.get(visual)
+      if (material !== null) {
+        if (original === undefined) {
+          this.originalMaterials.set(visual, visual.mainMaterial)
+        }
+        visual.mainMaterial = material
+      } else if (original !== undefined) {
+        visual.mainMaterial = original
+      }
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import {Interactable} from "SpectaclesInteractionKit/Components/Interaction/Interactable/Interactable"
+import {validate} from "SpectaclesInteractionKit/Utils/validate"
+
+/**
+ * A single entry of the variant menu. Shows the variant's name, highlights
+ * the variant the object currently shows and notifies the menu when pinched.
+ */
+@component
+export class VariantTile extends BaseScriptComponent {
+  @input
+  label!: Text
+  @input
+  @allowUndefined
+  @hint("Shown while this is the object's current variant")
+  activeIndicator: SceneObject | undefined
+
+  private interactable: Interactable | null = null
+
+  /**
+   * Fills in the tile for a variant.
+   *
+   * @param name - the variant to present.
+   * @param active - true if the object currently shows the variant.
+   * @param onPicked - called when the tile is pinched.
+   */
+  init(name: string, active: boolean, onPicked: () => void): void {
+    this.label.text = name
+    if (this.activeIndicator !== undefined) {
+      this.activeIndicator.enabled = active
+    }
+
+    this.interactable = this.getSceneObject().getComponent(
+      Interactable.getTypeName(),
+    )
+    validate(this.interactable, "VariantTile requires an Interactable")
+    this.interactable.onTriggerEnd.add(() => onPicked())
+  }
+}
@@ -1,6 +1,59 @@
 import { InteractableManipulation } from "SpectaclesInteractionKit/Components/Interaction/InteractableManipulation/InteractableManipulation"
-import { ContainerFrame } from "SpectaclesInteractionKit/Components/UI/ContainerFrame/ContainerFrame"
+import Event, { PublicApi, unsubscribe } from "SpectaclesInteractionKit/Utils/Event"
+import { LandscapeObjectRegistry, PlacedObject } from "Landscape/Core/LandscapeObjectRegistry"
+import { ManipulationTracker } from "Landscape/Core/ManipulationTracker"
+import { PrefabCatalog } from "Landscape/Core/PrefabCatalog"
+import { DeleteCommand } from "Landscape/History/DeleteCommand"
+import { LandscapeHistory } from "Landscape/History/LandscapeHistory"
+import { ToolModeManager } from "Landscape/Modes/ToolModeManager"
+import { LandscapeSpawner } from "Landscape/Spawning/LandscapeSpawner"
+import {
+    DelayRespawnPolicy,
+    DistanceRespawnPolicy,
+    GrabStartRespawnPolicy,
+    NeverRespawnPolicy,
+    RespawnPolicy,
+} from "Landscape/Spawning/RespawnPolicy"
 
+export type ToolEventArg = {
+    padIndex: number
+    prefab: ObjectPrefab
+    sceneObject: SceneObject
+}
+
+export type ToolTakenEventArg = ToolEventArg & {
+    placedObject: PlacedObject
+}
+
+export type ToolReturnedEventArg = ToolEventArg & {
+    /**
+     * The landscape object that was put back, or null if the tool was
+     * released before it was pulled off the pad.
+     */
+    placedObject: PlacedObject | null
+}
+
+type SpawnPad = {
+    index: number
+    prefab: ObjectPrefab
+    transform: Transform
+    // Tool waiting on the pad
+    stock: SceneObject | null
+    // Tool grabbed from the pad that has not been placed in the landscape yet
+    held: SceneObject | null
+    // Time the last tool was picked up, or null while the pad is stocked
+    pickedUpAt: number | null
+    taken: boolean
+    // Keep track of "Unsubscribe" functions per tool, to ensure proper cleanup once it leaves the pad
+    unsubscribeBags: Map<SceneObject, unsubscribe[]>
+}
+
+/**
+ * Keeps a tool waiting on each spawn point. A tool pulled off its pad is
+ * placed in the landscape, and the pad is restocked according to the respawn
+ * policy. Tools dropped back onto their pad go back into it. Like placed
+ * objects, tools on the pads can only be grabbed in tool modes that allow it.
+ */
 @component
 export class ToolPickerBehavior extends BaseScriptComponent {
 
@@ -9,59 +62,257 @@ export class ToolPickerBehavior extends BaseScriptComponent {
 
     @input
     public toolSpawnPoints:SceneObject[]
-    public toolSpawnPointsT:Transform[]
 
-    private latestObj:SceneObject[]
-    private latestObjT:Transform[]
+    @input
+    public containerObj:SceneObject
 
-    private yOffset = 5
-    private distanceOffset = 15
+    @input
+    @widget(new ComboBoxWidget([
+        new ComboBoxItem("On Grab Start", "OnGrabStart"),
+        new ComboBoxItem("On Distance", "OnDistance"),
+        new ComboBoxItem("After Delay", "AfterDelay"),
+        new ComboBoxItem("Never", "Never"),
+    ]))
+    @hint("When a pad receives a new tool after its tool was picked up")
+    public respawnPolicy:string = "OnDistance"
 
     @input
-    public containerObj:SceneObject
+    @showIf("respawnPolicy", "AfterDelay")
+    @hint("Seconds between picking up a tool and restocking its pad")
+    public respawnDelay:number = 1
+
+    @input
+    @hint("How far a tool must be pulled off its pad before it is placed in the landscape, in cm")
+    public takeDistance:number = 15
+
+    @input
+    @hint("Height above the spawn point at which tools wait, in cm")
+    public spawnHeight:number = 5
+
+    @input
+    @hint("Tools of the pad's kind dropped within this distance of it go back into the pad, in cm")
+    public returnRadius:number = 10
+
+    private pads:SpawnPad[] = []
+    private policy:RespawnPolicy = new DistanceRespawnPolicy()
+
+    private spawner = LandscapeSpawner.getInstance()
+    private registry = LandscapeObjectRegistry.getInstance()
+    private history = LandscapeHistory.getInstance()
+    private tracker = ManipulationTracker.getInstance()
+    private modes = ToolModeManager.getInstance()
+
+    // Keep track of "Unsubscribe" functions when adding callbacks to tracker events, to ensure proper cleanup on destroy
+    private unsubscribeBag:unsubscribe[] = []
+
+    private onToolSpawnedEvent = new Event<ToolEventArg>()
+    /**
+     * Called when a tool appears on a pad
+     */
+    public onToolSpawned:PublicApi<ToolEventArg> = this.onToolSpawnedEvent.publicApi()
+
+    private onToolTakenEvent = new Event<ToolTakenEventArg>()
+    /**
+     * Called when a tool has been pulled off its pad and placed in the landscape
+     */
+    public onToolTaken:PublicApi<ToolTakenEventArg> = this.onToolTakenEvent.publicApi()
+
+    private onToolReturnedEvent = new Event<ToolReturnedEventArg>()
+    /**
+     * Called when a tool has been put back into its pad
+     */
+    public onToolReturned:PublicApi<ToolReturnedEventArg> = this.onToolReturnedEvent.publicApi()
 
     onAwake() {
         this.init()
         this.createEvent("UpdateEvent").bind(this.onUpdate.bind(this))
+        this.createEvent("OnDestroyEvent").bind(() => {
+            this.unsubscribeBag.forEach((unsubscribe) => unsubscribe())
+            this.unsubscribeBag = []
+            this.pads.forEach((pad) => pad.unsubscribeBags.forEach((_, tool) => this.unsubscribeTool(pad, tool)))
+        })
     }
 
     init () {
-        this.toolSpawnPointsT = []
-        this.latestObj = []
-        this.latestObjT = []
+        this.setRespawnPolicy(this.createPolicy())
+        this.toolPrefabs.forEach((prefab) => PrefabCatalog.getInstance().register(prefab))
+        this.unsubscribeBag.push(
+            this.tracker.onManipulationEnded.add((event) => this.tryReturnPlaced(event.placedObject)),
+            this.modes.onModeChanged.add(() => this.pads.forEach((pad) => {
+                if (pad.stock !== null) {
+                    this.setGrabbable(pad.stock, this.modes.allowsManipulation)
+                }
+            })),
+        )
         this.spanwAllTools()
     }
 
+    /**
+     * Replaces the respawn policy, e.g. with a custom one.
+     */
+    setRespawnPolicy (policy:RespawnPolicy) {
+        this.policy = policy
+    }
+
     spanwAllTools () {
-        this.toolSpawnPoints.forEach((value, ind) => {
-            let spawnPoint = value
-            this.toolSpawnPointsT[ind] = spawnPoint.getTransform()
-            this.spawnAndReplace(ind)
-        })
+        this.pads = this.toolSpawnPoints.map((spawnPoint, ind) => ({
+            index: ind,
+            prefab: this.toolPrefabs[ind],
+            transform: spawnPoint.getTransform(),
+            stock: null,
+            held: null,
+            pickedUpAt: null,
+            taken: false,
+            unsubscribeBags: new Map(),
+        }))
+        this.pads.forEach((pad) => this.spawnTool(pad))
     }
 
+    // Only pads whose tool was picked up need attention
     onUpdate () {
-        this.toolSpawnPoints.forEach((value, ind) => {
-            let spawnPointT = this.toolSpawnPointsT[ind]
-            let objectT = this.latestObjT[ind]
-
-            if (objectT.getWorldPosition().distance(spawnPointT.getWorldPosition()) 
-                > this.distanceOffset) {
-                objectT.getSceneObject().setParent(null)
-                this.spawnAndReplace(ind)
+        this.pads.forEach((pad) => {
+            if (pad.pickedUpAt === null) {
+                return
+            }
+
+            if (pad.held !== null && this.getDistance(pad, pad.held) > this.takeDistance) {
+                this.take(pad)
+            }
+
+            if (pad.stock === null && this.policy.shouldRespawn({
+                elapsed: getTime() - pad.pickedUpAt,
+                distance: pad.held !== null ? this.getDistance(pad, pad.held) : Infinity,
+                taken: pad.taken,
+            })) {
+                this.spawnTool(pad)
             }
         })
     }
 
-    spawnAndReplace (ind) {
-        let spawnPos =  this.toolSpawnPointsT[ind].getWorldPosition()
-        spawnPos.y += this.yOffset
+    private createPolicy ():RespawnPolicy {
+        switch (this.respawnPolicy) {
+            case "OnGrabStart":
+                return new GrabStartRespawnPolicy()
+            case "AfterDelay":
+                return new DelayRespawnPolicy(this.respawnDelay)
+            case "Never":
+                return new NeverRespawnPolicy()
+            default:
+                return new DistanceRespawnPolicy()
+        }
+    }
+
+    private getSpawnPosition (pad:SpawnPad):vec3 {
+        return pad.transform.getWorldPosition().add(new vec3(0, this.spawnHeight, 0))
+    }
+
+    private getDistance (pad:SpawnPad, tool:SceneObject):number {
+        return tool.getTransform().getWorldPosition().distance(this.getSpawnPosition(pad))
+    }
 
-        let nObject = this.toolPrefabs[ind].instantiate(this.containerObj)
-        nObject.enabled = true
-        nObject.getTransform().setWorldPosition(spawnPos)
+    private spawnTool (pad:SpawnPad) {
+        let nObject = this.spawner.acquire(pad.prefab, this.containerObj)
+        this.stock(pad, nObject)
+        this.onToolSpawnedEvent.invoke({ padIndex: pad.index, prefab: pad.prefab, sceneObject: nObject })
+    }
+
+    // Puts a tool on the pad and listens for it being picked up
+    private stock (pad:SpawnPad, tool:SceneObject) {
+        tool.getTransform().setWorldPosition(this.getSpawnPosition(pad))
+        pad.stock = tool
+        pad.pickedUpAt = pad.held !== null ? pad.pickedUpAt : null
+
+        let manipulation = tool.getComponent(InteractableManipulation.getTypeName())
+        if (isNull(manipulation)) {
+            return
+        }
+        manipulation.enabled = this.modes.allowsManipulation
+        this.unsubscribeTool(pad, tool)
+        pad.unsubscribeBags.set(tool, [
+            manipulation.onManipulationStart.add(() => this.pickUp(pad, tool)),
+            manipulation.onManipulationEnd.add(() => this.release(pad, tool)),
+        ])
+    }
+
+    private pickUp (pad:SpawnPad, tool:SceneObject) {
+        if (pad.stock !== tool) {
+            return
+        }
+        // A second tool grabbed before the first left the pad takes the first along
+        this.take(pad)
+        pad.stock = null
+        pad.held = tool
+        pad.pickedUpAt = getTime()
+        pad.taken = false
+    }
+
+    private release (pad:SpawnPad, tool:SceneObject) {
+        if (pad.held !== tool) {
+            return
+        }
+        if (this.getDistance(pad, tool) > this.takeDistance) {
+            this.take(pad)
+            return
+        }
+
+        // Released before it left the pad, so it goes back in and replaces any tool restocked meanwhile
+        pad.held = null
+        if (pad.stock !== null) {
+            this.unsubscribeTool(pad, pad.stock)
+            // The pool only resets the pose
+            this.setGrabbable(pad.stock, true)
+            this.spawner.release(pad.prefab, pad.stock)
+        }
+        this.stock(pad, tool)
+        this.onToolReturnedEvent.invoke({ padIndex: pad.index, prefab: pad.prefab, sceneObject: tool, placedObject: null })
+    }
+
+    private take (pad:SpawnPad) {
+        let tool = pad.held
+        if (tool === null) {
+            return
+        }
+        pad.held = null
+        pad.taken = true
+        if (pad.stock !== null) {
+            pad.pickedUpAt = null
+        }
+        this.unsubscribeTool(pad, tool)
+
+        tool.setParent(null)
+        let placedObject = this.spawner.place(tool, pad.prefab)
+        this.onToolTakenEvent.invoke({ padIndex: pad.index, prefab: pad.prefab, sceneObject: tool, placedObject: placedObject })
+    }
+
+    // A placed tool dropped on its pad leaves the landscape, undoably, and the pad keeps a single tool
+    private tryReturnPlaced (placedObject:PlacedObject) {
+        // Another listener, e.g. the placement rules, may already have removed it
+        if (this.registry.getById(placedObject.id) === null) {
+            return
+        }
+        let pad = this.pads.find((pad) =>
+            pad.prefab === placedObject.prefab
+            && this.getDistance(pad, placedObject.sceneObject) <= this.returnRadius)
+        if (pad === undefined) {
+            return
+        }
+
+        this.history.execute(new DeleteCommand(placedObject))
+        if (pad.stock === null && pad.held === null) {
+            this.spawnTool(pad)
+        }
+        this.onToolReturnedEvent.invoke({ padIndex: pad.index, prefab: pad.prefab, sceneObject: placedObject.sceneObject, placedObject: placedObject })
+    }
+
+    private setGrabbable (tool:SceneObject, grabbable:boolean) {
+        let manipulation = tool.getComponent(InteractableManipulation.getTypeName())
+        if (!isNull(manipulation)) {
+            manipulation.enabled = grabbable
+        }
+    }
 
-        this.latestObj[ind] = nObject
-        this.latestObjT[ind] = nObject.getTransform()
+    private unsubscribeTool (pad:SpawnPad, tool:SceneObject) {
+        pad.unsubscribeBags.get(tool)?.forEach((unsubscribe) => unsubscribe())
+        pad.unsubscribeBags.delete(tool)
     }
 }